@@ -0,0 +1,30 @@
+import { integer, numeric, pgTable, primaryKey, text, timestamp } from "drizzle-orm/pg-core";
+
+// Tables for the AMM pool simulator; included with the shared schema in db.ts and drizzle.config.ts
+
+export const ammPools = pgTable("amm_pools", {
+  id: text("id").primaryKey(), // e.g. AVGX-USDC
+  baseToken: text("base_token").notNull(),
+  quoteToken: text("quote_token").notNull(),
+  baseReserve: numeric("base_reserve", { precision: 38, scale: 18 }).notNull(),
+  quoteReserve: numeric("quote_reserve", { precision: 38, scale: 18 }).notNull(),
+  totalShares: numeric("total_shares", { precision: 38, scale: 18 }).notNull(),
+  feeBps: integer("fee_bps").notNull(),
+  // LP fees retained over the pool's life, per token; already part of the reserves, and not protocol fees
+  baseFees: numeric("base_fees", { precision: 38, scale: 18 }).notNull().default("0"),
+  quoteFees: numeric("quote_fees", { precision: 38, scale: 18 }).notNull().default("0"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const ammLpPositions = pgTable("amm_lp_positions", {
+  poolId: text("pool_id").notNull().references(() => ammPools.id),
+  walletAddress: text("wallet_address").notNull(),
+  shares: numeric("shares", { precision: 38, scale: 18 }).notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [primaryKey({ columns: [table.poolId, table.walletAddress] })]);
+
+export type AmmPool = typeof ammPools.$inferSelect;
+export type InsertAmmPool = typeof ammPools.$inferInsert;
+export type AmmLpPosition = typeof ammLpPositions.$inferSelect;
+export type InsertAmmLpPosition = typeof ammLpPositions.$inferInsert;
@@ -0,0 +1,15 @@
+import { pgTable, text, timestamp, varchar } from "drizzle-orm/pg-core";
+import { users } from "@shared/schema";
+import type { Role } from "./services/auth";
+
+// Admin API roles, one per user; included with the shared schema in db.ts and drizzle.config.ts
+
+export const userRoles = pgTable("user_roles", {
+  userId: varchar("user_id").primaryKey().references(() => users.id),
+  role: text("role").$type<Role>().notNull(),
+  createdBy: text("created_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type UserRole = typeof userRoles.$inferSelect;
+export type InsertUserRole = typeof userRoles.$inferInsert;
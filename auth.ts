@@ -0,0 +1,245 @@
+import type { Express, NextFunction, Request, Response } from "express";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPgSimple from "connect-pg-simple";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { randomBytes } from "crypto";
+import { authService, API_KEY_PREFIX, type Permission, type Principal } from "./services/auth";
+import { walletAuthService, type PendingNonce, type WalletSession } from "./services/wallet-auth";
+import { isAddress, toChecksumAddress } from "./utils/siwe";
+
+declare global {
+  namespace Express {
+    // Session users are stored as principals
+    interface User extends Principal {}
+
+    interface Request {
+      principal?: Principal;
+      wallet?: WalletSession;
+    }
+  }
+}
+
+declare module "express-session" {
+  interface SessionData {
+    siwe_nonce?: PendingNonce;
+    wallet?: WalletSession;
+  }
+}
+
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Sites the frontend is served from; CORS and the cross-site request check both use this list
+export function frontendOrigins(): string[] {
+  return [
+    'http://localhost:5173', // Development
+    'http://localhost:5174', // Development
+    'http://localhost:3000', // Alternative dev port
+    process.env.FRONTEND_URL, // Production frontend from env
+    'https://avgx.vercel.app', // Production frontend (update this to your actual domain)
+    'https://avgx-frontend.vercel.app' // Alternative production domain
+  ].filter((origin): origin is string => Boolean(origin));
+}
+
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+function createSessionStore(): session.Store {
+  if (process.env.STORAGE_DRIVER === 'database') {
+    const PgStore = connectPgSimple(session);
+    return new PgStore({
+      conString: process.env.DATABASE_URL,
+      createTableIfMissing: true,
+      ttl: SESSION_TTL_MS / 1000,
+    });
+  }
+
+  const MemoryStore = createMemoryStore(session);
+  return new MemoryStore({ checkPeriod: SESSION_TTL_MS });
+}
+
+function sessionSecret(): string {
+  if (process.env.SESSION_SECRET) return process.env.SESSION_SECRET;
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+  console.warn("SESSION_SECRET not set, using a random secret; sessions end on restart");
+  return randomBytes(32).toString('hex');
+}
+
+// Domains SIWE messages may name: SIWE_DOMAINS, or the frontend's own hosts in development
+function siweDomains(): string[] {
+  const domains = (process.env.SIWE_DOMAINS || '').split(',').map(d => d.trim()).filter(Boolean);
+  if (domains.length > 0) return domains;
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error("SIWE_DOMAINS must be set in production");
+  }
+  const fallback = frontendOrigins().map(origin => new URL(origin).host);
+  console.warn(`SIWE_DOMAINS not set, accepting sign-in messages for ${fallback.join(', ')}`);
+  return fallback;
+}
+
+// Bearer token or X-API-Key header, when it looks like an API key; other bearer tokens are ignored
+function presentedApiKey(req: Request): string | null {
+  const header = req.get('authorization') || '';
+  if (header.startsWith('Bearer ')) {
+    const token = header.slice('Bearer '.length).trim();
+    if (token.startsWith(`${API_KEY_PREFIX}_`)) return token;
+  }
+  return req.get('x-api-key') || null;
+}
+
+// Origin of the page a request came from, undefined when the browser named none
+function sourceOrigin(req: Request): string | undefined {
+  const origin = req.get('origin');
+  if (origin) return origin;
+
+  const referer = req.get('referer');
+  if (!referer) return undefined;
+  try {
+    return new URL(referer).origin;
+  } catch {
+    return 'null';
+  }
+}
+
+/**
+ * The session cookie is sent cross-site in production, where the frontend is
+ * on another site, so state-changing requests must come from an allowed
+ * origin or this one. Requests naming neither Origin nor Referer were not made
+ * by a browser page; API-key requests do not use the cookie.
+ */
+function rejectCrossSiteRequests(req: Request, res: Response, next: NextFunction) {
+  if (SAFE_METHODS.includes(req.method) || presentedApiKey(req)) return next();
+
+  const source = sourceOrigin(req);
+  if (source === undefined || source === `${req.protocol}://${req.get('host')}` || frontendOrigins().includes(source)) {
+    return next();
+  }
+  res.status(403).json({ success: false, message: "Cross-site request refused" });
+}
+
+/**
+ * Sessions with passport-local login for people, API keys for machine
+ * clients. Every request gets `req.principal` when either authenticates it,
+ * and `req.wallet` when its session has signed in with Ethereum.
+ */
+export async function setupAuth(app: Express): Promise<void> {
+  await authService.bootstrapAdmin();
+  walletAuthService.setDomains(siweDomains());
+
+  if (process.env.NODE_ENV === 'production') {
+    app.set('trust proxy', 1);
+  }
+
+  app.use(rejectCrossSiteRequests);
+
+  app.use(session({
+    secret: sessionSecret(),
+    store: createSessionStore(),
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: process.env.NODE_ENV === 'production' ? 'none' : 'lax',
+      maxAge: SESSION_TTL_MS,
+    },
+  }));
+
+  passport.use(new LocalStrategy(async (username, password, done) => {
+    try {
+      const principal = await authService.verifyCredentials(username, password);
+      done(null, principal ?? false);
+    } catch (error) {
+      done(error);
+    }
+  }));
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      // A deleted or role-less account ends the session
+      done(null, (await authService.principalFor(id)) ?? false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  app.use(async (req, res, next) => {
+    try {
+      const key = presentedApiKey(req);
+      if (key) {
+        const principal = await authService.verifyApiKey(key);
+        if (!principal) {
+          return res.status(401).json({ success: false, message: "Invalid, expired or revoked API key" });
+        }
+        req.principal = principal;
+      } else if (req.user) {
+        req.principal = req.user;
+      }
+
+      if (walletAuthService.isActive(req.session.wallet)) {
+        req.wallet = req.session.wallet;
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  });
+}
+
+/**
+ * Rejects requests whose principal lacks `permission`: 401 when
+ * unauthenticated, 403 when authenticated without it
+ */
+export function requirePermission(permission: Permission | ((req: Request) => Permission)) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.principal) {
+      return res.status(401).json({ success: false, message: "Authentication required" });
+    }
+
+    const required = typeof permission === 'function' ? permission(req) : permission;
+    if (!req.principal.permissions.includes(required)) {
+      return res.status(403).json({ success: false, message: `Requires the ${required} permission` });
+    }
+
+    next();
+  };
+}
+
+/**
+ * The authenticated principal's name, recorded as the author of admin changes.
+ * Only valid behind requirePermission.
+ */
+export function authorOf(req: Request): string {
+  return req.principal!.name;
+}
+
+/**
+ * Restricts a wallet-scoped endpoint to the address its session signed in
+ * with: 401 without a wallet sign-in, 403 when `addressOf` names another
+ * address. Endpoints that omit the address act for the signed-in wallet.
+ */
+export function requireWallet(addressOf: (req: Request) => unknown = () => undefined) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.wallet) {
+      return res.status(401).json({ success: false, message: "Sign in with Ethereum required" });
+    }
+
+    const requested = addressOf(req);
+    if (requested === undefined || requested === null || requested === '') return next();
+
+    if (typeof requested !== 'string' || !isAddress(requested)) {
+      return res.status(400).json({ success: false, message: "Invalid wallet address" });
+    }
+    if (toChecksumAddress(requested) !== req.wallet.address) {
+      return res.status(403).json({ success: false, message: "Signed in as a different wallet" });
+    }
+
+    next();
+  };
+}
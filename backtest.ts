@@ -0,0 +1,81 @@
+import "dotenv/config";
+import { parseArgs } from "util";
+import { promises as fs } from "fs";
+import { backtestService, type BacktestScenario } from "./services/backtest";
+import { stabilityConfigOverridesSchema } from "./schemas";
+
+const USAGE = `Usage: npm run backtest -- [options]
+
+  --input <file>        JSON array of ticks ({timestamp, wf_raw, wc_raw} or
+                        {timestamp, fiat_rates, crypto_prices}); defaults to the
+                        stored series in data/smoothed_history.json
+  --scenario <spec>     name:key=value,... e.g. "fast:alpha_f=0.4,alpha_c=0.2";
+                        repeatable, defaults to the live config
+  --from <iso>, --to <iso>
+  --interval-ms <ms>    History row spacing used by the daily clamp
+  --output <file>       Write the full report, including AVGX paths, as JSON`;
+
+// "fast:alpha_f=0.4,clamp_percent=0.02" -> { name: "fast", config: {...} }
+function parseScenario(spec: string): BacktestScenario {
+  const [name, params = ""] = spec.includes(":") ? spec.split(/:(.*)/s) : [spec, ""];
+  const config: Record<string, number> = {};
+  for (const pair of params.split(",").filter(Boolean)) {
+    const [key, value] = pair.split("=");
+    config[key.trim()] = Number(value);
+  }
+  return { name: name.trim(), config: stabilityConfigOverridesSchema.parse(config) };
+}
+
+// Replays a basket series under one or more stability configs and prints the comparison
+(async () => {
+  try {
+    const { values } = parseArgs({
+      options: {
+        input: { type: "string" },
+        scenario: { type: "string", multiple: true },
+        from: { type: "string" },
+        to: { type: "string" },
+        "interval-ms": { type: "string" },
+        output: { type: "string" },
+        help: { type: "boolean", short: "h" },
+      },
+    });
+
+    if (values.help) {
+      console.log(USAGE);
+      return;
+    }
+
+    const from = values.from ? new Date(values.from) : undefined;
+    const to = values.to ? new Date(values.to) : undefined;
+
+    let series;
+    if (values.input) {
+      const imported = JSON.parse(await fs.readFile(values.input, "utf-8"));
+      series = await backtestService.importSeries(Array.isArray(imported) ? imported : imported.series, from, to);
+    } else {
+      series = await backtestService.loadStoredSeries(from, to);
+    }
+
+    const scenarios = (values.scenario ?? ["live"]).map(parseScenario);
+    const report = await backtestService.run(series, scenarios, {
+      history_interval_ms: values["interval-ms"] ? parseInt(values["interval-ms"], 10) : undefined,
+      include_path: Boolean(values.output),
+    });
+
+    console.log(`Backtest over ${report.points} points, ${report.from} to ${report.to}`);
+    console.table([
+      { name: "raw", ...report.raw },
+      ...report.scenarios.map(s => ({ name: s.name, ...s.metrics })),
+    ]);
+
+    if (values.output) {
+      await fs.writeFile(values.output, JSON.stringify(report, null, 2));
+      console.log(`Full report written to ${values.output}`);
+    }
+  } catch (error: any) {
+    console.error("Backtest failed:", error?.message || error);
+    console.error(USAGE);
+    process.exitCode = 1;
+  }
+})();
@@ -0,0 +1,171 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { fileURLToPath } from 'url';
+import { PGlite } from '@electric-sql/pglite';
+import { drizzle } from 'drizzle-orm/pglite';
+import { migrate } from 'drizzle-orm/pglite/migrator';
+import { DbStorage } from './db-storage';
+
+// Runs the migrations against an in-process Postgres, then each storage method against the result
+const client = new PGlite();
+const db = drizzle(client);
+const storage = new DbStorage(db);
+
+const WALLET = '0x7E5F4552091A69125d5DfCb7b8C2659029395Bdf';
+
+before(async () => {
+  await migrate(db, { migrationsFolder: fileURLToPath(new URL('./migrations', import.meta.url)) });
+});
+
+after(async () => {
+  await client.close();
+});
+
+test('users and contacts', async () => {
+  const user = await storage.createUser({ username: 'alice', password: 'scrypt:00:00' });
+  assert.deepEqual(await storage.getUser(user.id), user);
+  assert.deepEqual(await storage.getUserByUsername('alice'), user);
+  assert.equal(await storage.getUser('missing'), undefined);
+
+  await storage.createContact({ firstName: 'A', lastName: 'B', email: 'a@example.com', subject: 'Hi', message: 'Hello' });
+  const [contact] = await storage.getAllContacts();
+  assert.equal(contact.email, 'a@example.com');
+});
+
+test('user roles', async () => {
+  const { user, role } = await storage.createUserWithRole({ username: 'root', password: 'scrypt:00:00' }, { role: 'admin', createdBy: 'system' });
+  assert.equal(role.userId, user.id);
+  assert.deepEqual(await storage.getUserRole(user.id), role);
+  assert.deepEqual((await storage.getUserRoles()).map(r => r.userId), [user.id]);
+
+  // A refused change leaves the role as it was
+  await assert.rejects(storage.updateUserRole(user.id, 'viewer', () => { throw new Error('refused'); }), /refused/);
+  assert.equal((await storage.getUserRole(user.id))?.role, 'admin');
+
+  const updated = await storage.updateUserRole(user.id, 'operator', roles => assert.deepEqual(roles.map(r => r.role), ['admin']));
+  assert.equal(updated?.role, 'operator');
+  assert.equal(await storage.updateUserRole('missing', 'viewer'), undefined);
+
+  // Both or neither: a duplicate username leaves no role behind
+  await assert.rejects(storage.createUserWithRole({ username: 'root', password: 'scrypt:00:00' }, { role: 'viewer', createdBy: 'root' }));
+  assert.equal((await storage.getUserRoles()).length, 1);
+});
+
+test('index, fiat rates and crypto prices keep the latest row per key', async () => {
+  const earlier = new Date('2024-01-01T00:00:00Z');
+  const later = new Date('2024-01-01T01:00:00Z');
+
+  await storage.storeAvgxIndex({ avgxValue: '1.00000000', wfValue: '0.80000000', wcValue: '60000.00000000', timestamp: earlier });
+  await storage.storeAvgxIndex({ avgxValue: '1.10000000', wfValue: '0.80000000', wcValue: '61000.00000000', timestamp: later });
+  assert.equal((await storage.getLatestAvgxIndex())?.avgxValue, '1.10000000');
+  assert.deepEqual((await storage.getAvgxIndexHistory(1)).map(i => i.avgxValue), ['1.10000000']);
+  assert.equal((await storage.getAvgxIndexHistory()).length, 2);
+
+  assert.deepEqual(await storage.storeFiatRates([]), []);
+  await storage.storeFiatRates([
+    { currency: 'EUR', rate: '0.90000000', weight: '0.50000000', timestamp: earlier },
+    { currency: 'EUR', rate: '0.91000000', weight: '0.50000000', timestamp: later },
+    { currency: 'JPY', rate: '150.00000000', weight: '0.50000000', timestamp: earlier },
+  ]);
+  const rates = await storage.getLatestFiatRates();
+  assert.deepEqual(rates.map(r => [r.currency, r.rate]), [['EUR', '0.91000000'], ['JPY', '150.00000000']]);
+
+  assert.deepEqual(await storage.storeCryptoPrices([]), []);
+  await storage.storeCryptoPrices([
+    { symbol: 'BTC', price: '60000.00000000', weight: '0.60000000', timestamp: earlier },
+    { symbol: 'BTC', price: '61000.00000000', weight: '0.60000000', timestamp: later },
+  ]);
+  assert.deepEqual((await storage.getLatestCryptoPrices()).map(p => p.price), ['61000.00000000']);
+});
+
+test('transactions and reserves', async () => {
+  const reserves = { totalSupply: '0.00000000', backingValue: '0.00000000', collateralRatio: '1.0000', fiatReserves: {}, cryptoReserves: {} };
+  await storage.updateReserves(reserves);
+
+  const first = await storage.createTransaction({
+    walletAddress: WALLET, type: 'mint', amount: '5.00000000', avgxPrice: '1.00000000', chainId: 1, txHash: '0x01', status: 'confirmed',
+  });
+  const { transaction, reserves: after } = await storage.createTransactionWithReserves(WALLET, (current, walletTransactions) => {
+    assert.equal(current?.totalSupply, '0.00000000');
+    assert.deepEqual(walletTransactions.map(tx => tx.id), [first.id]);
+    return {
+      transaction: { walletAddress: WALLET, type: 'redeem', amount: '2.00000000', avgxPrice: '1.00000000', chainId: 137, txHash: '0x02', status: 'confirmed' },
+      reserves: { ...reserves, totalSupply: '3.00000000', backingValue: '3.00000000' },
+    };
+  });
+  assert.equal((await storage.getLatestReserves())?.id, after.id);
+  assert.equal(after.totalSupply, '3.00000000');
+
+  assert.equal((await storage.getTransactionByHash('0x02'))?.id, transaction.id);
+  assert.equal((await storage.getTransactionHistory(WALLET)).length, 2);
+  assert.equal((await storage.getAllTransactions()).length, 2);
+
+  const byAmount = await storage.queryTransactions({ walletAddress: WALLET, sort: 'amount', order: 'desc', limit: 10 });
+  assert.deepEqual(byAmount.map(tx => tx.id), [first.id, transaction.id]);
+
+  const page = await storage.queryTransactions({
+    walletAddress: WALLET, sort: 'amount', order: 'desc', limit: 10, after: { key: first.amount, id: first.id },
+  });
+  assert.deepEqual(page.map(tx => tx.id), [transaction.id]);
+
+  const filtered = await storage.queryTransactions({
+    walletAddress: WALLET, types: ['mint'], chainIds: [1], from: new Date(0), to: new Date(Date.now() + 60000),
+    sort: 'timestamp', order: 'asc', limit: 10,
+  });
+  assert.deepEqual(filtered.map(tx => tx.id), [first.id]);
+
+  // Both rows or neither: a duplicate hash rolls the reserves back too
+  await assert.rejects(storage.createTransactionWithReserves(WALLET, () => ({
+    transaction: { walletAddress: WALLET, type: 'mint', amount: '1.00000000', avgxPrice: '1.00000000', chainId: 1, txHash: '0x02', status: 'confirmed' },
+    reserves: { ...reserves, totalSupply: '4.00000000', backingValue: '4.00000000' },
+  })));
+  assert.equal((await storage.getLatestReserves())?.id, after.id);
+
+  // Concurrent entries each build on the reserves the one before them wrote
+  await Promise.all(['0x03', '0x04', '0x05'].map(txHash => storage.createTransactionWithReserves(WALLET, current => ({
+    transaction: { walletAddress: WALLET, type: 'mint', amount: '1.00000000', avgxPrice: '1.00000000', chainId: 1, txHash, status: 'confirmed' },
+    reserves: { ...reserves, totalSupply: (parseFloat(current!.totalSupply) + 1).toFixed(8) },
+  }))));
+  assert.equal((await storage.getLatestReserves())?.totalSupply, '6.00000000');
+
+  // Reserves outside a ledger entry build on the latest snapshot under the same lock
+  const appended = await storage.appendReserves(current => ({ ...reserves, totalSupply: current!.totalSupply, fiatReserves: { note: 'fee' } }));
+  assert.equal(appended.totalSupply, '6.00000000');
+  assert.deepEqual((await storage.getLatestReserves())?.fiatReserves, { note: 'fee' });
+});
+
+test('pools and LP positions', async () => {
+  const insertPool = {
+    id: 'AVGX-USDC', baseToken: 'AVGX', quoteToken: 'USDC',
+    baseReserve: '100', quoteReserve: '100', totalShares: '100', feeBps: 30,
+  };
+  const pool = await storage.createPool(insertPool, [{ poolId: 'AVGX-USDC', walletAddress: 'protocol', shares: '100' }]);
+  assert.equal(pool?.id, 'AVGX-USDC');
+  assert.equal(pool?.baseFees, '0.000000000000000000');
+  assert.deepEqual((await storage.getPools()).map(p => p.id), ['AVGX-USDC']);
+  assert.equal(await storage.createPool(insertPool), undefined);
+
+  const updated = await storage.updatePool('AVGX-USDC', WALLET, (current, position) => {
+    assert.equal(current.totalShares, '100.000000000000000000');
+    assert.equal(position, undefined);
+    return { pool: { baseReserve: '110', quoteReserve: '110', totalShares: '110.000000000000000001', quoteFees: '0.3' }, shares: '10.000000000000000001' };
+  });
+  assert.equal(updated?.totalShares, '110.000000000000000001');
+  assert.equal(updated?.quoteFees, '0.300000000000000000');
+  assert.equal((await storage.getPool('AVGX-USDC'))?.baseReserve, '110.000000000000000000');
+  assert.equal((await storage.getLpPosition('AVGX-USDC', WALLET))?.shares, '10.000000000000000001');
+  assert.deepEqual((await storage.getLpPositions(WALLET)).map(p => p.poolId), ['AVGX-USDC']);
+  assert.equal(await storage.updatePool('missing', WALLET, () => { throw new Error('not called'); }), undefined);
+
+  // A refused change leaves the pool as it was
+  await assert.rejects(storage.updatePool('AVGX-USDC', WALLET, () => { throw new Error('refused'); }), /refused/);
+  assert.equal((await storage.getPool('AVGX-USDC'))?.baseReserve, '110.000000000000000000');
+
+  // Concurrent changes each build on the pool the one before them wrote
+  await Promise.all([1, 2, 3].map(() => storage.updatePool('AVGX-USDC', WALLET, (current, position) => ({
+    pool: { ...current, baseReserve: (parseFloat(current.baseReserve) + 1).toFixed(18) },
+    shares: (parseFloat(position!.shares) + 1).toFixed(18),
+  }))));
+  assert.equal((await storage.getPool('AVGX-USDC'))?.baseReserve, '113.000000000000000000');
+  assert.equal((await storage.getLpPosition('AVGX-USDC', WALLET))?.shares, '13.000000000000000000');
+});
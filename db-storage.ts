@@ -0,0 +1,279 @@
+import { and, asc, desc, eq, gt, gte, inArray, lt, or, sql, type SQL } from "drizzle-orm";
+import { users, contacts, avgxIndex, fiatRates, cryptoPrices, avgxCoinTransactions, avgxReserves, type User, type InsertUser, type Contact, type InsertContact, type AvgxIndex, type FiatRate, type CryptoPrice, type AvgxTransaction, type InsertTransaction, type AvgxReserves, type InsertReserves } from "@shared/schema";
+import { ammPools, ammLpPositions, type AmmPool, type InsertAmmPool, type AmmLpPosition, type InsertAmmLpPosition } from "./amm-schema";
+import { userRoles, type UserRole, type InsertUserRole } from "./auth-schema";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import type { IStorage, LedgerEntryBuilder, PoolChangeBuilder, TransactionQuery } from "./storage";
+
+// Any drizzle Postgres database: neon-serverless when deployed, PGlite in tests
+export type Database = PgDatabase<PgQueryResultHKT, Record<string, unknown>>;
+
+// Advisory lock key held by every ledger write, for as long as its transaction runs
+const LEDGER_LOCK_KEY = 0x61766778;
+
+// Postgres-backed storage; tables are created by the migrations in ./migrations
+export class DbStorage implements IStorage {
+  constructor(private readonly db: Database) {}
+
+  // User operations
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  // Admin role operations
+  async getUserRole(userId: string): Promise<UserRole | undefined> {
+    const [role] = await this.db.select().from(userRoles).where(eq(userRoles.userId, userId));
+    return role;
+  }
+
+  async getUserRoles(): Promise<UserRole[]> {
+    return this.db.select().from(userRoles).orderBy(asc(userRoles.createdAt));
+  }
+
+  async createUserWithRole(
+    insertUser: InsertUser,
+    insertRole: Omit<InsertUserRole, 'userId'>
+  ): Promise<{ user: User; role: UserRole }> {
+    return this.db.transaction(async (tx) => {
+      const [user] = await tx.insert(users).values(insertUser).returning();
+      const [role] = await tx.insert(userRoles).values({ ...insertRole, userId: user.id }).returning();
+      return { user, role };
+    });
+  }
+
+  async updateUserRole(
+    userId: string,
+    role: UserRole['role'],
+    check?: (roles: UserRole[]) => void
+  ): Promise<UserRole | undefined> {
+    return this.db.transaction(async (tx) => {
+      // Locking every role row makes concurrent changes wait, then see each other's result
+      const roles = await tx.select().from(userRoles).for('update');
+      if (!roles.some(r => r.userId === userId)) return undefined;
+      check?.(roles);
+
+      const [updated] = await tx.update(userRoles).set({ role }).where(eq(userRoles.userId, userId)).returning();
+      return updated;
+    });
+  }
+
+  // Contact operations
+  async createContact(insertContact: InsertContact): Promise<Contact> {
+    const [contact] = await this.db.insert(contacts).values(insertContact).returning();
+    return contact;
+  }
+
+  async getAllContacts(): Promise<Contact[]> {
+    return this.db.select().from(contacts).orderBy(desc(contacts.createdAt));
+  }
+
+  // AVGX index operations
+  async storeAvgxIndex(indexData: Omit<AvgxIndex, 'id'>): Promise<AvgxIndex> {
+    const [index] = await this.db.insert(avgxIndex).values(indexData).returning();
+    return index;
+  }
+
+  async getLatestAvgxIndex(): Promise<AvgxIndex | undefined> {
+    const [index] = await this.db.select().from(avgxIndex)
+      .orderBy(desc(avgxIndex.timestamp))
+      .limit(1);
+    return index;
+  }
+
+  async getAvgxIndexHistory(limit: number = 100): Promise<AvgxIndex[]> {
+    return this.db.select().from(avgxIndex)
+      .orderBy(desc(avgxIndex.timestamp))
+      .limit(limit);
+  }
+
+  // Fiat rate operations
+  async storeFiatRates(rates: Omit<FiatRate, 'id'>[]): Promise<FiatRate[]> {
+    if (rates.length === 0) return [];
+    return this.db.insert(fiatRates).values(rates).returning();
+  }
+
+  async getLatestFiatRates(): Promise<FiatRate[]> {
+    // Latest row per currency
+    return this.db.selectDistinctOn([fiatRates.currency]).from(fiatRates)
+      .orderBy(fiatRates.currency, desc(fiatRates.timestamp));
+  }
+
+  // Crypto price operations
+  async storeCryptoPrices(prices: Omit<CryptoPrice, 'id'>[]): Promise<CryptoPrice[]> {
+    if (prices.length === 0) return [];
+    return this.db.insert(cryptoPrices).values(prices).returning();
+  }
+
+  async getLatestCryptoPrices(): Promise<CryptoPrice[]> {
+    // Latest row per symbol
+    return this.db.selectDistinctOn([cryptoPrices.symbol]).from(cryptoPrices)
+      .orderBy(cryptoPrices.symbol, desc(cryptoPrices.timestamp));
+  }
+
+  // AVGX Coin transaction operations
+  async createTransaction(insertTransaction: InsertTransaction): Promise<AvgxTransaction> {
+    const [transaction] = await this.db.insert(avgxCoinTransactions).values(insertTransaction).returning();
+    return transaction;
+  }
+
+  async getTransactionHistory(walletAddress: string, limit: number = 50): Promise<AvgxTransaction[]> {
+    return this.db.select().from(avgxCoinTransactions)
+      .where(eq(avgxCoinTransactions.walletAddress, walletAddress))
+      .orderBy(desc(avgxCoinTransactions.timestamp))
+      .limit(limit);
+  }
+
+  async getAllTransactions(): Promise<AvgxTransaction[]> {
+    return this.db.select().from(avgxCoinTransactions)
+      .orderBy(desc(avgxCoinTransactions.timestamp));
+  }
+
+  async queryTransactions(query: TransactionQuery): Promise<AvgxTransaction[]> {
+    // Timestamps are compared at the millisecond precision cursors carry
+    const key: SQL = query.sort === 'amount'
+      ? sql`${avgxCoinTransactions.amount}`
+      : sql`date_trunc('milliseconds', ${avgxCoinTransactions.timestamp})`;
+    const beyond = query.order === 'asc' ? gt : lt;
+    const order = query.order === 'asc' ? asc : desc;
+
+    const conditions: Array<SQL | undefined> = [eq(avgxCoinTransactions.walletAddress, query.walletAddress)];
+    if (query.types) conditions.push(inArray(avgxCoinTransactions.type, query.types));
+    if (query.chainIds) conditions.push(inArray(avgxCoinTransactions.chainId, query.chainIds));
+    if (query.from) conditions.push(gte(avgxCoinTransactions.timestamp, query.from));
+    if (query.to) conditions.push(lt(avgxCoinTransactions.timestamp, query.to));
+    if (query.after) {
+      const afterKey = query.sort === 'amount' ? query.after.key : new Date(query.after.key);
+      conditions.push(or(
+        beyond(key, afterKey),
+        and(eq(key, afterKey), beyond(avgxCoinTransactions.id, query.after.id))
+      ));
+    }
+
+    return this.db.select().from(avgxCoinTransactions)
+      .where(and(...conditions))
+      .orderBy(order(key), order(avgxCoinTransactions.id))
+      .limit(query.limit);
+  }
+
+  async getTransactionByHash(txHash: string): Promise<AvgxTransaction | undefined> {
+    const [transaction] = await this.db.select().from(avgxCoinTransactions)
+      .where(eq(avgxCoinTransactions.txHash, txHash));
+    return transaction;
+  }
+
+  async createTransactionWithReserves(
+    walletAddress: string,
+    build: LedgerEntryBuilder
+  ): Promise<{ transaction: AvgxTransaction; reserves: AvgxReserves }> {
+    return this.db.transaction(async (tx) => {
+      // Reserves are append-only, so there is no row whose lock would hold off the next entry;
+      // the advisory lock queues ledger writes from every process instead
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(${LEDGER_LOCK_KEY})`);
+      const [current] = await tx.select().from(avgxReserves)
+        .orderBy(desc(avgxReserves.timestamp))
+        .limit(1);
+      const walletTransactions = await tx.select().from(avgxCoinTransactions)
+        .where(eq(avgxCoinTransactions.walletAddress, walletAddress));
+      const entry = build(current, walletTransactions);
+
+      // now() is when the transaction began, which may be before the entry it waited for was written
+      const timestamp = sql`clock_timestamp()`;
+      const [transaction] = await tx.insert(avgxCoinTransactions).values({ ...entry.transaction, timestamp }).returning();
+      const [reserves] = await tx.insert(avgxReserves).values({ ...entry.reserves, timestamp }).returning();
+      return { transaction, reserves };
+    });
+  }
+
+  // AVGX reserves operations
+  async updateReserves(insertReserves: InsertReserves): Promise<AvgxReserves> {
+    // Reserves are append-only snapshots, the latest row is the current state
+    const [reserves] = await this.db.insert(avgxReserves).values(insertReserves).returning();
+    return reserves;
+  }
+
+  async appendReserves(build: (current: AvgxReserves | undefined) => InsertReserves): Promise<AvgxReserves> {
+    return this.db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(${LEDGER_LOCK_KEY})`);
+      const [current] = await tx.select().from(avgxReserves)
+        .orderBy(desc(avgxReserves.timestamp))
+        .limit(1);
+      const [reserves] = await tx.insert(avgxReserves).values({ ...build(current), timestamp: sql`clock_timestamp()` }).returning();
+      return reserves;
+    });
+  }
+
+  async getLatestReserves(): Promise<AvgxReserves | undefined> {
+    const [reserves] = await this.db.select().from(avgxReserves)
+      .orderBy(desc(avgxReserves.timestamp))
+      .limit(1);
+    return reserves;
+  }
+
+  // AMM pool operations
+  async getPools(): Promise<AmmPool[]> {
+    return this.db.select().from(ammPools).orderBy(asc(ammPools.id));
+  }
+
+  async getPool(id: string): Promise<AmmPool | undefined> {
+    const [pool] = await this.db.select().from(ammPools).where(eq(ammPools.id, id));
+    return pool;
+  }
+
+  async createPool(insertPool: InsertAmmPool, positions: InsertAmmLpPosition[] = []): Promise<AmmPool | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [pool] = await tx.insert(ammPools).values(insertPool).onConflictDoNothing().returning();
+      if (!pool) return undefined;
+      for (const position of positions) {
+        await tx.insert(ammLpPositions).values(position);
+      }
+      return pool;
+    });
+  }
+
+  async getLpPosition(poolId: string, walletAddress: string): Promise<AmmLpPosition | undefined> {
+    const [position] = await this.db.select().from(ammLpPositions)
+      .where(and(eq(ammLpPositions.poolId, poolId), eq(ammLpPositions.walletAddress, walletAddress)));
+    return position;
+  }
+
+  async getLpPositions(walletAddress: string): Promise<AmmLpPosition[]> {
+    return this.db.select().from(ammLpPositions).where(eq(ammLpPositions.walletAddress, walletAddress));
+  }
+
+  async updatePool(poolId: string, walletAddress: string, change: PoolChangeBuilder): Promise<AmmPool | undefined> {
+    return this.db.transaction(async (tx) => {
+      // Locking the pool row makes concurrent changes wait, then build on each other's result
+      const [existing] = await tx.select().from(ammPools).where(eq(ammPools.id, poolId)).for('update');
+      if (!existing) return undefined;
+      const [position] = await tx.select().from(ammLpPositions)
+        .where(and(eq(ammLpPositions.poolId, poolId), eq(ammLpPositions.walletAddress, walletAddress)));
+      const result = change(existing, position);
+
+      const updatedAt = new Date();
+      const [pool] = await tx.update(ammPools)
+        .set({ ...result.pool, updatedAt })
+        .where(eq(ammPools.id, poolId))
+        .returning();
+      if (result.shares !== undefined) {
+        await tx.insert(ammLpPositions)
+          .values({ poolId, walletAddress, shares: result.shares, updatedAt })
+          .onConflictDoUpdate({
+            target: [ammLpPositions.poolId, ammLpPositions.walletAddress],
+            set: { shares: result.shares, updatedAt },
+          });
+      }
+      return pool;
+    });
+  }
+}
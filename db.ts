@@ -2,6 +2,8 @@ import { Pool, neonConfig } from '@neondatabase/serverless';
 import { drizzle } from 'drizzle-orm/neon-serverless';
 import ws from "ws";
 import * as schema from "@shared/schema";
+import * as ammSchema from "./amm-schema";
+import * as authSchema from "./auth-schema";
 
 neonConfig.webSocketConstructor = ws;
 
@@ -12,4 +14,4 @@ if (!process.env.DATABASE_URL) {
 }
 
 export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
-export const db = drizzle({ client: pool, schema });
+export const db = drizzle({ client: pool, schema: { ...schema, ...ammSchema, ...authSchema } });
@@ -1,5 +1,8 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { frontendOrigins } from "./auth";
+import { indexScheduler } from "./services/index-scheduler";
+import { indexStream } from "./services/index-stream";
 import path from "path";
 import { fileURLToPath } from "url";
 
@@ -10,14 +13,7 @@ const app = express();
 
 // Enable CORS for frontend (development and production)
 app.use((req, res, next) => {
-  const allowedOrigins = [
-    'http://localhost:5173', // Development
-    'http://localhost:5174', // Development
-    'http://localhost:3000', // Alternative dev port
-    process.env.FRONTEND_URL, // Production frontend from env
-    'https://avgx.vercel.app', // Production frontend (update this to your actual domain)
-    'https://avgx-frontend.vercel.app' // Alternative production domain
-  ].filter(Boolean); // Remove undefined values
+  const allowedOrigins = frontendOrigins();
   
   const origin = req.headers.origin;
   
@@ -29,7 +25,7 @@ app.use((req, res, next) => {
   }
   
   res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-  res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept, Authorization');
+  res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept, Authorization, X-API-Key');
   res.header('Access-Control-Allow-Credentials', 'true');
   
   if (req.method === 'OPTIONS') {
@@ -103,5 +99,14 @@ app.use((req, res, next) => {
     console.log(`[${new Date().toLocaleTimeString()}] Backend API server running on port ${port}`);
     console.log(`[${new Date().toLocaleTimeString()}] API endpoints available at http://localhost:${port}/api/*`);
     console.log(`[${new Date().toLocaleTimeString()}] CORS enabled for frontend at http://localhost:5173`);
+
+    // Compute AVGX on a fixed cadence so routes only serve the latest snapshot
+    indexScheduler.start().catch(error => console.error('Failed to start index scheduler:', error));
+  });
+
+  process.on('SIGTERM', () => {
+    indexScheduler.stop();
+    indexStream.close();
+    server.close(() => process.exit(0));
   });
 })(); 
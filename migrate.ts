@@ -0,0 +1,16 @@
+import "dotenv/config";
+import { migrate } from "drizzle-orm/neon-serverless/migrator";
+import { db, pool } from "./db";
+
+// Applies pending migrations from ./migrations (generated with `npm run db:generate`)
+(async () => {
+  try {
+    await migrate(db, { migrationsFolder: "./migrations" });
+    console.log("Database migrations applied");
+  } catch (error) {
+    console.error("Failed to apply database migrations:", error);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+})();
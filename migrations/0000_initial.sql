@@ -0,0 +1,85 @@
+CREATE TABLE "avgx_coin_transactions" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"wallet_address" text NOT NULL,
+	"type" text NOT NULL,
+	"amount" numeric(30, 8) NOT NULL,
+	"avgx_price" numeric(30, 8) NOT NULL,
+	"chain_id" integer NOT NULL,
+	"tx_hash" text,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"timestamp" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "avgx_coin_transactions_tx_hash_unique" UNIQUE("tx_hash")
+);
+--> statement-breakpoint
+CREATE TABLE "avgx_index" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"avgx_value" numeric(30, 8) NOT NULL,
+	"wf_value" numeric(30, 8) NOT NULL,
+	"wc_value" numeric(30, 8) NOT NULL,
+	"timestamp" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "avgx_reserves" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"total_supply" numeric(30, 8) NOT NULL,
+	"backing_value" numeric(30, 8) NOT NULL,
+	"collateral_ratio" numeric(12, 4) NOT NULL,
+	"fiat_reserves" jsonb NOT NULL,
+	"crypto_reserves" jsonb NOT NULL,
+	"timestamp" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "contacts" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"first_name" text NOT NULL,
+	"last_name" text NOT NULL,
+	"email" text NOT NULL,
+	"subject" text NOT NULL,
+	"message" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "crypto_prices" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"symbol" text NOT NULL,
+	"price" numeric(30, 8) NOT NULL,
+	"weight" numeric(12, 8) NOT NULL,
+	"timestamp" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "fiat_rates" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"currency" text NOT NULL,
+	"rate" numeric(30, 8) NOT NULL,
+	"weight" numeric(12, 8) NOT NULL,
+	"timestamp" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
+--> statement-breakpoint
+CREATE TABLE "amm_lp_positions" (
+	"pool_id" text NOT NULL,
+	"wallet_address" text NOT NULL,
+	"shares" numeric(38, 18) NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "amm_lp_positions_pool_id_wallet_address_pk" PRIMARY KEY("pool_id","wallet_address")
+);
+--> statement-breakpoint
+CREATE TABLE "amm_pools" (
+	"id" text PRIMARY KEY NOT NULL,
+	"base_token" text NOT NULL,
+	"quote_token" text NOT NULL,
+	"base_reserve" numeric(38, 18) NOT NULL,
+	"quote_reserve" numeric(38, 18) NOT NULL,
+	"total_shares" numeric(38, 18) NOT NULL,
+	"fee_bps" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "amm_lp_positions" ADD CONSTRAINT "amm_lp_positions_pool_id_amm_pools_id_fk" FOREIGN KEY ("pool_id") REFERENCES "public"."amm_pools"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
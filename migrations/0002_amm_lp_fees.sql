@@ -0,0 +1,2 @@
+ALTER TABLE "amm_pools" ADD COLUMN "base_fees" numeric(38, 18) DEFAULT '0' NOT NULL;--> statement-breakpoint
+ALTER TABLE "amm_pools" ADD COLUMN "quote_fees" numeric(38, 18) DEFAULT '0' NOT NULL;
\ No newline at end of file
@@ -1,12 +1,31 @@
-import type { Express } from "express";
+import type { Express, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertContactSchema } from "./schemas";
+import { insertContactSchema, addFiatConstituentSchema, addCryptoConstituentSchema, removeConstituentSchema, reweightBasketSchema, createRebalanceProposalSchema, resolveRebalanceProposalSchema, backtestRequestSchema, updateStabilityConfigSchema, acknowledgePriceIncidentSchema, loginSchema, createAccountSchema, setRoleSchema, createApiKeySchema, siweVerifySchema, mintSchema, redeemSchema, calculateMintSchema, simulateTradeSchema, transactionListQuerySchema, swapQuoteSchema, simulateSwapSchema, poolQuoteSchema, poolSwapSchema, addLiquiditySchema, removeLiquiditySchema, updateFeeScheduleSchema, createFeePromotionSchema } from "./schemas";
+import { ZodError } from "zod";
+import passport from "passport";
 import { cryptoApiService } from "./services/crypto-api";
 import { fiatApiService } from "./services/fiat-api";
-import { avgxCalculatorService } from "./services/avgx-calculator";
+import { avgxCalculatorService, HISTORY_FIELDS, HISTORY_TIERS, OHLC_INTERVAL_MS, type HistoryField, type HistoryTier, type OhlcInterval } from "./services/avgx-calculator";
 import { avgxCoinService } from "./services/avgx-coin";
+import { indexScheduler } from "./services/index-scheduler";
+import { indexStream, parseChannels } from "./services/index-stream";
+import { basketConfigService, BASKET_KINDS, type BasketKind } from "./services/basket-config";
+import { cryptoWeightingService } from "./services/crypto-weighting";
+import { indexLinkingService } from "./services/index-linking";
+import { backtestService } from "./services/backtest";
+import { stabilityConfigService } from "./services/stability-config";
+import { simulatedTransactionStore } from "./services/simulated-transactions";
+import { swapQuoteService } from "./services/swap-quotes";
+import { ammPoolService } from "./services/amm-pools";
+import { feeScheduleService } from "./services/fee-schedule";
+import { priceGuardService, type PriceIncident } from "./services/price-guard";
+import { setupAuth, requirePermission, requireWallet, authorOf } from "./auth";
+import { authService } from "./services/auth";
+import { walletAuthService } from "./services/wallet-auth";
+import { STABILITY_CONFIG_BOUNDS } from "./utils/stability";
 import { FileManager } from "./utils/file-manager";
+import { HttpError } from "./utils/http-error";
 import dotenv from 'dotenv';
 import * as pkg from 'pg';
 import path from 'path';
@@ -26,7 +45,134 @@ const pool = new Pool({
 
 const WHITEPAPER_URL = process.env.WHITEPAPER_URL || 'https://avgx-whitepaperoth.static.domains/whitepaper.pdf';
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const HISTORY_TIMEFRAMES_MS: Record<string, number> = {
+  '24h': DAY_MS,
+  '7d': 7 * DAY_MS,
+  '30d': 30 * DAY_MS,
+  '90d': 90 * DAY_MS,
+  '1y': 365 * DAY_MS,
+};
+
+// Parses ?fields=avgx_usd,volatility; "volatility" is accepted for volatility_index
+function parseHistoryFields(raw: string | undefined): HistoryField[] | null {
+  if (!raw) return ['avgx_usd', 'wf_value', 'wc_value'];
+
+  const fields = raw.split(',')
+    .map(f => f.trim())
+    .filter(Boolean)
+    .map(f => (f === 'volatility' ? 'volatility_index' : f));
+
+  if (fields.length === 0 || fields.some(f => !HISTORY_FIELDS.includes(f as HistoryField))) {
+    return null;
+  }
+  return Array.from(new Set(fields)) as HistoryField[];
+}
+
+function parseBasket(raw: string): BasketKind | null {
+  return BASKET_KINDS.includes(raw as BasketKind) ? raw as BasketKind : null;
+}
+
+// Maps request validation and service errors onto HTTP responses; anything else is a 500
+function sendError(res: Response, error: unknown, action: string) {
+  if (error instanceof ZodError) {
+    return res.status(400).json({
+      success: false,
+      message: "Invalid request body",
+      issues: error.errors.map(e => `${e.path.join('.') || 'body'}: ${e.message}`)
+    });
+  }
+  if (error instanceof HttpError) {
+    return res.status(error.status).json({
+      success: false,
+      message: error.message,
+      ...(error.issues.length ? { issues: error.issues } : {}),
+      ...error.details
+    });
+  }
+  console.error(`Failed to ${action}:`, error);
+  return res.status(500).json({ success: false, message: `Failed to ${action}` });
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
+  await setupAuth(app);
+  swapQuoteService.initialize();
+
+  // Reads need admin:read, anything else admin:write; account management also needs users:manage
+  app.use("/api/admin", requirePermission(req => (req.method === 'GET' ? 'admin:read' : 'admin:write')));
+
+  app.post("/api/auth/login", (req, res, next) => {
+    const parsed = loginSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ success: false, message: "Username and password are required" });
+    }
+
+    passport.authenticate('local', (error: unknown, user: Express.User | false) => {
+      if (error) return next(error);
+      if (!user) {
+        return res.status(401).json({ success: false, message: "Invalid username or password" });
+      }
+      // A fresh session id on login prevents session fixation
+      req.session.regenerate(regenerateError => {
+        if (regenerateError) return next(regenerateError);
+        req.login(user, loginError => {
+          if (loginError) return next(loginError);
+          res.json({ success: true, user: { id: user.id, username: user.name, role: user.role, permissions: user.permissions } });
+        });
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/auth/logout", (req, res, next) => {
+    req.logout(error => {
+      if (error) return next(error);
+      req.session.destroy(() => res.json({ success: true }));
+    });
+  });
+
+  app.get("/api/auth/me", (req, res) => {
+    if (!req.principal) {
+      return res.status(401).json({ success: false, message: "Not authenticated" });
+    }
+    const { kind, id, name, role, permissions } = req.principal;
+    res.json({ kind, id, name, role, permissions });
+  });
+
+  // Sign-In with Ethereum: fetch a nonce, sign an EIP-4361 message containing it, then verify
+  app.get("/api/auth/siwe/nonce", (req, res) => {
+    const nonce = walletAuthService.issueNonce();
+    req.session.siwe_nonce = nonce;
+    res.json({ nonce: nonce.value, expires_at: new Date(nonce.expires_at).toISOString() });
+  });
+
+  app.post("/api/auth/siwe/verify", async (req, res, next) => {
+    const nonce = req.session.siwe_nonce;
+    // Nonces are single use, whether or not the attempt succeeds
+    delete req.session.siwe_nonce;
+
+    try {
+      const { message, signature } = siweVerifySchema.parse(req.body);
+      const wallet = await walletAuthService.verify(message, signature, nonce);
+
+      // A fresh session id on sign-in prevents session fixation
+      req.session.regenerate(regenerateError => {
+        if (regenerateError) return next(regenerateError);
+        req.session.wallet = wallet;
+        res.json({ success: true, wallet });
+      });
+    } catch (error) {
+      sendError(res, error, "verify wallet sign-in");
+    }
+  });
+
+  app.get("/api/auth/siwe/session", (req, res) => {
+    if (!req.wallet) {
+      return res.status(401).json({ success: false, message: "Not signed in with Ethereum" });
+    }
+    res.json({ wallet: req.wallet });
+  });
+
   // API to keep the DB active
   app.get('/', async (req, res) => {
     try {
@@ -57,7 +203,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         wf_value: breakdown.avgx.wf_value,
         wc_value: breakdown.avgx.wc_value,
         change24h: breakdown.avgx.change24h,
+        changes: breakdown.avgx.changes,
         timestamp: breakdown.avgx.timestamp,
+        publication: breakdown.publication,
+        data_quality: breakdown.dataQuality,
         breakdown: {
           fiat_basket: breakdown.fiatBasket,
           crypto_basket: breakdown.cryptoBasket
@@ -75,13 +224,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Prices endpoint - AVGX converted to all fiats & crypto units
   app.get("/api/prices", async (req, res) => {
     try {
-      const [fiatPrices, avgxData, cryptoData] = await Promise.all([
+      const [fiatPrices, breakdown] = await Promise.all([
         avgxCalculatorService.convertToAllCurrencies(),
-        avgxCalculatorService.getCurrentAvgx(),
-        cryptoApiService.getCryptoPricesWithWeights()
+        avgxCalculatorService.getDetailedBreakdown()
       ]);
+      const avgxData = breakdown.avgx;
 
-      const cryptoPrices = cryptoData.map(crypto => ({
+      const cryptoPrices = breakdown.cryptoBasket.map(crypto => ({
         symbol: crypto.symbol,
         name: crypto.name,
         price_usd: crypto.price,
@@ -92,6 +241,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         avgx_usd: avgxData.avgx_usd,
         fiat_conversions: fiatPrices,
         crypto_conversions: cryptoPrices,
+        publication: breakdown.publication,
         timestamp: avgxData.timestamp
       });
     } catch (error: any) {
@@ -103,24 +253,79 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Historical data endpoint
+  // Historical data endpoint - ?timeframe=24h|7d|30d|90d|1y or ?from&to, optional fields and maxPoints
   app.get("/api/history", async (req, res) => {
     try {
-      const timeframe = (req.query.timeframe as string) || '24h';
-      const validTimeframes = ['24h', '7d', '30d'];
+      const timeframe = req.query.timeframe as string | undefined;
+      const hasRange = req.query.from !== undefined || req.query.to !== undefined;
+
+      if (timeframe && !(timeframe in HISTORY_TIMEFRAMES_MS)) {
+        return res.status(400).json({
+          success: false,
+          message: `Invalid timeframe. Use: ${Object.keys(HISTORY_TIMEFRAMES_MS).join(', ')}`
+        });
+      }
+
+      const to = req.query.to ? new Date(req.query.to as string) : new Date();
+      const lookback = HISTORY_TIMEFRAMES_MS[timeframe || '24h'];
+      const from = req.query.from ? new Date(req.query.from as string) : new Date(to.getTime() - lookback);
+
+      if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid from/to. Use ISO 8601 timestamps"
+        });
+      }
+      if (from >= to) {
+        return res.status(400).json({
+          success: false,
+          message: "from must be earlier than to"
+        });
+      }
+
+      const fields = parseHistoryFields(req.query.fields as string | undefined);
+      if (!fields) {
+        return res.status(400).json({
+          success: false,
+          message: `Invalid fields. Use a comma-separated subset of: ${HISTORY_FIELDS.join(', ')}`
+        });
+      }
 
-      if (!validTimeframes.includes(timeframe)) {
+      const maxPoints = req.query.maxPoints !== undefined ? parseInt(req.query.maxPoints as string, 10) : undefined;
+      if (maxPoints !== undefined && (isNaN(maxPoints) || maxPoints < 3 || maxPoints > 10000)) {
         return res.status(400).json({
           success: false,
-          message: "Invalid timeframe. Use: 24h, 7d, 30d"
+          message: "maxPoints must be between 3 and 10000"
         });
       }
 
-      const history = await avgxCalculatorService.getHistoricalData(timeframe as any);
+      const method = (req.query.method as string) || 'lttb';
+      if (method !== 'lttb' && method !== 'average') {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid method. Use: lttb, average"
+        });
+      }
+
+      const tier = req.query.tier as HistoryTier | undefined;
+      if (tier !== undefined && !HISTORY_TIERS.includes(tier)) {
+        return res.status(400).json({
+          success: false,
+          message: `Invalid tier. Use: ${HISTORY_TIERS.join(', ')}`
+        });
+      }
+
+      const result = await avgxCalculatorService.queryHistory({ from, to, fields, maxPoints, method, tier });
       res.json({
-        timeframe,
-        data: history,
-        count: history.length
+        timeframe: hasRange ? undefined : (timeframe || '24h'),
+        tier: result.tier,
+        from: from.toISOString(),
+        to: to.toISOString(),
+        fields,
+        data: result.data,
+        count: result.data.length,
+        source_count: result.source_count,
+        downsampled: result.downsampled
       });
     } catch (error: any) {
       console.error("History API error:", error);
@@ -131,70 +336,197 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Simulate swap endpoint
-  app.post("/api/simulate-swap", async (req, res) => {
+  // OHLC candles aggregated from stored AVGX, WF and WC samples
+  app.get("/api/history/ohlc", async (req, res) => {
     try {
-      const { fromToken, toToken, amount, userAddress } = req.body;
-
-      if (!fromToken || !toToken || !amount || !userAddress) {
+      const interval = ((req.query.interval as string) || '1h') as OhlcInterval;
+      if (!(interval in OHLC_INTERVAL_MS)) {
         return res.status(400).json({
           success: false,
-          message: "Missing required fields: fromToken, toToken, amount, userAddress"
+          message: "Invalid interval. Use: 5m, 1h, 4h, 1d"
         });
       }
 
-      const avgxData = await avgxCalculatorService.getCurrentAvgx();
+      // Default window: 288 buckets back from now
+      const intervalMs = OHLC_INTERVAL_MS[interval];
+      const to = req.query.to ? new Date(req.query.to as string) : new Date();
+      const from = req.query.from ? new Date(req.query.from as string) : new Date(to.getTime() - 288 * intervalMs);
 
-      // Simulate conversion rates
-      let exchangeRate = 1;
-      if (fromToken === 'ETH' && toToken === 'AVGX') {
-        exchangeRate = 2800 / avgxData.avgx_usd; // Approximate ETH price
-      } else if (fromToken === 'MATIC' && toToken === 'AVGX') {
-        exchangeRate = 0.85 / avgxData.avgx_usd; // Approximate MATIC price
-      } else if (fromToken === 'AVGX' && toToken === 'ETH') {
-        exchangeRate = avgxData.avgx_usd / 2800;
-      } else if (fromToken === 'AVGX' && toToken === 'MATIC') {
-        exchangeRate = avgxData.avgx_usd / 0.85;
+      if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid from/to. Use ISO 8601 timestamps"
+        });
+      }
+      if (from >= to) {
+        return res.status(400).json({
+          success: false,
+          message: "from must be earlier than to"
+        });
       }
+      if ((to.getTime() - from.getTime()) / intervalMs > 5000) {
+        return res.status(400).json({
+          success: false,
+          message: "Range too large for interval (max 5000 candles)"
+        });
+      }
+
+      const fillEmpty = req.query.empty !== 'omit';
+      const candles = await avgxCalculatorService.getOhlcData(interval, from, to, fillEmpty);
+      res.json({
+        interval,
+        from: from.toISOString(),
+        to: to.toISOString(),
+        data: candles,
+        count: candles.length
+      });
+    } catch (error: any) {
+      console.error("OHLC API error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to build OHLC data"
+      });
+    }
+  });
+
+  // Tokens that can be swapped, with their current USD prices
+  app.get("/api/swap/tokens", async (req, res) => {
+    try {
+      res.json({ tokens: await swapQuoteService.listTokens() });
+    } catch (error) {
+      sendError(res, error, "list swap tokens");
+    }
+  });
+
+  // Live-priced quote, valid until expiresAt; execute it with /api/simulate-swap.
+  // A signed-in wallet is quoted at its volume tier.
+  app.post("/api/swap/quote", async (req, res) => {
+    try {
+      const { fromToken, toToken, amount, slippageBps, chain } = swapQuoteSchema.parse(req.body);
+      const quote = await swapQuoteService.quote(fromToken, toToken, amount, { slippageBps, chain, walletAddress: req.wallet?.address });
+      res.json({ success: true, quote });
+    } catch (error) {
+      sendError(res, error, "quote swap");
+    }
+  });
+
+  // Simulate swap endpoint: executes a quote, re-validated against live prices
+  app.post("/api/simulate-swap", requireWallet(req => req.body?.userAddress), async (req, res) => {
+    try {
+      const body = simulateSwapSchema.parse(req.body);
+      const userAddress = req.wallet!.address;
+
+      const quoteId = 'quoteId' in body
+        ? body.quoteId
+        : (await swapQuoteService.quote(body.fromToken, body.toToken, body.amount, {
+          slippageBps: body.slippageBps,
+          chain: body.chain,
+          walletAddress: userAddress,
+        })).quoteId;
+      const { quote, outputAmount, exchangeRate, executedAt } = await swapQuoteService.execute(quoteId, userAddress);
 
-      const outputAmount = parseFloat(amount) * exchangeRate;
+      const swap = {
+        from: userAddress,
+        fromToken: quote.fromToken,
+        toToken: quote.toToken,
+        inputAmount: String(quote.inputAmount),
+        outputAmount: outputAmount.toFixed(6),
+        minimumReceived: quote.minimumReceived.toFixed(6),
+        exchangeRate: exchangeRate.toFixed(6),
+        slippageBps: quote.slippageBps,
+        quoteId,
+        chain: quote.chain,
+        fees: quote.fees,
+        timestamp: executedAt
+      };
 
-      // Generate mock transaction hash
-      const txHash = `0x${Math.random().toString(16).substring(2).padStart(64, '0')}`;
+      // Recorded under a hash of its contents so it can be looked up at /api/tx/:hash
+      const simulation = await simulatedTransactionStore.record('swap', swap);
 
       // Log the simulated swap
-      console.log(`Simulated swap: ${amount} ${fromToken} -> ${outputAmount.toFixed(6)} ${toToken} for ${userAddress}`);
+      console.log(`Simulated swap: ${quote.inputAmount} ${quote.fromToken} -> ${outputAmount.toFixed(6)} ${quote.toToken} for ${userAddress}`);
 
       res.json({
         success: true,
-        transaction: {
-          hash: txHash,
-          from: userAddress,
-          fromToken,
-          toToken,
-          inputAmount: amount,
-          outputAmount: outputAmount.toFixed(6),
-          exchangeRate: exchangeRate.toFixed(6),
-          gasEstimate: "0.001",
-          timestamp: new Date().toISOString()
-        }
-      });
-    } catch (error: any) {
-      console.error("Simulate swap error:", error);
-      res.status(500).json({
-        success: false,
-        message: "Failed to simulate swap"
+        transaction: { hash: simulation.hash, ...swap }
       });
+    } catch (error) {
+      sendError(res, error, "simulate swap");
+    }
+  });
+
+  // AMM pool simulator: constant-product AVGX pools with LP shares
+  app.get("/api/pools", async (req, res) => {
+    try {
+      res.json({ pools: await ammPoolService.listPools() });
+    } catch (error) {
+      sendError(res, error, "list pools");
+    }
+  });
+
+  // LP positions of the signed-in wallet
+  app.get("/api/pools/positions", requireWallet(), async (req, res) => {
+    try {
+      res.json({ wallet: req.wallet!.address, positions: await ammPoolService.getPositions(req.wallet!.address) });
+    } catch (error) {
+      sendError(res, error, "fetch LP positions");
+    }
+  });
+
+  app.get("/api/pools/:id", async (req, res) => {
+    try {
+      res.json(await ammPoolService.getPool(req.params.id.toUpperCase()));
+    } catch (error) {
+      sendError(res, error, "fetch pool");
+    }
+  });
+
+  app.post("/api/pools/:id/quote", async (req, res) => {
+    try {
+      const { tokenIn, amountIn } = poolQuoteSchema.parse(req.body);
+      res.json(await ammPoolService.quoteSwap(req.params.id.toUpperCase(), tokenIn, amountIn));
+    } catch (error) {
+      sendError(res, error, "quote pool swap");
+    }
+  });
+
+  app.post("/api/pools/:id/swap", requireWallet(req => req.body?.walletAddress), async (req, res) => {
+    try {
+      const { tokenIn, amountIn, minAmountOut } = poolSwapSchema.parse(req.body);
+      const result = await ammPoolService.swap(req.params.id.toUpperCase(), req.wallet!.address, tokenIn, amountIn, minAmountOut);
+      res.json({ success: true, ...result });
+    } catch (error) {
+      sendError(res, error, "swap");
+    }
+  });
+
+  app.post("/api/pools/:id/liquidity", requireWallet(req => req.body?.walletAddress), async (req, res) => {
+    try {
+      const { baseAmount, quoteAmount } = addLiquiditySchema.parse(req.body);
+      const result = await ammPoolService.addLiquidity(req.params.id.toUpperCase(), req.wallet!.address, { baseAmount, quoteAmount });
+      res.json({ success: true, ...result });
+    } catch (error) {
+      sendError(res, error, "add liquidity");
+    }
+  });
+
+  app.post("/api/pools/:id/liquidity/remove", requireWallet(req => req.body?.walletAddress), async (req, res) => {
+    try {
+      const { shares } = removeLiquiditySchema.parse(req.body);
+      const result = await ammPoolService.removeLiquidity(req.params.id.toUpperCase(), req.wallet!.address, shares);
+      res.json({ success: true, ...result });
+    } catch (error) {
+      sendError(res, error, "remove liquidity");
     }
   });
 
-  // Admin endpoint for baseline status
   app.get("/api/admin/baseline_status", async (req, res) => {
     try {
-      const [baseline, fiatConfig, cryptoConfig] = await Promise.all([
+      const [baseline, fiatConfig, cryptoConfig, basketRevisions] = await Promise.all([
         FileManager.readJson<any>('baseline.json'),
         FileManager.readJson<any[]>('fiats.json'),
-        FileManager.readJson<any[]>('cryptos.json')
+        FileManager.readJson<any[]>('cryptos.json'),
+        basketConfigService.getActiveRevisions()
       ]);
 
       const missingFiats = fiatApiService.getMissingCurrencies();
@@ -204,7 +536,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         baseline_timestamp: baseline?.timestamp,
         config: {
           total_fiats: fiatConfig?.length || 0,
-          total_cryptos: cryptoConfig?.length || 0
+          total_cryptos: cryptoConfig?.length || 0,
+          basket_revisions: basketRevisions
         },
         missing_data: {
           fiat_currencies: missingFiats,
@@ -225,6 +558,453 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Admin endpoint for index scheduler health
+  app.get("/api/admin/scheduler_status", (req, res) => {
+    const snapshot = avgxCalculatorService.getLatestSnapshot();
+    res.json({
+      ...indexScheduler.getStatus(),
+      latest_snapshot_at: snapshot?.timestamp ?? null,
+      stream: indexStream.getStats()
+    });
+  });
+
+  // Basket configuration: current constituents and validation status of both baskets
+  app.get("/api/admin/baskets", async (req, res) => {
+    try {
+      const [fiat, crypto] = await Promise.all(BASKET_KINDS.map(kind => basketConfigService.getBasket(kind)));
+      res.json({ fiat, crypto });
+    } catch (error) {
+      sendError(res, error, "get baskets");
+    }
+  });
+
+  app.get("/api/admin/baskets/:basket", async (req, res) => {
+    const basket = parseBasket(req.params.basket);
+    if (!basket) {
+      return res.status(404).json({ success: false, message: `Unknown basket. Use one of: ${BASKET_KINDS.join(', ')}` });
+    }
+
+    try {
+      res.json(await basketConfigService.getBasket(basket));
+    } catch (error) {
+      sendError(res, error, "get basket");
+    }
+  });
+
+  app.get("/api/admin/baskets/:basket/revisions", async (req, res) => {
+    const basket = parseBasket(req.params.basket);
+    if (!basket) {
+      return res.status(404).json({ success: false, message: `Unknown basket. Use one of: ${BASKET_KINDS.join(', ')}` });
+    }
+
+    try {
+      // Newest first, without the full constituent lists
+      const revisions = (await basketConfigService.getRevisions(basket))
+        .map(({ constituents, ...revision }) => ({ ...revision, constituent_count: constituents.length }))
+        .reverse();
+      res.json({ basket, count: revisions.length, revisions });
+    } catch (error) {
+      sendError(res, error, "get basket revisions");
+    }
+  });
+
+  app.get("/api/admin/baskets/:basket/revisions/:revision", async (req, res) => {
+    const basket = parseBasket(req.params.basket);
+    if (!basket) {
+      return res.status(404).json({ success: false, message: `Unknown basket. Use one of: ${BASKET_KINDS.join(', ')}` });
+    }
+
+    try {
+      const revision = await basketConfigService.getRevision(basket, parseInt(req.params.revision, 10));
+      if (!revision) {
+        return res.status(404).json({ success: false, message: "Revision not found" });
+      }
+      res.json(revision);
+    } catch (error) {
+      sendError(res, error, "get basket revision");
+    }
+  });
+
+  // Withdraws a scheduled revision before it takes effect
+  app.delete("/api/admin/baskets/:basket/revisions/:revision", async (req, res) => {
+    const basket = parseBasket(req.params.basket);
+    if (!basket) {
+      return res.status(404).json({ success: false, message: `Unknown basket. Use one of: ${BASKET_KINDS.join(', ')}` });
+    }
+
+    try {
+      const revision = await basketConfigService.cancelScheduled(basket, parseInt(req.params.revision, 10), authorOf(req));
+      res.json({ success: true, revision });
+    } catch (error) {
+      sendError(res, error, "cancel basket revision");
+    }
+  });
+
+  // Chain-link divisors and the audit trail of every basket switch
+  app.get("/api/admin/chain_links", async (req, res) => {
+    try {
+      const [divisors, links] = await Promise.all([
+        indexLinkingService.getDivisors(),
+        indexLinkingService.getLinks()
+      ]);
+      res.json({ divisors, count: links.length, links: links.reverse() });
+    } catch (error: any) {
+      console.error("Chain links error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to get chain links"
+      });
+    }
+  });
+
+  app.post("/api/admin/baskets/:basket/constituents", async (req, res) => {
+    const basket = parseBasket(req.params.basket);
+    if (!basket) {
+      return res.status(404).json({ success: false, message: `Unknown basket. Use one of: ${BASKET_KINDS.join(', ')}` });
+    }
+
+    try {
+      const { constituent, ...options } = basket === 'fiat'
+        ? addFiatConstituentSchema.parse(req.body)
+        : addCryptoConstituentSchema.parse(req.body);
+      const revision = await basketConfigService.addConstituent(basket, constituent, { ...options, author: authorOf(req) });
+      res.status(201).json({ success: true, revision });
+    } catch (error) {
+      sendError(res, error, "add constituent");
+    }
+  });
+
+  app.delete("/api/admin/baskets/:basket/constituents/:key", async (req, res) => {
+    const basket = parseBasket(req.params.basket);
+    if (!basket) {
+      return res.status(404).json({ success: false, message: `Unknown basket. Use one of: ${BASKET_KINDS.join(', ')}` });
+    }
+
+    try {
+      const options = removeConstituentSchema.parse(req.body ?? {});
+      const revision = await basketConfigService.removeConstituent(basket, req.params.key, { ...options, author: authorOf(req) });
+      res.json({ success: true, revision });
+    } catch (error) {
+      sendError(res, error, "remove constituent");
+    }
+  });
+
+  app.put("/api/admin/baskets/:basket/weights", async (req, res) => {
+    const basket = parseBasket(req.params.basket);
+    if (!basket) {
+      return res.status(404).json({ success: false, message: `Unknown basket. Use one of: ${BASKET_KINDS.join(', ')}` });
+    }
+
+    try {
+      const { weights, ...options } = reweightBasketSchema.parse(req.body);
+      const revision = await basketConfigService.reweight(basket, weights, { ...options, author: authorOf(req) });
+      res.json({ success: true, revision });
+    } catch (error) {
+      sendError(res, error, "reweight basket");
+    }
+  });
+
+  // Market-cap weighting: proposals are reviewed before they change the crypto basket
+  app.get("/api/admin/baskets/crypto/proposals", async (req, res) => {
+    try {
+      const proposals = (await cryptoWeightingService.listProposals()).reverse();
+      res.json({ config: cryptoWeightingService.getConfig(), count: proposals.length, proposals });
+    } catch (error) {
+      sendError(res, error, "get rebalance proposals");
+    }
+  });
+
+  app.post("/api/admin/baskets/crypto/proposals", async (req, res) => {
+    try {
+      const overrides = createRebalanceProposalSchema.parse(req.body ?? {});
+      const proposal = await cryptoWeightingService.propose(authorOf(req), overrides);
+      res.status(201).json({ success: true, proposal });
+    } catch (error) {
+      sendError(res, error, "create rebalance proposal");
+    }
+  });
+
+  app.get("/api/admin/baskets/crypto/proposals/:id", async (req, res) => {
+    try {
+      const proposal = await cryptoWeightingService.getProposal(req.params.id);
+      if (!proposal) {
+        return res.status(404).json({ success: false, message: "Proposal not found" });
+      }
+      res.json(proposal);
+    } catch (error) {
+      sendError(res, error, "get rebalance proposal");
+    }
+  });
+
+  app.post("/api/admin/baskets/crypto/proposals/:id/apply", async (req, res) => {
+    try {
+      const options = resolveRebalanceProposalSchema.parse(req.body ?? {});
+      const result = await cryptoWeightingService.apply(req.params.id, authorOf(req), options);
+      res.json({ success: true, ...result });
+    } catch (error) {
+      sendError(res, error, "apply rebalance proposal");
+    }
+  });
+
+  app.post("/api/admin/baskets/crypto/proposals/:id/reject", async (req, res) => {
+    try {
+      const proposal = await cryptoWeightingService.reject(req.params.id, authorOf(req));
+      res.json({ success: true, proposal });
+    } catch (error) {
+      sendError(res, error, "reject rebalance proposal");
+    }
+  });
+
+  // Replays stored or imported basket levels under candidate stability configs
+  app.post("/api/admin/backtest", async (req, res) => {
+    try {
+      const { scenarios, series, from, to, ...options } = backtestRequestSchema.parse(req.body);
+      const points = series
+        ? await backtestService.importSeries(series, from, to)
+        : await backtestService.loadStoredSeries(from, to);
+
+      if (points.length < 2) {
+        return res.status(422).json({
+          success: false,
+          message: series
+            ? "Imported series has fewer than two usable points"
+            : "Not enough stored basket levels in range; import a series instead"
+        });
+      }
+
+      res.json(await backtestService.run(points, scenarios, options));
+    } catch (error) {
+      sendError(res, error, "run backtest");
+    }
+  });
+
+  // Live stability formula parameters, their scheduled changes and audit log
+  app.get("/api/admin/stability_config", async (req, res) => {
+    try {
+      const [active, scheduled] = await Promise.all([
+        stabilityConfigService.getActive(),
+        stabilityConfigService.getScheduled()
+      ]);
+      res.json({ active, scheduled, bounds: STABILITY_CONFIG_BOUNDS });
+    } catch (error) {
+      sendError(res, error, "get stability config");
+    }
+  });
+
+  app.put("/api/admin/stability_config", async (req, res) => {
+    try {
+      const { comment, effective_at, ...changes } = updateStabilityConfigSchema.parse(req.body);
+      const version = await stabilityConfigService.update(changes, { author: authorOf(req), comment, effective_at });
+      res.status(version.activated_at ? 200 : 202).json({ success: true, version });
+    } catch (error) {
+      sendError(res, error, "update stability config");
+    }
+  });
+
+  app.get("/api/admin/stability_config/versions", async (req, res) => {
+    try {
+      const versions = await stabilityConfigService.getVersions();
+      res.json({ count: versions.length, versions: versions.reverse() });
+    } catch (error) {
+      sendError(res, error, "get stability config versions");
+    }
+  });
+
+  app.get("/api/admin/stability_config/versions/:version", async (req, res) => {
+    try {
+      const version = await stabilityConfigService.getVersion(parseInt(req.params.version, 10));
+      if (!version) {
+        return res.status(404).json({ success: false, message: `Version ${req.params.version} not found` });
+      }
+      res.json(version);
+    } catch (error) {
+      sendError(res, error, "get stability config version");
+    }
+  });
+
+  // Cancels a scheduled version before it takes effect
+  app.delete("/api/admin/stability_config/versions/:version", async (req, res) => {
+    try {
+      const version = await stabilityConfigService.cancelScheduled(parseInt(req.params.version, 10), authorOf(req));
+      res.json({ success: true, version });
+    } catch (error) {
+      sendError(res, error, "cancel stability config version");
+    }
+  });
+
+  app.get("/api/admin/stability_config/audit", async (req, res) => {
+    try {
+      const audit = await stabilityConfigService.getAuditLog();
+      res.json({ count: audit.length, entries: audit.reverse() });
+    } catch (error) {
+      sendError(res, error, "get stability config audit log");
+    }
+  });
+
+  // Fee schedule, promotions and their audit log
+  app.get("/api/admin/fee_schedule", async (req, res) => {
+    try {
+      const [current, promotions] = await Promise.all([
+        feeScheduleService.getSchedule(),
+        feeScheduleService.getPromotions(true)
+      ]);
+      res.json({ ...current, promotions });
+    } catch (error) {
+      sendError(res, error, "get fee schedule");
+    }
+  });
+
+  app.put("/api/admin/fee_schedule", async (req, res) => {
+    try {
+      const { comment, ...changes } = updateFeeScheduleSchema.parse(req.body);
+      const schedule = await feeScheduleService.update(changes, authorOf(req), comment);
+      res.json({ success: true, schedule });
+    } catch (error) {
+      sendError(res, error, "update fee schedule");
+    }
+  });
+
+  app.post("/api/admin/fee_schedule/promotions", async (req, res) => {
+    try {
+      const promotion = await feeScheduleService.createPromotion(createFeePromotionSchema.parse(req.body), authorOf(req));
+      res.status(201).json({ success: true, promotion });
+    } catch (error) {
+      sendError(res, error, "create fee promotion");
+    }
+  });
+
+  // Ends a promotion before its end time
+  app.delete("/api/admin/fee_schedule/promotions/:id", async (req, res) => {
+    try {
+      const promotion = await feeScheduleService.endPromotion(req.params.id, authorOf(req));
+      res.json({ success: true, promotion });
+    } catch (error) {
+      sendError(res, error, "end fee promotion");
+    }
+  });
+
+  app.get("/api/admin/fee_schedule/audit", async (req, res) => {
+    try {
+      const audit = await feeScheduleService.getAuditLog();
+      res.json({ count: audit.length, entries: [...audit].reverse() });
+    } catch (error) {
+      sendError(res, error, "get fee schedule audit log");
+    }
+  });
+
+  // Basket inputs quarantined by the price guard
+  app.get("/api/admin/price_incidents", async (req, res) => {
+    const basket = req.query.basket ? parseBasket(String(req.query.basket)) : undefined;
+    const status = req.query.status as PriceIncident['status'] | undefined;
+    const acknowledged = req.query.acknowledged;
+
+    if (basket === null) {
+      return res.status(400).json({ success: false, message: `Invalid basket. Use one of: ${BASKET_KINDS.join(', ')}` });
+    }
+    if (status && status !== 'open' && status !== 'resolved') {
+      return res.status(400).json({ success: false, message: "Invalid status. Use one of: open, resolved" });
+    }
+    if (acknowledged !== undefined && acknowledged !== 'true' && acknowledged !== 'false') {
+      return res.status(400).json({ success: false, message: "acknowledged must be true or false" });
+    }
+
+    try {
+      const incidents = await priceGuardService.listIncidents({
+        basket,
+        status,
+        acknowledged: acknowledged === undefined ? undefined : acknowledged === 'true'
+      });
+      res.json({ count: incidents.length, incidents: incidents.reverse() });
+    } catch (error: any) {
+      console.error("Price incidents error:", error);
+      res.status(500).json({ success: false, message: "Failed to get price incidents" });
+    }
+  });
+
+  app.post("/api/admin/price_incidents/:id/acknowledge", async (req, res) => {
+    try {
+      const { note, accept_observed } = acknowledgePriceIncidentSchema.parse(req.body ?? {});
+      const incident = await priceGuardService.acknowledge(req.params.id, authorOf(req), { note, acceptObserved: accept_observed });
+      res.json({ success: true, incident });
+    } catch (error) {
+      sendError(res, error, "acknowledge price incident");
+    }
+  });
+
+  // Guard thresholds and the last accepted value of every constituent
+  app.get("/api/admin/price_guard", async (req, res) => {
+    try {
+      res.json({ config: priceGuardService.getConfig(), last_good: await priceGuardService.getLastGood() });
+    } catch (error: any) {
+      console.error("Price guard error:", error);
+      res.status(500).json({ success: false, message: "Failed to get price guard state" });
+    }
+  });
+
+  // Admin accounts and API keys
+  app.get("/api/admin/users", requirePermission('users:manage'), async (req, res) => {
+    try {
+      const accounts = await authService.listAccounts();
+      res.json({ count: accounts.length, users: accounts });
+    } catch (error) {
+      sendError(res, error, "list users");
+    }
+  });
+
+  app.post("/api/admin/users", requirePermission('users:manage'), async (req, res) => {
+    try {
+      const { username, password, role } = createAccountSchema.parse(req.body);
+      const account = await authService.createAccount(username, password, role, authorOf(req));
+      res.status(201).json({ success: true, user: account });
+    } catch (error) {
+      sendError(res, error, "create user");
+    }
+  });
+
+  app.put("/api/admin/users/:username/role", requirePermission('users:manage'), async (req, res) => {
+    try {
+      const { role } = setRoleSchema.parse(req.body);
+      const account = await authService.setRole(req.params.username, role, authorOf(req));
+      res.json({ success: true, user: account });
+    } catch (error) {
+      sendError(res, error, "set role");
+    }
+  });
+
+  app.get("/api/admin/api_keys", requirePermission('users:manage'), async (req, res) => {
+    try {
+      const keys = await authService.listApiKeys();
+      res.json({ count: keys.length, api_keys: keys.reverse() });
+    } catch (error) {
+      sendError(res, error, "list API keys");
+    }
+  });
+
+  // The key is only returned here; it cannot be retrieved later
+  app.post("/api/admin/api_keys", requirePermission('users:manage'), async (req, res) => {
+    try {
+      const { name, scopes, expires_at } = createApiKeySchema.parse(req.body);
+      const created = await authService.createApiKey(req.principal!, name, scopes, expires_at);
+      res.status(201).json({ success: true, ...created });
+    } catch (error) {
+      sendError(res, error, "create API key");
+    }
+  });
+
+  app.delete("/api/admin/api_keys/:id", requirePermission('users:manage'), async (req, res) => {
+    try {
+      const apiKey = await authService.revokeApiKey(req.params.id, authorOf(req));
+      res.json({ success: true, api_key: apiKey });
+    } catch (error) {
+      sendError(res, error, "revoke API key");
+    }
+  });
+
+  // Server-Sent Events fallback for the live index stream (WebSocket clients use /api/stream)
+  app.get("/api/stream/sse", (req, res) => {
+    indexStream.addEventStream(res, parseChannels(req.query.channels));
+  });
+
   // Contact form submission
   app.post("/api/contact", async (req, res) => {
     try {
@@ -241,7 +1021,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Debug endpoint for stability formula transparency
-  app.get("/api/v2/avgx/debug", async (req, res) => {
+  app.get("/api/v2/avgx/debug", requirePermission('admin:read'), async (req, res) => {
     try {
       const debugInfo = await avgxCalculatorService.getDebugInfo();
       res.json({
@@ -266,6 +1046,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         wfValue: avgxData.wf_value,
         wcValue: avgxData.wc_value,
         change24h: avgxData.change24h,
+        changes: avgxData.changes,
+        publicationState: avgxData.publication.state,
         timestamp: avgxData.timestamp
       });
     } catch (error: any) {
@@ -297,9 +1079,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/avgx/chart/:timeframe", async (req, res) => {
     try {
       const timeframe = req.params.timeframe;
-      const mappedTimeframe = timeframe === '1m' ? '30d' : timeframe === '1y' ? '30d' : timeframe;
-      const history = await avgxCalculatorService.getHistoricalData(mappedTimeframe as any);
-      res.json(history.map(h => ({ timestamp: new Date(h.timestamp), value: h.avgx_usd })));
+      const lookback = HISTORY_TIMEFRAMES_MS[timeframe === '1m' ? '30d' : timeframe] ?? HISTORY_TIMEFRAMES_MS['24h'];
+      const to = new Date();
+      const history = await avgxCalculatorService.queryHistory({
+        from: new Date(to.getTime() - lookback),
+        to,
+        fields: ['avgx_usd'],
+        maxPoints: 500
+      });
+      res.json(history.data.map(h => ({ timestamp: new Date(h.timestamp), value: h.avgx_usd })));
     } catch (error: any) {
       console.error("Legacy chart error:", error);
       res.json([]);
@@ -387,6 +1175,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Fee schedule for mints, redeems and swaps, with running and upcoming promotions
+  app.get('/api/fees', async (req, res) => {
+    try {
+      const [{ schedule, updated_at }, promotions] = await Promise.all([
+        feeScheduleService.getSchedule(),
+        feeScheduleService.getPromotions()
+      ]);
+      res.json({ schedule, promotions, updated_at });
+    } catch (error) {
+      sendError(res, error, "get fee schedule");
+    }
+  });
+
   // AVGX Coin endpoints
   app.get('/api/coin/status', async (req, res) => {
     try {
@@ -421,50 +1222,84 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/coin/calculate-mint", async (req, res) => {
+  // Transaction history, only for the signed-in wallet; follow next_cursor for further pages
+  app.get('/api/coin/transactions/:wallet', requireWallet(req => req.params.wallet), async (req, res) => {
     try {
-      const { usdValue } = req.body;
-      if (!usdValue || usdValue <= 0) {
-        return res.status(400).json({
-          success: false,
-          message: "Valid USD value required"
-        });
+      const { type, chain, ...options } = transactionListQuerySchema.parse(req.query);
+      const page = await avgxCoinService.listTransactions(req.wallet!.address, { ...options, types: type, chains: chain });
+      res.json({ wallet: req.wallet!.address, ...page });
+    } catch (error) {
+      sendError(res, error, "fetch transaction history");
+    }
+  });
+
+  // Any recorded or simulated transaction by hash
+  app.get('/api/tx/:hash', async (req, res) => {
+    try {
+      if (!/^0x[0-9a-fA-F]{64}$/.test(req.params.hash)) {
+        return res.status(400).json({ success: false, message: "Transaction hash must be 0x followed by 64 hex digits" });
       }
 
-      const calculation = await avgxCoinService.calculateMintAmount(usdValue);
-      res.json(calculation);
-    } catch (error: any) {
-      console.error("Calculate mint API error:", error);
-      res.status(500).json({
-        success: false,
-        message: "Failed to calculate mint amount"
-      });
+      const found = await avgxCoinService.lookupTransaction(req.params.hash);
+      if (!found) {
+        return res.status(404).json({ success: false, message: "Transaction not found" });
+      }
+      res.json(found);
+    } catch (error) {
+      sendError(res, error, "look up transaction");
     }
   });
 
-  app.post('/api/coin/simulate-trade', async (req, res) => {
+  // Mint quote with its fee breakdown; a signed-in wallet is quoted at its volume tier
+  app.post("/api/coin/calculate-mint", async (req, res) => {
     try {
-      const { action, amount, chain } = req.body;
+      const { usdValue, chain } = calculateMintSchema.parse(req.body);
+      const calculation = await avgxCoinService.calculateMintAmount(usdValue, {
+        chain,
+        walletAddress: req.wallet?.address,
+      });
+      res.json(calculation);
+    } catch (error) {
+      sendError(res, error, "calculate mint amount");
+    }
+  });
 
-      if (!action || !amount) {
-        return res.status(400).json({ error: 'Missing required parameters' });
-      }
+  // Mint and redeem against the ledger for the signed-in wallet
+  app.post("/api/coin/mint", requireWallet(req => req.body?.walletAddress), async (req, res) => {
+    try {
+      const { usdValue, chain } = mintSchema.parse(req.body);
+      const result = await avgxCoinService.mint(req.wallet!.address, usdValue, chain);
+      res.status(201).json({ success: true, ...result });
+    } catch (error) {
+      sendError(res, error, "mint");
+    }
+  });
 
-      const amountNum = parseFloat(amount);
-      
-      if (isNaN(amountNum) || amountNum <= 0) {
-        return res.status(400).json({ error: 'Invalid amount' });
-      }
+  app.post("/api/coin/redeem", requireWallet(req => req.body?.walletAddress), async (req, res) => {
+    try {
+      const { avgxAmount, chain } = redeemSchema.parse(req.body);
+      const result = await avgxCoinService.redeem(req.wallet!.address, avgxAmount, chain);
+      res.status(201).json({ success: true, ...result });
+    } catch (error) {
+      sendError(res, error, "redeem");
+    }
+  });
 
-      const result = await avgxCoinService.simulateTrade(action, amountNum, chain || 'sepolia');
+  app.post('/api/coin/simulate-trade', async (req, res) => {
+    try {
+      const { action, amount, chain } = simulateTradeSchema.parse(req.body);
+      const result = await avgxCoinService.simulateTrade(action, amount, chain);
       res.json(result);
     } catch (error) {
-      console.error('Error simulating trade:', error);
-      res.status(500).json({ error: 'Failed to simulate trade' });
+      sendError(res, error, "simulate trade");
     }
   });
 
 
   const httpServer = createServer(app);
+
+  // Live index stream: WebSocket upgrades on /api/stream
+  indexStream.attach(httpServer);
+
   return httpServer;
 }
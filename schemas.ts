@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { COIN_CHAINS } from "./services/avgx-coin";
 
 // Contact form schema for backend validation
 export const insertContactSchema = z.object({
@@ -11,4 +12,250 @@ export const insertContactSchema = z.object({
 
 export type InsertContact = z.infer<typeof insertContactSchema>;
 
-// You can add more backend-specific schemas here as needed 
\ No newline at end of file
+// Admin basket configuration; the author is the authenticated principal
+const basketChangeFields = {
+  comment: z.string().trim().max(500).optional(),
+  normalize: z.boolean().optional(),
+  effective_at: z.string().datetime({ offset: true }).transform(value => new Date(value)).optional(),
+};
+
+const weightSchema = z.number().positive("Weight must be positive").max(1, "Weight must be at most 1");
+
+export const fiatConstituentSchema = z.object({
+  code: z.string().trim().toUpperCase().length(3, "Currency code must be 3 letters"),
+  name: z.string().trim().min(1, "Name is required"),
+  weight: weightSchema,
+});
+
+export const cryptoConstituentSchema = z.object({
+  id: z.string().trim().min(1, "Id is required"),
+  symbol: z.string().trim().toUpperCase().min(1, "Symbol is required"),
+  name: z.string().trim().min(1, "Name is required"),
+  weight: weightSchema,
+  provider_ids: z.record(z.string().nullable()).optional(),
+});
+
+export const addFiatConstituentSchema = z.object({ ...basketChangeFields, constituent: fiatConstituentSchema });
+
+export const addCryptoConstituentSchema = z.object({ ...basketChangeFields, constituent: cryptoConstituentSchema });
+
+export const removeConstituentSchema = z.object(basketChangeFields);
+
+export const reweightBasketSchema = z.object({
+  ...basketChangeFields,
+  weights: z.record(weightSchema).refine(w => Object.keys(w).length > 0, "At least one weight is required"),
+});
+
+export const createRebalanceProposalSchema = z.object({
+  max_weight: weightSchema.optional(),
+  caps: z.record(weightSchema).optional(),
+  floor: z.number().min(0).max(1).optional(),
+  min_volume_usd: z.number().min(0).optional(),
+});
+
+export const resolveRebalanceProposalSchema = z.object({
+  comment: basketChangeFields.comment,
+  effective_at: basketChangeFields.effective_at,
+});
+
+
+// Stability formula parameters; partial objects override the live config
+export const stabilityConfigOverridesSchema = z.object({
+  alpha_f: z.number().gt(0).max(1).optional(),
+  alpha_c: z.number().gt(0).max(1).optional(),
+  v_target: z.number().positive().optional(),
+  clamp_percent: z.number().positive().max(1).optional(),
+  volatility_window: z.number().int().min(2).max(10000).optional(),
+}).strict();
+
+// Live stability config changes; bounds are checked by the service
+export const updateStabilityConfigSchema = stabilityConfigOverridesSchema.extend({
+  comment: basketChangeFields.comment,
+  effective_at: basketChangeFields.effective_at,
+}).refine(
+  ({ comment, effective_at, ...config }) => Object.values(config).some(v => v !== undefined),
+  "At least one parameter is required"
+);
+
+// Backtests replay stored or imported basket levels under candidate stability configs
+export const backtestRequestSchema = z.object({
+  scenarios: z.array(z.object({
+    name: z.string().trim().min(1).max(100).optional(),
+    config: stabilityConfigOverridesSchema.optional(),
+  })).min(1, "At least one scenario is required").max(20),
+  // Imported ticks; the stored series is used when omitted
+  series: z.array(z.object({
+    timestamp: z.string().datetime({ offset: true }),
+    wf_raw: z.number().positive().optional(),
+    wc_raw: z.number().positive().optional(),
+    fiat_rates: z.record(z.number().positive()).optional(),
+    crypto_prices: z.record(z.number().positive()).optional(),
+  })).optional(),
+  from: z.string().datetime({ offset: true }).transform(value => new Date(value)).optional(),
+  to: z.string().datetime({ offset: true }).transform(value => new Date(value)).optional(),
+  history_interval_ms: z.number().int().positive().optional(),
+  include_path: z.boolean().optional(),
+  max_points: z.number().int().min(3).max(10000).optional(),
+});
+
+// Price guard incidents
+export const acknowledgePriceIncidentSchema = z.object({
+  note: z.string().trim().max(500).optional(),
+  accept_observed: z.boolean().optional(),
+});
+
+// Admin accounts and API keys
+const roleSchema = z.enum(["admin", "operator", "viewer"]);
+
+export const loginSchema = z.object({
+  username: z.string().trim().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
+});
+
+export const createAccountSchema = z.object({
+  username: z.string().trim().min(3).max(64).regex(/^[A-Za-z0-9_.-]+$/, "Username may only contain letters, digits, _, . and -"),
+  password: z.string().min(12, "Password must be at least 12 characters").max(256),
+  role: roleSchema,
+});
+
+export const setRoleSchema = z.object({ role: roleSchema });
+
+export const createApiKeySchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  scopes: z.array(z.enum(["admin:read", "admin:write", "users:manage"])).min(1, "At least one scope is required"),
+  expires_at: z.string().datetime({ offset: true }).transform(value => new Date(value)).optional(),
+});
+
+// Sign-In with Ethereum
+export const siweVerifySchema = z.object({
+  message: z.string().min(1, "Message is required").max(4096),
+  signature: z.string().regex(/^(0x)?[0-9a-fA-F]{130}$/, "Signature must be 65 bytes of hex"),
+});
+
+// AVGX coin ledger; the wallet is the one signed in with Ethereum
+const chainNameSchema = z.enum(Object.keys(COIN_CHAINS) as [string, ...string[]]);
+
+const chainSchema = z.string().trim().toLowerCase().pipe(chainNameSchema);
+
+const coinLedgerFields = {
+  chain: chainSchema.default("sepolia"),
+  walletAddress: z.string().optional(),
+};
+
+export const mintSchema = z.object({
+  ...coinLedgerFields,
+  usdValue: z.coerce.number().positive("USD value must be positive").max(1e9),
+});
+
+export const redeemSchema = z.object({
+  ...coinLedgerFields,
+  avgxAmount: z.coerce.number().positive("AVGX amount must be positive").max(1e9),
+});
+
+// Quotes and simulations that leave the ledger untouched
+export const calculateMintSchema = z.object({
+  usdValue: z.coerce.number().positive("USD value must be positive").max(1e9),
+  chain: chainSchema.optional(),
+});
+
+export const simulateTradeSchema = z.object({
+  action: z.enum(["mint", "redeem"]),
+  amount: z.coerce.number().positive("Amount must be positive").max(1e9),
+  chain: chainSchema.default("sepolia"),
+});
+
+const commaList = z.string().transform(value => value.split(",").map(v => v.trim().toLowerCase()).filter(Boolean));
+
+export const transactionListQuerySchema = z.object({
+  type: commaList.pipe(z.array(z.enum(["mint", "redeem"]))).optional(),
+  chain: commaList.pipe(z.array(chainNameSchema)).optional(),
+  from: z.string().datetime({ offset: true }).transform(value => new Date(value)).optional(),
+  to: z.string().datetime({ offset: true }).transform(value => new Date(value)).optional(),
+  sort: z.enum(["timestamp", "amount"]).default("timestamp"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  cursor: z.string().max(512).optional(),
+});
+
+// Swap quotes
+export const swapQuoteSchema = z.object({
+  fromToken: z.string().trim().min(1, "fromToken is required").max(20),
+  toToken: z.string().trim().min(1, "toToken is required").max(20),
+  amount: z.coerce.number().positive("Amount must be positive").max(1e12),
+  slippageBps: z.coerce.number().int().min(0).optional(),
+  chain: chainSchema.default("sepolia"),
+});
+
+// Executes a quote by id, or quotes and executes in one step
+export const simulateSwapSchema = z.union([
+  z.object({ quoteId: z.string().min(1).max(4096), userAddress: z.string().optional() }),
+  swapQuoteSchema.extend({ userAddress: z.string().optional() }),
+]);
+
+// AMM pool simulator
+export const poolQuoteSchema = z.object({
+  tokenIn: z.string().trim().min(1, "tokenIn is required").max(20),
+  amountIn: z.coerce.number().positive("amountIn must be positive").max(1e12),
+});
+
+export const poolSwapSchema = poolQuoteSchema.extend({
+  minAmountOut: z.coerce.number().nonnegative().optional(),
+  walletAddress: z.string().optional(),
+});
+
+export const addLiquiditySchema = z.object({
+  baseAmount: z.coerce.number().positive().max(1e12).optional(),
+  quoteAmount: z.coerce.number().positive().max(1e12).optional(),
+  walletAddress: z.string().optional(),
+}).refine(body => (body.baseAmount === undefined) !== (body.quoteAmount === undefined), {
+  message: "Provide exactly one of baseAmount or quoteAmount",
+});
+
+// Shares are exact decimals, so a whole position can be withdrawn as the string it is reported as
+export const removeLiquiditySchema = z.object({
+  shares: z.union([
+    z.string().trim().regex(/^\d+(\.\d{1,18})?$/, "shares must be a decimal with at most 18 places"),
+    z.number().positive("shares must be positive"),
+  ]),
+  walletAddress: z.string().optional(),
+});
+
+// Fee schedule; bounds and tier ordering are checked by the service
+const feeBpsSchema = z.number().int().min(0).max(1000);
+
+const actionFeeRuleSchema = z.object({
+  tiers: z.array(z.object({
+    min_volume_usd: z.number().min(0),
+    bps: feeBpsSchema,
+  }).strict()).min(1, "At least one tier is required").max(20),
+  min_fee_usd: z.number().min(0),
+  max_fee_usd: z.number().positive().nullable(),
+}).strict();
+
+const chainFeeRuleSchema = z.object({
+  bps_adjustment: z.number().int().min(-1000).max(1000),
+  network_fee_usd: z.number().min(0),
+}).strict();
+
+// Replaces the given action and chain rules; the others are kept
+export const updateFeeScheduleSchema = z.object({
+  actions: z.object({
+    mint: actionFeeRuleSchema.optional(),
+    redeem: actionFeeRuleSchema.optional(),
+    swap: actionFeeRuleSchema.optional(),
+  }).strict().optional(),
+  chains: z.record(chainSchema, chainFeeRuleSchema).optional(),
+  comment: basketChangeFields.comment,
+}).strict().refine(
+  ({ actions, chains }) => Object.keys(actions ?? {}).length + Object.keys(chains ?? {}).length > 0,
+  "At least one action or chain rule is required"
+);
+
+export const createFeePromotionSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  actions: z.array(z.enum(["mint", "redeem", "swap"])).min(1, "At least one action is required"),
+  chains: z.array(chainSchema).optional(),
+  bps: feeBpsSchema,
+  starts_at: basketChangeFields.effective_at,
+  ends_at: z.string().datetime({ offset: true }).transform(value => new Date(value)),
+});
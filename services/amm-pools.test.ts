@@ -0,0 +1,124 @@
+import { test, before, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { storage } from '../storage';
+import { toUnits } from '../utils/amm';
+import { ammPoolService, AmmError } from './amm-pools';
+import { avgxCalculatorService } from './avgx-calculator';
+import { swapQuoteService } from './swap-quotes';
+
+const WALLET = '0x7E5F4552091A69125d5DfCb7b8C2659029395Bdf';
+const OTHER_WALLET = '0x2B5AD5c4795c026514f8317c7a215E218DcCD6cF';
+
+// Simulations are recorded under ./data in the working directory; pools are kept in memory storage
+before(async () => {
+  process.chdir(await fs.mkdtemp(join(tmpdir(), 'amm-pools-')));
+});
+
+// Pools are seeded from a stand-in for the live prices: $1M per side at AVGX $1, USDC $1, ETH $2000
+beforeEach(() => {
+  const pricesUsd: Record<string, number> = { AVGX: 1, USDC: 1, ETH: 2000 };
+  mock.method(swapQuoteService, 'livePrices', async (symbols: string[]) => ({
+    prices: Object.fromEntries(symbols.map(symbol => [symbol, pricesUsd[symbol]])),
+    publicationState: 'live',
+  }));
+  mock.method(avgxCalculatorService, 'getCurrentAvgx', async () => {
+    throw new Error('Index unavailable in tests');
+  });
+});
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+async function sharesOf(poolId: string, walletAddress: string): Promise<bigint> {
+  return toUnits((await storage.getLpPosition(poolId, walletAddress))?.shares ?? '0');
+}
+
+async function totalSharesHeld(poolId: string): Promise<bigint> {
+  let total = 0n;
+  for (const walletAddress of ['protocol', WALLET, OTHER_WALLET]) total += await sharesOf(poolId, walletAddress);
+  return total;
+}
+
+test('pools are seeded once at the live prices', async () => {
+  const [eth, usdc] = await Promise.all([ammPoolService.getPool('AVGX-ETH'), ammPoolService.getPool('AVGX-USDC')]);
+  assert.equal(usdc.baseReserve, 1000000);
+  assert.equal(usdc.quoteReserve, 1000000);
+  assert.equal(usdc.totalShares, '1000000.000000000000000000');
+  assert.equal(eth.quoteReserve, 500);
+  assert.equal(await sharesOf('AVGX-USDC', 'protocol'), toUnits(usdc.totalShares));
+  assert.equal((await storage.getPools()).length, 2);
+});
+
+test('a swap below minAmountOut is refused and leaves the pool as it was', async () => {
+  const before = await ammPoolService.getPool('AVGX-USDC');
+  const quote = await ammPoolService.quoteSwap('AVGX-USDC', 'usdc', 1000);
+  assert.equal(quote.tokenOut, 'AVGX');
+  assert.ok(quote.priceImpactBps > 0);
+
+  await assert.rejects(
+    ammPoolService.swap('AVGX-USDC', WALLET, 'USDC', 1000, quote.amountOut + 0.000001),
+    (error: AmmError) => {
+      assert.ok(error instanceof AmmError);
+      assert.equal(error.status, 409);
+      assert.equal(error.details?.amountOut, quote.amountOut);
+      return true;
+    }
+  );
+  assert.equal((await ammPoolService.getPool('AVGX-USDC')).quoteReserve, before.quoteReserve);
+
+  const { quote: executed, pool } = await ammPoolService.swap('AVGX-USDC', WALLET, 'USDC', 1000, quote.amountOut);
+  assert.equal(executed.amountOut, quote.amountOut);
+  assert.equal(pool.quoteReserve, before.quoteReserve + 1000);
+  assert.ok(pool.k >= before.k);
+
+  // The fee stays in the pool and is tallied in the token it was paid in
+  assert.equal(executed.lpFee, 3);
+  assert.deepEqual(pool.lpFees, { base: before.lpFees.base, quote: before.lpFees.quote + 3 });
+});
+
+test('concurrent swaps each trade against the pool the one before left', async () => {
+  const before = await storage.getPool('AVGX-ETH');
+  const results = await Promise.all([1, 2, 3].map(() => ammPoolService.swap('AVGX-ETH', WALLET, 'ETH', 1)));
+
+  // Each later trade gets less for the same input, and the reserves account for all three
+  const outputs = results.map(r => r.quote.amountOut).sort((a, b) => b - a);
+  assert.ok(outputs[0] > outputs[1] && outputs[1] > outputs[2]);
+  const after = (await storage.getPool('AVGX-ETH'))!;
+  assert.equal(toUnits(after.quoteReserve) - toUnits(before!.quoteReserve), toUnits('3'));
+});
+
+test('liquidity is added and removed in exact shares', async () => {
+  const added = await ammPoolService.addLiquidity('AVGX-USDC', WALLET, { baseAmount: 1000 });
+  assert.equal(typeof added.shares, 'string');
+  assert.equal(await sharesOf('AVGX-USDC', WALLET), toUnits(added.shares));
+  assert.equal(await totalSharesHeld('AVGX-USDC'), toUnits(added.pool.totalShares));
+
+  await ammPoolService.addLiquidity('AVGX-USDC', OTHER_WALLET, { quoteAmount: 0.1 });
+  const [position] = await ammPoolService.getPositions(OTHER_WALLET);
+  assert.equal(position.poolId, 'AVGX-USDC');
+
+  // A whole position is withdrawn by passing back the shares as reported
+  const removed = await ammPoolService.removeLiquidity('AVGX-USDC', OTHER_WALLET, position.shares);
+  assert.equal(removed.shares, position.shares);
+  assert.ok(removed.quoteAmount <= 0.1);
+  assert.equal(await sharesOf('AVGX-USDC', OTHER_WALLET), 0n);
+  assert.deepEqual(await ammPoolService.getPositions(OTHER_WALLET), []);
+  assert.equal(await totalSharesHeld('AVGX-USDC'), toUnits(removed.pool.totalShares));
+
+  await assert.rejects(
+    ammPoolService.removeLiquidity('AVGX-USDC', WALLET, '1000000'),
+    (error: AmmError) => error.status === 409 && /Only .* shares of AVGX-USDC are held/.test(error.message)
+  );
+});
+
+test('the last liquidity cannot leave a pool', async () => {
+  const pool = await ammPoolService.getPool('AVGX-ETH');
+  await assert.rejects(
+    ammPoolService.removeLiquidity('AVGX-ETH', 'protocol', pool.totalShares),
+    (error: AmmError) => error.status === 409 && /Cannot remove all liquidity/.test(error.message)
+  );
+});
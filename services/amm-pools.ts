@@ -0,0 +1,362 @@
+import { storage } from '../storage';
+import type { AmmPool } from '../amm-schema';
+import { avgxCalculatorService } from './avgx-calculator';
+import { simulatedTransactionStore } from './simulated-transactions';
+import { swapQuoteService } from './swap-quotes';
+import { HttpError } from '../utils/http-error';
+import { depositFor, fromUnits, initialShares, swapOut, toUnits, unitsToNumber, withdrawalFor, type PoolUnits } from '../utils/amm';
+
+interface PoolDefinition {
+  id: string;
+  baseToken: string;
+  quoteToken: string;
+}
+
+// Pools seeded on first use; AVGX is always the base token
+const POOL_DEFINITIONS: PoolDefinition[] = [
+  { id: 'AVGX-USDC', baseToken: 'AVGX', quoteToken: 'USDC' },
+  { id: 'AVGX-ETH', baseToken: 'AVGX', quoteToken: 'ETH' },
+];
+
+// Holder of the seed liquidity
+const PROTOCOL_LP = 'protocol';
+
+export interface PoolView {
+  id: string;
+  baseToken: string;
+  quoteToken: string;
+  baseReserve: number;
+  quoteReserve: number;
+  k: number;
+  totalShares: string;           // Exact decimal, as stored
+  feeBps: number;
+  lpFees: { base: number; quote: number }; // Retained for LPs since seeding, per token
+  spotPrice: number;             // quoteToken per baseToken
+  poolPriceUsd: number | null;   // AVGX in USD as implied by the pool
+  indexPriceUsd: number | null;  // AVGX index
+  deviationBps: number | null;   // Pool price against the index; positive when the pool trades above it
+  updatedAt: string;
+}
+
+export interface PoolSwapQuote {
+  poolId: string;
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: number;
+  amountOut: number;
+  lpFee: number;            // In tokenIn, retained by the pool for LPs
+  executionPrice: number;   // tokenOut per tokenIn received
+  spotPriceBefore: number;  // tokenOut per tokenIn
+  spotPriceAfter: number;
+  priceImpactBps: number;   // Excluding the LP fee
+}
+
+export interface LpPositionView {
+  poolId: string;
+  shares: string;       // Exact decimal, as stored
+  shareOfPool: number;
+  baseAmount: number;
+  quoteAmount: number;
+}
+
+// Raised for pool operations that cannot be carried out
+export class AmmError extends HttpError {
+  name = 'AmmError';
+}
+
+function poolUnits(pool: AmmPool): PoolUnits {
+  return {
+    baseReserve: toUnits(pool.baseReserve),
+    quoteReserve: toUnits(pool.quoteReserve),
+    totalShares: toUnits(pool.totalShares),
+  };
+}
+
+/**
+ * Constant-product (x·y=k) pools for demoing AVGX liquidity. Trades and
+ * liquidity changes move pool state only: wallets are not debited, and the
+ * pools are not connected to the mint/redeem ledger. The LP fee stays in the
+ * pool for its liquidity providers and is tallied per pool; pools charge no
+ * protocol fee, so nothing is added to the reserves' collected fees.
+ */
+class AmmPoolService {
+  private config = {
+    feeBps: parseInt(process.env.AMM_FEE_BPS || '30', 10),
+    seedLiquidityUsd: parseFloat(process.env.AMM_SEED_LIQUIDITY_USD || '1000000'), // Per side of each pool
+  };
+
+  /**
+   * Seeds missing pools at the current index and token prices. A pool whose
+   * prices are unavailable is left for a later call.
+   */
+  private async ensurePools(): Promise<void> {
+    const existing = new Set((await storage.getPools()).map(p => p.id));
+    const missing = POOL_DEFINITIONS.filter(d => !existing.has(d.id));
+    if (missing.length === 0) return;
+
+    for (const definition of missing) {
+      let prices: Record<string, number>;
+      try {
+        ({ prices } = await swapQuoteService.livePrices([definition.baseToken, definition.quoteToken]));
+      } catch (error) {
+        console.warn(`Cannot seed pool ${definition.id} yet:`, error instanceof Error ? error.message : error);
+        continue;
+      }
+
+      const baseReserve = toUnits(this.config.seedLiquidityUsd / prices[definition.baseToken]);
+      const quoteReserve = toUnits(this.config.seedLiquidityUsd / prices[definition.quoteToken]);
+      const totalShares = fromUnits(initialShares(baseReserve, quoteReserve));
+
+      // Another request may have seeded the pool meanwhile, in which case nothing is written
+      const pool = await storage.createPool(
+        {
+          ...definition,
+          baseReserve: fromUnits(baseReserve),
+          quoteReserve: fromUnits(quoteReserve),
+          totalShares,
+          feeBps: this.config.feeBps,
+        },
+        [{ poolId: definition.id, walletAddress: PROTOCOL_LP, shares: totalShares }]
+      );
+      if (pool) {
+        console.log(`Seeded pool ${pool.id} with ${unitsToNumber(baseReserve).toFixed(4)} ${definition.baseToken} / ${unitsToNumber(quoteReserve).toFixed(4)} ${definition.quoteToken}`);
+      }
+    }
+  }
+
+  private async loadPool(id: string): Promise<AmmPool> {
+    await this.ensurePools();
+    const pool = await storage.getPool(id);
+    if (!pool) {
+      const known = POOL_DEFINITIONS.some(d => d.id === id);
+      throw known
+        ? new AmmError(`Pool ${id} has not been seeded yet; its token prices are unavailable`, 503)
+        : new AmmError(`Pool ${id} not found`, 404);
+    }
+    return pool;
+  }
+
+  private async view(pool: AmmPool): Promise<PoolView> {
+    const baseReserve = parseFloat(pool.baseReserve);
+    const quoteReserve = parseFloat(pool.quoteReserve);
+    const spotPrice = quoteReserve / baseReserve;
+
+    let poolPriceUsd: number | null = null;
+    let indexPriceUsd: number | null = null;
+    try {
+      const { prices } = await swapQuoteService.livePrices([pool.quoteToken]);
+      poolPriceUsd = spotPrice * prices[pool.quoteToken];
+      const avgx = await avgxCalculatorService.getCurrentAvgx();
+      indexPriceUsd = avgx.avgx_usd;
+    } catch {
+      // Deviation is unknown without a live price for the quote token
+    }
+
+    return {
+      id: pool.id,
+      baseToken: pool.baseToken,
+      quoteToken: pool.quoteToken,
+      baseReserve,
+      quoteReserve,
+      k: baseReserve * quoteReserve,
+      totalShares: pool.totalShares,
+      feeBps: pool.feeBps,
+      lpFees: { base: parseFloat(pool.baseFees), quote: parseFloat(pool.quoteFees) },
+      spotPrice,
+      poolPriceUsd,
+      indexPriceUsd,
+      deviationBps: poolPriceUsd !== null && indexPriceUsd ? (poolPriceUsd / indexPriceUsd - 1) * 10000 : null,
+      updatedAt: new Date(pool.updatedAt).toISOString(),
+    };
+  }
+
+  async listPools(): Promise<PoolView[]> {
+    await this.ensurePools();
+    return Promise.all((await storage.getPools()).map(pool => this.view(pool)));
+  }
+
+  async getPool(id: string): Promise<PoolView> {
+    return this.view(await this.loadPool(id));
+  }
+
+  // Prices a trade in exact units and works out the reserves and LP fees it leaves behind
+  private priceSwap(pool: AmmPool, tokenIn: string, amountIn: number): { quote: PoolSwapQuote; pool: Pick<AmmPool, 'baseReserve' | 'quoteReserve'> & Partial<Pick<AmmPool, 'baseFees' | 'quoteFees'>> } {
+    const symbol = tokenIn.toUpperCase();
+    if (symbol !== pool.baseToken && symbol !== pool.quoteToken) {
+      throw new AmmError(`Pool ${pool.id} trades ${pool.baseToken} and ${pool.quoteToken}, not ${symbol}`);
+    }
+    const units = toUnits(amountIn);
+    if (units <= 0n) {
+      throw new AmmError('amountIn is smaller than the pool can represent');
+    }
+
+    const sellingBase = symbol === pool.baseToken;
+    const reserveIn = toUnits(sellingBase ? pool.baseReserve : pool.quoteReserve);
+    const reserveOut = toUnits(sellingBase ? pool.quoteReserve : pool.baseReserve);
+
+    // The fee stays in the pool, growing k for liquidity providers
+    const { amountOut, lpFee } = swapOut(reserveIn, reserveOut, units, pool.feeBps);
+    const newReserveIn = fromUnits(reserveIn + units);
+    const newReserveOut = fromUnits(reserveOut - amountOut);
+
+    const spotPriceBefore = unitsToNumber(reserveOut) / unitsToNumber(reserveIn);
+    const output = unitsToNumber(amountOut);
+    return {
+      quote: {
+        poolId: pool.id,
+        tokenIn: symbol,
+        tokenOut: sellingBase ? pool.quoteToken : pool.baseToken,
+        amountIn,
+        amountOut: output,
+        lpFee: unitsToNumber(lpFee),
+        executionPrice: output / amountIn,
+        spotPriceBefore,
+        spotPriceAfter: Number(newReserveOut) / Number(newReserveIn),
+        priceImpactBps: (1 - (output / unitsToNumber(units - lpFee)) / spotPriceBefore) * 10000,
+      },
+      pool: sellingBase
+        ? { baseReserve: newReserveIn, quoteReserve: newReserveOut, baseFees: fromUnits(toUnits(pool.baseFees) + lpFee) }
+        : { baseReserve: newReserveOut, quoteReserve: newReserveIn, quoteFees: fromUnits(toUnits(pool.quoteFees) + lpFee) },
+    };
+  }
+
+  async quoteSwap(poolId: string, tokenIn: string, amountIn: number): Promise<PoolSwapQuote> {
+    return this.priceSwap(await this.loadPool(poolId), tokenIn, amountIn).quote;
+  }
+
+  /**
+   * Trades against the pool; fails when the output would fall below
+   * `minAmountOut`
+   */
+  async swap(poolId: string, walletAddress: string, tokenIn: string, amountIn: number, minAmountOut?: number) {
+    await this.loadPool(poolId);
+
+    // Priced on the pool as locked for the write, so concurrent trades each see the one before
+    let quote!: PoolSwapQuote;
+    const updated = (await storage.updatePool(poolId, walletAddress, pool => {
+      const priced = this.priceSwap(pool, tokenIn, amountIn);
+      if (minAmountOut !== undefined && priced.quote.amountOut < minAmountOut) {
+        throw new AmmError('Output is below minAmountOut', 409, [], { amountOut: priced.quote.amountOut, minAmountOut });
+      }
+      quote = priced.quote;
+      return { pool: { ...priced.pool, totalShares: pool.totalShares } };
+    }))!;
+
+    const simulation = await simulatedTransactionStore.record('pool_swap', {
+      ...quote,
+      walletAddress,
+      timestamp: new Date(updated.updatedAt).toISOString(),
+    });
+    console.log(`Pool swap on ${poolId}: ${amountIn} ${quote.tokenIn} -> ${quote.amountOut.toFixed(6)} ${quote.tokenOut} for ${walletAddress}`);
+
+    return { hash: simulation.hash, quote, pool: await this.view(updated) };
+  }
+
+  /**
+   * Deposits one side of the pool and the matching amount of the other at
+   * the current ratio, minting shares in proportion
+   */
+  async addLiquidity(poolId: string, walletAddress: string, amounts: { baseAmount?: number; quoteAmount?: number }) {
+    await this.loadPool(poolId);
+
+    let deposit!: ReturnType<typeof depositFor>;
+    const updated = (await storage.updatePool(poolId, walletAddress, (pool, position) => {
+      const units = poolUnits(pool);
+      deposit = depositFor(units, {
+        baseAmount: amounts.baseAmount !== undefined ? toUnits(amounts.baseAmount) : undefined,
+        quoteAmount: amounts.quoteAmount !== undefined ? toUnits(amounts.quoteAmount) : undefined,
+      });
+      if (deposit.shares <= 0n) {
+        throw new AmmError('Deposit is too small to mint any shares');
+      }
+
+      return {
+        pool: {
+          baseReserve: fromUnits(units.baseReserve + deposit.baseAmount),
+          quoteReserve: fromUnits(units.quoteReserve + deposit.quoteAmount),
+          totalShares: fromUnits(units.totalShares + deposit.shares),
+        },
+        shares: fromUnits(toUnits(position?.shares ?? '0') + deposit.shares),
+      };
+    }))!;
+
+    const baseAmount = unitsToNumber(deposit.baseAmount);
+    const quoteAmount = unitsToNumber(deposit.quoteAmount);
+    const shares = fromUnits(deposit.shares);
+    const simulation = await simulatedTransactionStore.record('liquidity', {
+      action: 'add', poolId, walletAddress, baseAmount, quoteAmount, shares,
+      timestamp: new Date(updated.updatedAt).toISOString(),
+    });
+    console.log(`${walletAddress} added ${baseAmount.toFixed(6)} ${updated.baseToken} / ${quoteAmount.toFixed(6)} ${updated.quoteToken} to ${poolId}`);
+
+    return { hash: simulation.hash, baseAmount, quoteAmount, shares, pool: await this.view(updated) };
+  }
+
+  /**
+   * Burns shares for their proportion of both reserves
+   */
+  async removeLiquidity(poolId: string, walletAddress: string, shares: string | number) {
+    await this.loadPool(poolId);
+    const burned = toUnits(shares);
+    if (burned <= 0n) {
+      throw new AmmError('shares must be positive');
+    }
+
+    let withdrawal!: ReturnType<typeof withdrawalFor>;
+    const updated = (await storage.updatePool(poolId, walletAddress, (pool, position) => {
+      const held = toUnits(position?.shares ?? '0');
+      if (burned > held) {
+        throw new AmmError(`Only ${fromUnits(held)} shares of ${poolId} are held`, 409);
+      }
+      const units = poolUnits(pool);
+      if (burned >= units.totalShares) {
+        throw new AmmError('Cannot remove all liquidity from a pool', 409);
+      }
+
+      withdrawal = withdrawalFor(units, burned);
+      return {
+        pool: {
+          baseReserve: fromUnits(units.baseReserve - withdrawal.baseAmount),
+          quoteReserve: fromUnits(units.quoteReserve - withdrawal.quoteAmount),
+          totalShares: fromUnits(units.totalShares - burned),
+        },
+        shares: fromUnits(held - burned),
+      };
+    }))!;
+
+    const baseAmount = unitsToNumber(withdrawal.baseAmount);
+    const quoteAmount = unitsToNumber(withdrawal.quoteAmount);
+    const simulation = await simulatedTransactionStore.record('liquidity', {
+      action: 'remove', poolId, walletAddress, baseAmount, quoteAmount, shares: fromUnits(burned),
+      timestamp: new Date(updated.updatedAt).toISOString(),
+    });
+    console.log(`${walletAddress} removed ${baseAmount.toFixed(6)} ${updated.baseToken} / ${quoteAmount.toFixed(6)} ${updated.quoteToken} from ${poolId}`);
+
+    return { hash: simulation.hash, baseAmount, quoteAmount, shares: fromUnits(burned), pool: await this.view(updated) };
+  }
+
+  async getPositions(walletAddress: string): Promise<LpPositionView[]> {
+    await this.ensurePools();
+    const positions = await storage.getLpPositions(walletAddress);
+    const views: LpPositionView[] = [];
+
+    for (const position of positions) {
+      const pool = await storage.getPool(position.poolId);
+      const shares = toUnits(position.shares);
+      if (!pool || shares <= 0n) continue;
+
+      const units = poolUnits(pool);
+      const { baseAmount, quoteAmount } = withdrawalFor(units, shares);
+      views.push({
+        poolId: pool.id,
+        shares: fromUnits(shares),
+        shareOfPool: unitsToNumber(shares) / unitsToNumber(units.totalShares),
+        baseAmount: unitsToNumber(baseAmount),
+        quoteAmount: unitsToNumber(quoteAmount),
+      });
+    }
+    return views;
+  }
+}
+
+export const ammPoolService = new AmmPoolService();
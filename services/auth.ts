@@ -0,0 +1,294 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { FileManager } from '../utils/file-manager';
+import { HttpError } from '../utils/http-error';
+import { storage } from '../storage';
+import type { UserRole } from '../auth-schema';
+
+export type Role = 'admin' | 'operator' | 'viewer';
+
+export const ROLES: Role[] = ['admin', 'operator', 'viewer'];
+
+export type Permission = 'admin:read' | 'admin:write' | 'users:manage';
+
+export const PERMISSIONS: Permission[] = ['admin:read', 'admin:write', 'users:manage'];
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  admin: PERMISSIONS,
+  operator: ['admin:read', 'admin:write'],
+  viewer: ['admin:read'],
+};
+
+// Whoever a request is authenticated as
+export interface Principal {
+  kind: 'user' | 'api_key';
+  id: string;
+  name: string; // Username, or "key:<name>" for API keys; recorded as the author of changes
+  role: Role | null; // API keys carry scopes instead of a role
+  permissions: Permission[];
+}
+
+export interface AccountInfo {
+  id: string;
+  username: string;
+  role: Role;
+  created_at: string;
+  created_by: string;
+}
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  key_hash: string; // sha256 of the full key; the key itself is only shown once
+  scopes: Permission[];
+  created_by: string;
+  created_at: string;
+  expires_at: string | null;
+  last_used_at: string | null;
+  revoked_at: string | null;
+  revoked_by: string | null;
+}
+
+export type ApiKeySummary = Omit<ApiKey, 'key_hash'>;
+
+// Raised for account and key requests that cannot be carried out
+export class AuthError extends HttpError {
+  name = 'AuthError';
+}
+
+const API_KEYS_FILE = 'api_keys.json';
+
+export const API_KEY_PREFIX = 'avgx';
+
+// last_used_at is written at most this often per key
+const KEY_USAGE_WRITE_INTERVAL = 60000;
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, 64);
+  return `scrypt:${salt.toString('hex')}:${hash.toString('hex')}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, saltHex, hashHex] = stored.split(':');
+  if (scheme !== 'scrypt' || !saltHex || !hashHex) return false;
+
+  const expected = Buffer.from(hashHex, 'hex');
+  const actual = await scryptAsync(password, Buffer.from(saltHex, 'hex'), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+function summarize({ key_hash, ...key }: ApiKey): ApiKeySummary {
+  return key;
+}
+
+function accountInfo(username: string, record: UserRole): AccountInfo {
+  return {
+    id: record.userId,
+    username,
+    role: record.role,
+    created_at: record.createdAt.toISOString(),
+    created_by: record.createdBy,
+  };
+}
+
+/**
+ * Accounts and API keys for the admin API. Credentials live in the users
+ * table and roles in the user_roles table, both behind IStorage; a user
+ * without a role, such as a wallet sign-in, has no admin access.
+ */
+class AuthService {
+  private keyUsage = new Map<string, number>();
+
+  /**
+   * Creates the account named by ADMIN_USERNAME/ADMIN_PASSWORD if it does not exist yet
+   */
+  async bootstrapAdmin(): Promise<void> {
+    const username = process.env.ADMIN_USERNAME;
+    const password = process.env.ADMIN_PASSWORD;
+    if (!username || !password) {
+      if ((await storage.getUserRoles()).length === 0) {
+        console.warn('No admin accounts exist; set ADMIN_USERNAME and ADMIN_PASSWORD to create one');
+      }
+      return;
+    }
+
+    if (await storage.getUserByUsername(username)) return;
+
+    await storage.createUserWithRole(
+      { username, password: await hashPassword(password) },
+      { role: 'admin', createdBy: 'system' }
+    );
+    console.log(`Created admin account ${username}`);
+  }
+
+  /**
+   * Checks a username and password; null when either is wrong or the account has no role
+   */
+  async verifyCredentials(username: string, password: string): Promise<Principal | null> {
+    const user = await storage.getUserByUsername(username);
+    if (!user || !(await verifyPassword(password, user.password))) return null;
+    return this.principalFor(user.id);
+  }
+
+  /**
+   * Principal for a session's user id; null if the account is gone or has no role
+   */
+  async principalFor(userId: string): Promise<Principal | null> {
+    const user = await storage.getUser(userId);
+    if (!user) return null;
+
+    const record = await storage.getUserRole(user.id);
+    if (!record) return null;
+
+    return {
+      kind: 'user',
+      id: user.id,
+      name: user.username,
+      role: record.role,
+      permissions: ROLE_PERMISSIONS[record.role],
+    };
+  }
+
+  async listAccounts(): Promise<AccountInfo[]> {
+    const accounts: AccountInfo[] = [];
+    for (const record of await storage.getUserRoles()) {
+      const user = await storage.getUser(record.userId);
+      if (user) accounts.push(accountInfo(user.username, record));
+    }
+    return accounts;
+  }
+
+  async createAccount(username: string, password: string, role: Role, createdBy: string): Promise<AccountInfo> {
+    if (await storage.getUserByUsername(username)) {
+      throw new AuthError(`User ${username} already exists`, 409);
+    }
+
+    const { role: record } = await storage.createUserWithRole(
+      { username, password: await hashPassword(password) },
+      { role, createdBy }
+    );
+
+    console.log(`${createdBy} created ${role} account ${username}`);
+    return accountInfo(username, record);
+  }
+
+  async setRole(username: string, role: Role, changedBy: string): Promise<AccountInfo> {
+    const user = await storage.getUserByUsername(username);
+    const updated = user && await storage.updateUserRole(user.id, role, roles => {
+      // Checked under the storage lock, so two demotions cannot both pass it
+      const admins = roles.filter(r => r.role === 'admin');
+      if (role !== 'admin' && admins.length === 1 && admins[0].userId === user.id) {
+        throw new AuthError('Cannot demote the last admin', 409);
+      }
+    });
+    if (!updated) {
+      throw new AuthError(`User ${username} not found`, 404);
+    }
+
+    console.log(`${changedBy} set the role of ${username} to ${role}`);
+    return accountInfo(username, updated);
+  }
+
+  /**
+   * Issues a key limited to `scopes`, which must be within the creator's own
+   * permissions. The returned key is not stored and cannot be shown again.
+   */
+  async createApiKey(
+    creator: Principal,
+    name: string,
+    scopes: Permission[],
+    expiresAt?: Date
+  ): Promise<{ key: string; api_key: ApiKeySummary }> {
+    const excess = scopes.filter(s => !creator.permissions.includes(s));
+    if (excess.length > 0) {
+      throw new AuthError(`Cannot grant scopes you do not hold: ${excess.join(', ')}`, 403);
+    }
+    if (expiresAt && expiresAt.getTime() <= Date.now()) {
+      throw new AuthError('expires_at must be in the future');
+    }
+
+    const id = randomBytes(6).toString('hex');
+    const key = `${API_KEY_PREFIX}_${id}_${randomBytes(24).toString('base64url')}`;
+    const record: ApiKey = {
+      id,
+      name,
+      key_hash: sha256(key),
+      scopes: Array.from(new Set(scopes)),
+      created_by: creator.name,
+      created_at: new Date().toISOString(),
+      expires_at: expiresAt?.toISOString() ?? null,
+      last_used_at: null,
+      revoked_at: null,
+      revoked_by: null,
+    };
+
+    await FileManager.updateJson<ApiKey[]>(API_KEYS_FILE, current => [...(current || []), record]);
+    console.log(`${creator.name} created API key ${id} (${name}) with scopes ${record.scopes.join(', ')}`);
+    return { key, api_key: summarize(record) };
+  }
+
+  async listApiKeys(): Promise<ApiKeySummary[]> {
+    return (await FileManager.readJson<ApiKey[]>(API_KEYS_FILE) || []).map(summarize);
+  }
+
+  async revokeApiKey(id: string, revokedBy: string): Promise<ApiKeySummary> {
+    let revoked: ApiKey | undefined;
+    let alreadyRevoked = false;
+
+    await FileManager.updateJson<ApiKey[]>(API_KEYS_FILE, current => {
+      const keys = current || [];
+      const target = keys.find(k => k.id === id);
+      if (!target) return null;
+      if (target.revoked_at) {
+        alreadyRevoked = true;
+        return null;
+      }
+      revoked = { ...target, revoked_at: new Date().toISOString(), revoked_by: revokedBy };
+      return keys.map(k => (k.id === id ? revoked! : k));
+    });
+
+    if (alreadyRevoked) throw new AuthError(`API key ${id} is already revoked`, 409);
+    if (!revoked) throw new AuthError(`API key ${id} not found`, 404);
+
+    console.log(`${revokedBy} revoked API key ${id}`);
+    return summarize(revoked);
+  }
+
+  /**
+   * Principal for a presented API key; null when it is unknown, revoked or expired
+   */
+  async verifyApiKey(key: string): Promise<Principal | null> {
+    const [prefix, id] = key.split('_');
+    if (prefix !== API_KEY_PREFIX || !id) return null;
+
+    const keys = await FileManager.readJson<ApiKey[]>(API_KEYS_FILE) || [];
+    const record = keys.find(k => k.id === id);
+    if (!record || record.revoked_at) return null;
+    if (record.expires_at && new Date(record.expires_at).getTime() <= Date.now()) return null;
+
+    const presented = Buffer.from(sha256(key), 'hex');
+    if (!timingSafeEqual(presented, Buffer.from(record.key_hash, 'hex'))) return null;
+
+    this.recordKeyUsage(id);
+    return { kind: 'api_key', id, name: `key:${record.name}`, role: null, permissions: record.scopes };
+  }
+
+  private recordKeyUsage(id: string): void {
+    const now = Date.now();
+    if (now - (this.keyUsage.get(id) ?? 0) < KEY_USAGE_WRITE_INTERVAL) return;
+    this.keyUsage.set(id, now);
+
+    FileManager.updateJson<ApiKey[]>(API_KEYS_FILE, current => (current || []).map(k => (
+      k.id === id ? { ...k, last_used_at: new Date(now).toISOString() } : k
+    ))).catch(error => console.error('Failed to record API key usage:', error));
+  }
+}
+
+export const authService = new AuthService();
@@ -1,6 +1,24 @@
-import { cryptoApiService } from './crypto-api';
-import { fiatApiService } from './fiat-api';
+import { EventEmitter } from 'events';
+import { cryptoApiService, type CryptoData } from './crypto-api';
+import { fiatApiService, type FiatData } from './fiat-api';
+import { basketConfigService, type BasketKind } from './basket-config';
+import { stabilityConfigService } from './stability-config';
+import {
+  assessDataQuality,
+  assessPublication,
+  cryptoProvenance,
+  fiatProvenance,
+  type DataQuality,
+  type Provenance,
+  type Publication,
+  type PublicationState,
+} from './data-quality';
+import { indexLinkingService } from './index-linking';
+import { historyRetention, ROLLUP_INTERVAL_MS, type RollupEntry, type RollupTier } from './history-retention';
 import { FileManager } from '../utils/file-manager';
+import * as stability from '../utils/stability';
+import type { SmoothedValues, StabilityConfig } from '../utils/stability';
+import { buildCandles, evenGroups, lttbIndices, mergeSeries, toSeries, valueAtOrBefore, type Candle, type SeriesPoint } from '../utils/series';
 
 export interface AvgxCalculationResult {
   avgx_usd: number;
@@ -10,40 +28,122 @@ export interface AvgxCalculationResult {
   timestamp: string;
 }
 
+export type PerformancePeriod = '1h' | '24h' | '7d' | '30d' | 'ytd';
+
+export interface PeriodChange {
+  change_percent: number;
+  reference_value: number;
+  reference_timestamp: string; // Timestamp of the stored point the change is measured against
+}
+
+// null when no stored value is close enough to the start of the period
+export type PerformanceChanges = Record<PerformancePeriod, PeriodChange | null>;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const PERIOD_LOOKBACK_MS: Record<Exclude<PerformancePeriod, 'ytd'>, number> = {
+  '1h': HOUR_MS,
+  '24h': DAY_MS,
+  '7d': 7 * DAY_MS,
+  '30d': 30 * DAY_MS,
+};
+
+// Stored row of any tier; rollup rows also carry their candles
+interface TierRow extends HistoryEntry {
+  time: number;
+  sample_count: number;
+  candles?: Pick<RollupEntry, 'avgx_usd' | 'wf_value' | 'wc_value'>;
+}
+
+// Upper bound on rows read from a tier before a coarser one is preferred
+const MAX_TIER_ROWS = 5000;
+
+// Full output of one stability-formula run, published by the index scheduler
+export interface AvgxSnapshot extends AvgxCalculationResult {
+  changes: PerformanceChanges;
+  wf_raw: number;
+  wc_raw: number;
+  wc_smoothed: number;
+  volatility_index: number;
+  fiatBasket: FiatData[];
+  cryptoBasket: CryptoData[];
+  basket_revisions: Record<BasketKind, number>; // Basket revisions the value was computed from
+  divisors: Record<BasketKind, number>; // Chain-link divisors applied to wf_raw and wc_raw
+  config_version: number; // Stability config version the formula ran with
+  stability_config: StabilityConfig;
+}
+
+// Snapshot baskets with their provenance, and what that makes the published index
+export interface SnapshotAssessment {
+  fiatBasket: Array<FiatData & { provenance: Provenance }>;
+  cryptoBasket: Array<CryptoData & { provenance: Provenance }>;
+  dataQuality: DataQuality;
+  publication: Publication;
+}
+
 export interface HistoryEntry {
   timestamp: string;
   avgx_usd: number;
   wf_value: number;
   wc_value: number;
+  volatility_index?: number; // Only recorded on smoothed (per-tick) samples
+  wc_smoothed?: number;      // Likewise; its daily closes feed the volatility index
+  basket_revisions?: Record<BasketKind, number>;
+  config_version?: number;
 }
 
-// Configuration parameters for the stability formula
-interface StabilityConfig {
-  alpha_f: number;      // Smoothing factor for fiat (default: 0.2)
-  alpha_c: number;      // Smoothing factor for crypto (default: 0.1)
-  v_target: number;     // Target volatility percentage (default: 10%)
-  clamp_percent: number; // Daily movement clamp percentage (default: 1.5%)
-  volatility_window: number; // Rolling window for volatility calculation (default: 30)
+export type HistoryField = 'avgx_usd' | 'wf_value' | 'wc_value' | 'volatility_index';
+
+export const HISTORY_FIELDS: HistoryField[] = ['avgx_usd', 'wf_value', 'wc_value', 'volatility_index'];
+
+export type DownsampleMethod = 'lttb' | 'average';
+
+// 'raw' is per-tick samples; rollup tiers report each bucket's close at its start time
+export type HistoryTier = 'raw' | RollupTier;
+
+export const HISTORY_TIERS: HistoryTier[] = ['raw', 'hourly', 'daily', 'weekly'];
+
+export interface HistoryQuery {
+  from: Date;
+  to: Date;
+  fields: HistoryField[];
+  maxPoints?: number;
+  method?: DownsampleMethod; // default: lttb
+  tier?: HistoryTier; // default: picked from the range
 }
 
-interface SmoothedValues {
-  wf_smoothed: number;
-  wc_smoothed: number;
-  volatility_index: number;
-  wc_adjusted: number;
+export type HistoryPoint = { timestamp: string } & Partial<Record<HistoryField, number | null>>;
+
+export interface HistoryQueryResult {
+  tier: HistoryTier;
+  data: HistoryPoint[];
+  source_count: number; // Samples in range before downsampling
+  downsampled: boolean;
+}
+
+export type OhlcInterval = '5m' | '1h' | '4h' | '1d';
+
+export const OHLC_INTERVAL_MS: Record<OhlcInterval, number> = {
+  '5m': 5 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '4h': 4 * 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000,
+};
+
+export interface OhlcBucket {
+  timestamp: string; // Bucket start (UTC-aligned)
+  sample_count: number; // 0 for an empty bucket carried forward from the previous close
+  avgx: Candle | null;
+  wf: Candle | null;
+  wc: Candle | null;
 }
 
 class AvgxCalculatorService {
   private static instance: AvgxCalculatorService;
-  private config: StabilityConfig = {
-    alpha_f: 0.2,
-    alpha_c: 0.1, 
-    v_target: 0.10,
-    clamp_percent: 0.015,
-    volatility_window: 30
-  };
-  private readonly CACHE_DURATION = 60000; // 1 minute
-  private lastCalculation: AvgxCalculationResult | null = null;
+  private latestSnapshot: AvgxSnapshot | null = null;
+  private publicationState: PublicationState | null = null;
+  private readonly events = new EventEmitter();
 
 
   public static getInstance(): AvgxCalculatorService {
@@ -54,244 +154,468 @@ class AvgxCalculatorService {
   }
 
   /**
-   * Calculates the current AVGX value using the stability formula:
-   * AVGX(t) = sqrt( WF_smoothed(t) * ( WC_smoothed(t) * (1 - σ_t) ) )
-   * where σ_t is a volatility index adjustment in [0,1]
+   * Runs the stability formula once against a single fetch of both baskets.
+   * Nothing is persisted here; the index scheduler records the result.
    */
-  async calculateAvgxIndex(): Promise<AvgxCalculationResult> {
-    try {
-      // Initialize services if needed
-      await Promise.all([
-        fiatApiService.initialize(),
-        cryptoApiService.initialize()
-      ]);
-
-      // Get weighted averages for both baskets
-      const [fiatData, cryptoData] = await Promise.all([
-        fiatApiService.getFiatRatesWithWeights(),
-        cryptoApiService.getCryptoPricesWithWeights()
-      ]);
+  async computeSnapshot(): Promise<AvgxSnapshot> {
+    // Prices and divisors are read together so a basket switch cannot fall between them
+    const { fiatRates, cryptoPrices, basketRevisions, divisors } = await basketConfigService.withActiveBaskets(
+      async basketRevisions => {
+        const [fiatRates, cryptoPrices, divisors] = await Promise.all([
+          fiatApiService.getFiatRatesWithWeights(),
+          cryptoApiService.getCryptoPricesWithWeights(),
+          indexLinkingService.getDivisors()
+        ]);
+        return { fiatRates, cryptoPrices, basketRevisions, divisors };
+      }
+    );
 
-      const wfValue = fiatApiService.getWeightedFiatAverage();
-      const wcValue = cryptoApiService.getWeightedCryptoAverage();
+    // Calculate raw weighted baskets, chain-linked across basket changes
+    const wfRaw = fiatRates.reduce((sum, fiat) => sum + (fiat.rate * fiat.weight), 0) / divisors.fiat;
+    const wcRaw = cryptoPrices.reduce((sum, crypto) => sum + (crypto.price * crypto.weight), 0) / divisors.crypto;
 
-      // Calculate AVGX using the mathematical formula
-      const avgxValue = Math.sqrt(wfValue * wcValue);
+    // Apply stability formula
+    const { version: configVersion, config } = await stabilityConfigService.getActive();
+    const smoothedValues = await this.calculateSmoothedValues(wfRaw, wcRaw, config);
 
-      // Get historical data for 24h change calculation
-      const history = await this.getHistoricalData('24h');
-      let change24h = 0;
+    // AVGX = sqrt(WF_smoothed * WC_adjusted)
+    const avgxValue = Math.sqrt(smoothedValues.wf_smoothed * smoothedValues.wc_adjusted);
 
-      if (history.length > 0) {
-        const dayAgo = history[0];
-        if (dayAgo && dayAgo.avgx_usd > 0) {
-          change24h = ((avgxValue - dayAgo.avgx_usd) / dayAgo.avgx_usd) * 100;
-        }
-      }
+    // Apply daily movement clamp
+    const clampedAvgxValue = await this.applyDailyClamp(avgxValue, config);
 
-      const result: AvgxCalculationResult = {
-        avgx_usd: avgxValue,
-        wf_value: wfValue,
-        wc_value: wcValue,
-        change24h,
-        timestamp: new Date().toISOString(),
-      };
+    const now = new Date();
+    const changes = await this.calculateChanges(clampedAvgxValue, now);
 
-      this.lastCalculation = result;
+    return {
+      avgx_usd: clampedAvgxValue,
+      wf_value: smoothedValues.wf_smoothed,
+      wc_value: smoothedValues.wc_adjusted,
+      change24h: changes['24h']?.change_percent ?? 0,
+      changes,
+      timestamp: now.toISOString(),
+      wf_raw: wfRaw,
+      wc_raw: wcRaw,
+      wc_smoothed: smoothedValues.wc_smoothed,
+      volatility_index: smoothedValues.volatility_index,
+      fiatBasket: fiatRates,
+      cryptoBasket: cryptoPrices,
+      basket_revisions: basketRevisions,
+      divisors,
+      config_version: configVersion,
+      stability_config: config
+    };
+  }
 
-      // Save to history (every hour to avoid too much data)
-      const now = new Date();
-      const shouldSaveHistory = now.getMinutes() === 0; // Save at the top of each hour
+  /**
+   * Persists a computed snapshot and makes it the one served to clients.
+   * The smoothed row is written on every call, the history row only when requested.
+   */
+  async publishSnapshot(snapshot: AvgxSnapshot, options: { appendHistory: boolean }): Promise<void> {
+    await this.storeSmoothedValues(snapshot);
+
+    if (options.appendHistory) {
+      await FileManager.appendToHistory({
+        timestamp: snapshot.timestamp,
+        avgx_usd: snapshot.avgx_usd,
+        wf_value: snapshot.wf_value,
+        wc_value: snapshot.wc_value,
+        basket_revisions: snapshot.basket_revisions,
+        config_version: snapshot.config_version,
+      });
+    }
 
-      if (shouldSaveHistory) {
-        await FileManager.appendToHistory({
-          timestamp: result.timestamp,
-          avgx_usd: result.avgx_usd,
-          wf_value: result.wf_value,
-          wc_value: result.wc_value,
-        });
-      }
+    try {
+      await FileManager.updateJson<any>('baseline.json', baseline => ({
+        ...baseline,
+        avgx_value: snapshot.avgx_usd,
+        wf_value: snapshot.wf_value,
+        wc_value: snapshot.wc_value,
+        timestamp: snapshot.timestamp,
+      }));
+    } catch (error) {
+      console.error('Error updating baseline with snapshot:', error);
+    }
 
-      // Update baseline
-      const baseline = await FileManager.readJson<any>('baseline.json') || {};
-      baseline.avgx_value = result.avgx_usd;
-      baseline.wf_value = result.wf_value;
-      baseline.wc_value = result.wc_value;
-      baseline.timestamp = result.timestamp;
-      await FileManager.writeJson('baseline.json', baseline);
+    const previous = this.latestSnapshot;
+    this.latestSnapshot = snapshot;
+    this.logPublicationChange(snapshot);
+    this.events.emit('snapshot', snapshot, previous);
 
-      console.log(`AVGX calculated: $${avgxValue.toFixed(4)} (WF: ${wfValue.toFixed(4)}, WC: $${wcValue.toFixed(2)})`);
+    console.log(`AVGX calculated: $${snapshot.avgx_usd.toFixed(4)} (WF: ${snapshot.wf_value.toFixed(4)}, WC: $${snapshot.wc_value.toFixed(2)}, σ: ${snapshot.volatility_index.toFixed(4)})`);
+  }
 
-      return result;
-    } catch (error) {
-      console.error('Failed to calculate AVGX index:', error);
-
-      // Fallback to baseline
-      const baseline = await FileManager.readJson<any>('baseline.json');
-      if (baseline?.avgx_value) {
-        console.warn('Falling back to baseline AVGX value');
-        return {
-          avgx_usd: baseline.avgx_value,
-          wf_value: baseline.wf_value || 1.0,
-          wc_value: baseline.wc_value || 62500.0,
-          change24h: 0,
-          timestamp: new Date().toISOString(),
-        };
-      }
+  private logPublicationChange(snapshot: AvgxSnapshot): void {
+    const { publication } = this.assessSnapshot(snapshot);
+    if (publication.state === this.publicationState) return;
 
-      throw new Error('Failed to calculate AVGX index');
+    const message = `AVGX publication state ${this.publicationState ?? 'unset'} -> ${publication.state}` +
+      (publication.reasons.length > 0 ? ` (${publication.reasons.join('; ')})` : '');
+    if (publication.state === 'live') {
+      console.log(message);
+    } else {
+      console.warn(message);
     }
+    this.publicationState = publication.state;
+  }
+
+  /**
+   * Provenance of every constituent in `snapshot`, the resulting data
+   * quality and the state the index is published in as of `now`
+   */
+  assessSnapshot(snapshot: AvgxSnapshot, now: Date = new Date()): SnapshotAssessment {
+    const fiatBasket = snapshot.fiatBasket.map(fiat => ({ ...fiat, provenance: fiatProvenance(fiat, now) }));
+    const cryptoBasket = snapshot.cryptoBasket.map(crypto => ({ ...crypto, provenance: cryptoProvenance(crypto, now) }));
+    const dataQuality = assessDataQuality({ fiat: fiatBasket, crypto: cryptoBasket });
+
+    return {
+      fiatBasket,
+      cryptoBasket,
+      dataQuality,
+      publication: assessPublication(dataQuality, snapshot.timestamp, now),
+    };
+  }
+
+  getLatestSnapshot(): AvgxSnapshot | null {
+    return this.latestSnapshot;
+  }
+
+  /**
+   * Subscribes to published snapshots; returns an unsubscribe function
+   */
+  onSnapshot(listener: (snapshot: AvgxSnapshot, previous: AvgxSnapshot | null) => void): () => void {
+    this.events.on('snapshot', listener);
+    return () => this.events.off('snapshot', listener);
+  }
+
+  /**
+   * Latest published snapshot, or an unpersisted preview if the scheduler has not ticked yet
+   */
+  private async resolveSnapshot(): Promise<AvgxSnapshot> {
+    return this.latestSnapshot ?? await this.computeSnapshot();
   }
 
   /**
-   * Get current AVGX calculation with caching
+   * Get current AVGX value from the latest scheduled calculation
    */
   async getCurrentAvgx(): Promise<{
     avgx_usd: number;
     wf_value: number;
     wc_value: number;
     change24h: number;
+    changes: PerformanceChanges;
     timestamp: string;
+    publication: Publication;
   }> {
     try {
-      const [fiatRates, cryptoPrices] = await Promise.all([
-        fiatApiService.getFiatRatesWithWeights(),
-        cryptoApiService.getCryptoPricesWithWeights()
-      ]);
+      const snapshot = await this.resolveSnapshot();
+      return {
+        avgx_usd: snapshot.avgx_usd,
+        wf_value: snapshot.wf_value,
+        wc_value: snapshot.wc_value,
+        change24h: snapshot.change24h,
+        changes: snapshot.changes,
+        timestamp: snapshot.timestamp,
+        publication: this.assessSnapshot(snapshot).publication
+      };
+    } catch (error) {
+      console.error('Error calculating AVGX:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get detailed breakdown of the AVGX calculation
+   */
+  async getDetailedBreakdown() {
+    const snapshot = await this.resolveSnapshot();
+    const { fiatBasket, cryptoBasket, dataQuality, publication } = this.assessSnapshot(snapshot);
 
-      // Calculate raw weighted baskets
-      const wfRaw = fiatRates.reduce((sum, fiat) => sum + (fiat.rate * fiat.weight), 0);
-      const wcRaw = cryptoPrices.reduce((sum, crypto) => sum + (crypto.price * crypto.weight), 0);
+    return {
+      avgx: {
+        avgx_usd: snapshot.avgx_usd,
+        wf_value: snapshot.wf_value,
+        wc_value: snapshot.wc_value,
+        change24h: snapshot.change24h,
+        changes: snapshot.changes,
+        timestamp: snapshot.timestamp,
+        basket_revisions: snapshot.basket_revisions,
+        config_version: snapshot.config_version
+      },
+      fiatBasket,
+      cryptoBasket,
+      dataQuality,
+      publication,
+    };
+  }
 
-      // Apply stability formula
-      const smoothedValues = await this.calculateSmoothedValues(wfRaw, wcRaw);
+  /**
+   * Percentage change of `currentValue` over each performance period.
+   * Each change is measured against the stored value at or before t-Δ, using the
+   * raw and smoothed history backed by the hourly and daily rollups. If the nearest such
+   * point is older than the gap tolerance the period is reported as null rather
+   * than silently stretched across a hole in the series.
+   */
+  async calculateChanges(currentValue: number, now: Date): Promise<PerformanceChanges> {
+    const [history, smoothedHistory, hourly, daily] = await Promise.all([
+      this.getAvgxHistory(),
+      this.getSmoothedHistory(),
+      historyRetention.getRollups('hourly'),
+      historyRetention.getRollups('daily')
+    ]);
 
-      // AVGX = sqrt(WF_smoothed * WC_adjusted)
-      const avgxValue = Math.sqrt(smoothedValues.wf_smoothed * smoothedValues.wc_adjusted);
+    // Rollup closes fill in where raw samples have already been pruned
+    const closes = (rollups: RollupEntry[]) =>
+      toSeries(rollups.map(r => ({ timestamp: r.close_timestamp, value: r.avgx_usd.close })), r => r.value);
 
-      // Apply daily movement clamp
-      const clampedAvgxValue = await this.applyDailyClamp(avgxValue);
+    const series = mergeSeries(
+      closes(daily),
+      closes(hourly),
+      toSeries(history, h => h.avgx_usd),
+      toSeries(smoothedHistory, h => h.avgx_usd)
+    ).filter(p => p.value > 0 && p.time < now.getTime());
 
-      // Calculate 24h change (simplified - would need historical data for accuracy)
-      const change24h = 0; // TODO: Implement with historical data
+    const changeFrom = (target: number, maxGap: number): PeriodChange | null => {
+      const reference: SeriesPoint | undefined = valueAtOrBefore(series, target);
+      if (!reference || target - reference.time > maxGap) return null;
 
-      const result = {
-        avgx_usd: clampedAvgxValue,
-        wf_value: smoothedValues.wf_smoothed,
-        wc_value: smoothedValues.wc_adjusted,
-        change24h,
-        timestamp: new Date().toISOString()
+      return {
+        change_percent: ((currentValue - reference.value) / reference.value) * 100,
+        reference_value: reference.value,
+        reference_timestamp: new Date(reference.time).toISOString(),
       };
+    };
 
-      console.log(`AVGX calculated: $${clampedAvgxValue.toFixed(4)} (WF: ${smoothedValues.wf_smoothed.toFixed(4)}, WC: $${smoothedValues.wc_adjusted.toFixed(2)}, σ: ${smoothedValues.volatility_index.toFixed(4)})`);
+    const t = now.getTime();
+    // Tolerate gaps up to a quarter of the period, never less than 15 minutes
+    const gapFor = (lookback: number) => Math.max(lookback * 0.25, 15 * 60 * 1000);
+    const yearStart = Date.UTC(now.getUTCFullYear(), 0, 1);
 
-      // Store current values for smoothing history
-      await this.storeSmoothedValues(smoothedValues, clampedAvgxValue);
+    return {
+      '1h': changeFrom(t - PERIOD_LOOKBACK_MS['1h'], gapFor(PERIOD_LOOKBACK_MS['1h'])),
+      '24h': changeFrom(t - PERIOD_LOOKBACK_MS['24h'], gapFor(PERIOD_LOOKBACK_MS['24h'])),
+      '7d': changeFrom(t - PERIOD_LOOKBACK_MS['7d'], gapFor(PERIOD_LOOKBACK_MS['7d'])),
+      '30d': changeFrom(t - PERIOD_LOOKBACK_MS['30d'], gapFor(PERIOD_LOOKBACK_MS['30d'])),
+      'ytd': changeFrom(yearStart, 7 * DAY_MS),
+    };
+  }
 
-      return result;
-    } catch (error) {
-      console.error('Error calculating AVGX:', error);
-      throw error;
+  /**
+   * All stored AVGX samples, time-sorted: the hourly history merged with the
+   * per-tick smoothed rows (which share timestamps with the history rows they produced)
+   */
+  async getHistorySamples(): Promise<HistoryEntry[]> {
+    const [history, smoothedHistory] = await Promise.all([
+      this.getAvgxHistory(),
+      this.getSmoothedHistory()
+    ]);
+
+    const byTimestamp = new Map<number, HistoryEntry>();
+    for (const h of history) {
+      byTimestamp.set(new Date(h.timestamp).getTime(), {
+        timestamp: h.timestamp,
+        avgx_usd: h.avgx_usd,
+        wf_value: h.wf_value,
+        wc_value: h.wc_value,
+      });
     }
+    for (const h of smoothedHistory) {
+      byTimestamp.set(new Date(h.timestamp).getTime(), {
+        timestamp: h.timestamp,
+        avgx_usd: h.avgx_usd,
+        wf_value: h.wf_smoothed,
+        wc_value: h.wc_adjusted,
+        volatility_index: h.volatility_index,
+        wc_smoothed: h.wc_smoothed,
+      });
+    }
+
+    return Array.from(byTimestamp.entries())
+      .filter(([time]) => Number.isFinite(time))
+      .sort(([a], [b]) => a - b)
+      .map(([, entry]) => entry);
   }
 
-  private shouldRefreshCache(): boolean {
-    if (!this.lastCalculation) return true;
-    return Date.now() - new Date(this.lastCalculation.timestamp).getTime() > this.CACHE_DURATION;
+  /**
+   * Rows of one storage tier. Rollup tiers are extended with the raw samples
+   * after their last completed bucket so they always reach the present.
+   */
+  private async getTierRows(tier: HistoryTier): Promise<TierRow[]> {
+    const [raw, rollups] = await Promise.all([
+      this.getRawRows(),
+      tier === 'raw' ? [] : historyRetention.getRollups(tier)
+    ]);
+    return this.tierRows(tier, raw, rollups);
+  }
+
+  private async getRawRows(): Promise<TierRow[]> {
+    return (await this.getHistorySamples()).map(entry => ({
+      ...entry,
+      time: new Date(entry.timestamp).getTime(),
+      sample_count: 1,
+    }));
+  }
+
+  private tierRows(tier: HistoryTier, raw: TierRow[], rollups: RollupEntry[]): TierRow[] {
+    if (tier === 'raw') return raw;
+
+    const rows: TierRow[] = rollups.map(r => ({
+      timestamp: r.timestamp,
+      time: new Date(r.timestamp).getTime(),
+      avgx_usd: r.avgx_usd.close,
+      wf_value: r.wf_value.close,
+      wc_value: r.wc_value.close,
+      volatility_index: r.volatility_index ?? undefined,
+      sample_count: r.sample_count,
+      candles: { avgx_usd: r.avgx_usd, wf_value: r.wf_value, wc_value: r.wc_value },
+    }));
+
+    const last = rows[rows.length - 1];
+    const tailFrom = last ? last.time + ROLLUP_INTERVAL_MS[tier] : -Infinity;
+    return rows.concat(raw.filter(r => r.time >= tailFrom));
   }
 
   /**
-   * Get detailed breakdown of the AVGX calculation
+   * Finest tier that reaches back to `from` without exceeding the row budget
+   * for the range. When no tier reaches that far, the one with the most rows
+   * in range (within budget) is used. Every tier is read once up front.
    */
-  async getDetailedBreakdown() {
-    const [fiatData, cryptoData, avgxResult] = await Promise.all([
-      fiatApiService.getFiatRatesWithWeights(),
-      cryptoApiService.getCryptoPricesWithWeights(),
-      this.getCurrentAvgx()
+  private async selectTier(from: number, to: number, maxPoints?: number): Promise<{ tier: HistoryTier; rows: TierRow[] }> {
+    const budget = maxPoints ? Math.min(maxPoints * 10, MAX_TIER_ROWS) : MAX_TIER_ROWS;
+    const [raw, rollups] = await Promise.all([
+      this.getRawRows(),
+      Promise.all(HISTORY_TIERS.map(tier => (tier === 'raw' ? [] : historyRetention.getRollups(tier))))
     ]);
+    let best: { tier: HistoryTier; rows: TierRow[]; inRange: number } | null = null;
 
-    return {
-      avgx: avgxResult,
-      fiatBasket: fiatData,
-      cryptoBasket: cryptoData,
-    };
+    for (const [i, tier] of HISTORY_TIERS.entries()) {
+      const rows = this.tierRows(tier, raw, rollups[i]);
+      const earliest = rows.length > 0 ? rows[0].time : Infinity;
+      const inRange = rows.filter(r => r.time >= from && r.time <= to).length;
+
+      if (earliest <= from && inRange <= budget) {
+        return { tier, rows };
+      }
+
+      const score = inRange <= budget ? inRange : -inRange;
+      const bestScore = best ? (best.inRange <= budget ? best.inRange : -best.inRange) : -Infinity;
+      if (score > bestScore) {
+        best = { tier, rows, inRange };
+      }
+    }
+
+    return { tier: best!.tier, rows: best!.rows };
   }
 
   /**
-   * Get historical AVGX data
+   * Stored samples in [from, to] projected onto the requested fields, reduced to
+   * at most `maxPoints` rows. The storage tier is picked from the range unless
+   * one is requested. LTTB keeps the rows that best preserve the shape of the
+   * first requested field; average collapses equal-sized groups of rows into
+   * their mean.
    */
-  async getHistoricalData(timeframe: '24h' | '7d' | '30d'): Promise<HistoryEntry[]> {
-    const history = await FileManager.readJson<HistoryEntry[]>('history.json') || [];
+  async queryHistory(query: HistoryQuery): Promise<HistoryQueryResult> {
+    const fromTime = query.from.getTime();
+    const toTime = query.to.getTime();
+    const { tier, rows } = query.tier
+      ? { tier: query.tier, rows: await this.getTierRows(query.tier) }
+      : await this.selectTier(fromTime, toTime, query.maxPoints);
+    const samples = rows.filter(row => row.time >= fromTime && row.time <= toTime);
+
+    const project = (entry: HistoryEntry): HistoryPoint => {
+      const point: HistoryPoint = { timestamp: entry.timestamp };
+      for (const field of query.fields) {
+        const value = entry[field];
+        point[field] = typeof value === 'number' && Number.isFinite(value) ? value : null;
+      }
+      return point;
+    };
 
-    const now = new Date();
-    let cutoffDate: Date;
-
-    switch (timeframe) {
-      case '24h':
-        cutoffDate = new Date(now.getTime() - 24 * 60 * 60 * 1000);
-        break;
-      case '7d':
-        cutoffDate = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-        break;
-      case '30d':
-        cutoffDate = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-        break;
-      default:
-        cutoffDate = new Date(now.getTime() - 24 * 60 * 60 * 1000);
+    if (!query.maxPoints || samples.length <= query.maxPoints) {
+      return { tier, data: samples.map(project), source_count: samples.length, downsampled: false };
     }
 
-    return history
-      .filter(entry => new Date(entry.timestamp) >= cutoffDate)
-      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+    if (query.method === 'average') {
+      const data = evenGroups(samples.length, query.maxPoints).map(([start, end]) => {
+        const group = samples.slice(start, end);
+        const meanTime = group.reduce((sum, e) => sum + new Date(e.timestamp).getTime(), 0) / group.length;
+        const point: HistoryPoint = { timestamp: new Date(Math.round(meanTime)).toISOString() };
+        for (const field of query.fields) {
+          const values = group
+            .map(e => e[field])
+            .filter((v): v is number => typeof v === 'number' && Number.isFinite(v));
+          point[field] = values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+        }
+        return point;
+      });
+      return { tier, data, source_count: samples.length, downsampled: true };
+    }
+
+    // LTTB runs on the primary field; rows without it cannot be ranked
+    const primary = query.fields[0];
+    const ranked = samples.filter(e => typeof e[primary] === 'number' && Number.isFinite(e[primary]));
+    const series = toSeries(ranked, e => e[primary] as number);
+    const data = lttbIndices(series, query.maxPoints).map(i => project(ranked[i]));
+    return { tier, data, source_count: samples.length, downsampled: true };
+  }
+
+  /**
+   * OHLC candles for AVGX, WF and WC over [from, to). Sub-hour candles come from
+   * raw samples; hourly and coarser candles are merged from the hourly rollups.
+   */
+  async getOhlcData(interval: OhlcInterval, from: Date, to: Date, fillEmpty: boolean = true): Promise<OhlcBucket[]> {
+    const rows = await this.getTierRows(OHLC_INTERVAL_MS[interval] < ROLLUP_INTERVAL_MS.hourly ? 'raw' : 'hourly');
+
+    const buckets = buildCandles(
+      rows,
+      {
+        avgx: r => r.candles?.avgx_usd ?? r.avgx_usd,
+        wf: r => r.candles?.wf_value ?? r.wf_value,
+        wc: r => r.candles?.wc_value ?? r.wc_value,
+      },
+      OHLC_INTERVAL_MS[interval],
+      from.getTime(),
+      to.getTime(),
+      fillEmpty,
+      r => r.sample_count
+    );
+
+    return buckets.map(bucket => ({
+      timestamp: new Date(bucket.time).toISOString(),
+      sample_count: bucket.sample_count,
+      ...bucket.candles,
+    }));
   }
 
   /**
    * Convert AVGX to all fiat currencies
    */
   async convertToAllCurrencies(): Promise<Array<{ currency: string; name: string; rate: number; avgx_rate: number }>> {
-    const [avgxData, fiatData] = await Promise.all([
-      this.getCurrentAvgx(),
-      fiatApiService.getFiatRatesWithWeights()
-    ]);
+    const snapshot = await this.resolveSnapshot();
 
-    return fiatData.map(fiat => ({
+    return snapshot.fiatBasket.map(fiat => ({
       currency: fiat.code,
       name: fiat.name,
       rate: fiat.rate,
-      avgx_rate: avgxData.avgx_usd * fiat.rate, // 1 AVGX = X currency units
+      avgx_rate: snapshot.avgx_usd * fiat.rate, // 1 AVGX = X currency units
     }));
   }
 
   /**
    * Calculates smoothed values and volatility index according to stability formula
    */
-  private async calculateSmoothedValues(wfRaw: number, wcRaw: number): Promise<SmoothedValues> {
+  private async calculateSmoothedValues(wfRaw: number, wcRaw: number, config: StabilityConfig): Promise<SmoothedValues> {
     try {
       // Get previous smoothed values from storage
-      const history = await this.getSmoothedHistory();
-      const lastSmoothed = history.length > 0 ? history[history.length - 1] : null;
-
-      // Apply EWMA smoothing
-      const wfSmoothed = lastSmoothed 
-        ? this.config.alpha_f * wfRaw + (1 - this.config.alpha_f) * lastSmoothed.wf_smoothed
-        : wfRaw;
-
-      const wcSmoothed = lastSmoothed
-        ? this.config.alpha_c * wcRaw + (1 - this.config.alpha_c) * lastSmoothed.wc_smoothed  
-        : wcRaw;
-
-      // Calculate volatility index σ_t
-      const volatilityIndex = await this.calculateVolatilityIndex(wcSmoothed, history);
-
-      // Apply volatility adjustment to crypto component
-      const wcAdjusted = wcSmoothed * (1 - volatilityIndex);
-
-      return {
-        wf_smoothed: wfSmoothed,
-        wc_smoothed: wcSmoothed,
-        volatility_index: volatilityIndex,
-        wc_adjusted: wcAdjusted
-      };
+      const [history, daily] = await Promise.all([
+        this.getSmoothedHistory(),
+        historyRetention.getRollups('daily')
+      ]);
+      // Volatility is measured on daily closes, so volatility_window counts days whatever the tick interval
+      const dailyCloses = daily
+        .map(row => row.wc_smoothed)
+        .filter((close): close is number => typeof close === 'number');
+      return stability.calculateSmoothedValues(wfRaw, wcRaw, history, config, dailyCloses);
     } catch (error) {
       console.error('Error calculating smoothed values:', error);
       // Fallback to raw values if smoothing fails
@@ -305,63 +629,15 @@ class AvgxCalculatorService {
   }
 
   /**
-   * Calculates volatility index σ_t based on 30-day rolling window
-   */
-  private async calculateVolatilityIndex(wcSmoothed: number, history: any[]): Promise<number> {
-    try {
-      if (history.length < 2) return 0;
-
-      // Get recent WC smoothed values for volatility calculation
-      const recentValues = history
-        .slice(-this.config.volatility_window)
-        .map(h => h.wc_smoothed)
-        .concat([wcSmoothed]);
-
-      if (recentValues.length < 2) return 0;
-
-      // Calculate log returns
-      const logReturns = [];
-      for (let i = 1; i < recentValues.length; i++) {
-        const logReturn = Math.log(recentValues[i] / recentValues[i - 1]);
-        logReturns.push(logReturn);
-      }
-
-      if (logReturns.length === 0) return 0;
-
-      // Calculate standard deviation of log returns
-      const mean = logReturns.reduce((sum, val) => sum + val, 0) / logReturns.length;
-      const variance = logReturns.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / logReturns.length;
-      const stdDev = Math.sqrt(variance);
-
-      // Annualize volatility (assuming daily data points)
-      const annualizedVol = stdDev * Math.sqrt(365);
-
-      // Calculate volatility index: σ_t = min(1, σ_annualized / V_target)
-      const volatilityIndex = Math.min(1, annualizedVol / this.config.v_target);
-
-      return volatilityIndex;
-    } catch (error) {
-      console.error('Error calculating volatility index:', error);
-      return 0;
-    }
-  }
-
-  /**
-   * Applies daily movement clamp to prevent excessive volatility
+   * Applies daily movement clamp to prevent excessive volatility, scaled by
+   * how long ago the last history row was recorded
    */
-  private async applyDailyClamp(avgxValue: number): Promise<number> {
+  private async applyDailyClamp(avgxValue: number, config: StabilityConfig): Promise<number> {
     try {
       const history = await this.getAvgxHistory();
-      if (history.length === 0) return avgxValue;
-
-      const lastAvgx = history[history.length - 1].avgx_usd;
-      const maxChange = lastAvgx * this.config.clamp_percent;
-
-      // Clamp the change to ±1.5% per day
-      const change = avgxValue - lastAvgx;
-      const clampedChange = Math.max(-maxChange, Math.min(maxChange, change));
-
-      return lastAvgx + clampedChange;
+      const last = history[history.length - 1];
+      const elapsedMs = last ? Date.now() - new Date(last.timestamp).getTime() : DAY_MS;
+      return stability.applyDailyClamp(avgxValue, last?.avgx_usd, config, elapsedMs);
     } catch (error) {
       console.error('Error applying daily clamp:', error);
       return avgxValue;
@@ -371,26 +647,23 @@ class AvgxCalculatorService {
   /**
    * Stores smoothed values for historical tracking
    */
-  private async storeSmoothedValues(smoothedValues: SmoothedValues, avgxValue: number): Promise<void> {
+  private async storeSmoothedValues(snapshot: AvgxSnapshot): Promise<void> {
     try {
-      const timestamp = new Date().toISOString();
       const data = {
-        timestamp,
-        wf_smoothed: smoothedValues.wf_smoothed,
-        wc_smoothed: smoothedValues.wc_smoothed,
-        volatility_index: smoothedValues.volatility_index,
-        wc_adjusted: smoothedValues.wc_adjusted,
-        avgx_usd: avgxValue
+        timestamp: snapshot.timestamp,
+        wf_smoothed: snapshot.wf_value,
+        wc_smoothed: snapshot.wc_smoothed,
+        volatility_index: snapshot.volatility_index,
+        wc_adjusted: snapshot.wc_value,
+        avgx_usd: snapshot.avgx_usd,
+        wf_raw: snapshot.wf_raw,
+        wc_raw: snapshot.wc_raw,
+        basket_revisions: snapshot.basket_revisions,
+        config_version: snapshot.config_version
       };
 
-      // Store in history file (keep last 100 entries)
-      const history = await this.getSmoothedHistory();
-      history.push(data);
-
-      // Keep only recent entries
-      const recentHistory = history.slice(-100);
-
-      await FileManager.writeJson('smoothed_history.json', recentHistory);
+      // Store in history file; expired rows are pruned by the retention service
+      await FileManager.updateJson<any[]>('smoothed_history.json', history => [...(history || []), data]);
     } catch (error) {
       console.error('Error storing smoothed values:', error);
     }
@@ -429,36 +702,26 @@ class AvgxCalculatorService {
     volatility_index: number;
     wc_adjusted: number;
     avgx_final: number;
+    divisors: Record<BasketKind, number>;
     config: StabilityConfig;
+    config_version: number;
     timestamp: string;
   }> {
     try {
-      const [fiatRates, cryptoPrices] = await Promise.all([
-        fiatApiService.getFiatRatesWithWeights(),
-        cryptoApiService.getCryptoPricesWithWeights()
-      ]);
-
-      // Calculate raw weighted baskets
-      const wfRaw = fiatRates.reduce((sum, fiat) => sum + (fiat.rate * fiat.weight), 0);
-      const wcRaw = cryptoPrices.reduce((sum, crypto) => sum + (crypto.price * crypto.weight), 0);
-
-      // Apply stability formula
-      const smoothedValues = await this.calculateSmoothedValues(wfRaw, wcRaw);
-
-      // Calculate final AVGX
-      const avgxValue = Math.sqrt(smoothedValues.wf_smoothed * smoothedValues.wc_adjusted);
-      const clampedAvgxValue = await this.applyDailyClamp(avgxValue);
+      const snapshot = await this.resolveSnapshot();
 
       return {
-        wf_raw: wfRaw,
-        wf_smoothed: smoothedValues.wf_smoothed,
-        wc_raw: wcRaw,
-        wc_smoothed: smoothedValues.wc_smoothed,
-        volatility_index: smoothedValues.volatility_index,
-        wc_adjusted: smoothedValues.wc_adjusted,
-        avgx_final: clampedAvgxValue,
-        config: this.config,
-        timestamp: new Date().toISOString()
+        wf_raw: snapshot.wf_raw,
+        wf_smoothed: snapshot.wf_value,
+        wc_raw: snapshot.wc_raw,
+        wc_smoothed: snapshot.wc_smoothed,
+        volatility_index: snapshot.volatility_index,
+        wc_adjusted: snapshot.wc_value,
+        avgx_final: snapshot.avgx_usd,
+        divisors: snapshot.divisors,
+        config: snapshot.stability_config,
+        config_version: snapshot.config_version,
+        timestamp: snapshot.timestamp
       };
     } catch (error) {
       console.error('Error getting debug info:', error);
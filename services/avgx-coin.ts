@@ -1,15 +1,96 @@
-import { avgxCoinTransactions, avgxReserves, pegData, type InsertTransaction, type InsertReserves, type InsertPegData } from "@shared/schema";
-import { storage } from "../storage";
+import { avgxCoinTransactions, avgxReserves, pegData, type AvgxTransaction, type InsertTransaction, type InsertReserves, type InsertPegData } from "@shared/schema";
+import { storage, type TransactionQuery, type TransactionSortField } from "../storage";
 import { avgxCalculatorService } from "./avgx-calculator";
+import { simulatedTransactionStore, type SimulatedTransaction } from "./simulated-transactions";
+import { feeScheduleService } from "./fee-schedule";
+import { transactionHash } from "../utils/tx-hash";
+import { addCollectedFee, type CollectedFees, type FeeBreakdown } from "../utils/fees";
+import { HttpError } from "../utils/http-error";
+import type { Publication } from "./data-quality";
+
+// Raised when a quote is requested while the index publication is halted
+export class IndexHaltedError extends HttpError {
+  name = 'IndexHaltedError';
+
+  constructor(readonly publication: Publication) {
+    super(`AVGX index is halted: ${publication.reasons.join('; ') || 'insufficient fresh data'}`, 503, [], { publication });
+  }
+}
+
+// Raised for mints and redeems that cannot be carried out
+export class CoinLedgerError extends HttpError {
+  name = 'CoinLedgerError';
+}
+
+// Chains the coin is issued on, by the names clients use
+export const COIN_CHAINS: Record<string, number> = {
+  ethereum: 1,
+  sepolia: 11155111,
+  polygon: 137,
+  amoy: 80002,
+};
+
+export type LedgerAction = 'mint' | 'redeem';
+
+// Who a quote is for and where; the chain picks the network fee, the wallet its volume tier
+export interface CoinQuoteOptions {
+  chain?: string;
+  walletAddress?: string;
+}
+
+export interface TransactionListOptions {
+  types?: LedgerAction[];
+  chains?: string[];
+  from?: Date;
+  to?: Date;
+  sort: TransactionSortField;
+  order: 'asc' | 'desc';
+  limit: number;
+  cursor?: string; // next_cursor of the previous page
+}
+
+// Opaque position in a listing; only valid for the sort it was issued under
+interface TransactionCursor {
+  sort: TransactionSortField;
+  order: 'asc' | 'desc';
+  key: string;
+  id: string;
+}
+
+export type TransactionLookup =
+  | { source: 'ledger'; transaction: any }
+  | { source: 'simulation'; transaction: SimulatedTransaction };
+
+// AVGX held according to a wallet's transactions: confirmed mints less confirmed redeems
+function ledgerBalance(transactions: AvgxTransaction[]): number {
+  return transactions
+    .filter(tx => tx.status === 'confirmed')
+    .reduce((sum, tx) => {
+      if (tx.type === 'mint') return sum + parseFloat(tx.amount);
+      if (tx.type === 'redeem') return sum - parseFloat(tx.amount);
+      return sum;
+    }, 0);
+}
 
 export class AvgxCoinService {
+  // Current index for pricing a mint or redeem; refuses while the index is halted
+  private async getQuotableIndex() {
+    const avgxData = await avgxCalculatorService.getCurrentAvgx();
+    if (avgxData.publication.state === 'halted') {
+      throw new IndexHaltedError(avgxData.publication);
+    }
+    return avgxData;
+  }
+
   // Get current peg status and reserves
   async getPegStatus() {
     const avgxIndex = await avgxCalculatorService.getCurrentAvgx();
     const reserves = await storage.getLatestReserves();
     
-    const pegDeviation = reserves ? 
-      ((parseFloat(reserves.backingValue) - avgxIndex.avgx_usd) / avgxIndex.avgx_usd * 100) : 0;
+    // Backing per coin in circulation against the index it is pegged to
+    const supply = parseFloat(reserves?.totalSupply || '0');
+    const pegDeviation = reserves && supply > 0 ?
+      ((parseFloat(reserves.backingValue) / supply - avgxIndex.avgx_usd) / avgxIndex.avgx_usd * 100) : 0;
 
     return {
       avgxIndex: avgxIndex.avgx_usd,
@@ -19,35 +100,60 @@ export class AvgxCoinService {
       backingValue: reserves?.backingValue || "0",
       collateralRatio: reserves?.collateralRatio || "1.0000",
       pegHealth: Math.abs(pegDeviation) < 0.5 ? "healthy" : "needs_rebalance",
+      publicationState: avgxIndex.publication.state,
+      publicationReasons: avgxIndex.publication.reasons,
       timestamp: new Date().toISOString()
     };
   }
 
-  // Calculate mint amount for a given USD value
-  async calculateMintAmount(usdValue: number) {
-    const avgxData = await avgxCalculatorService.getCurrentAvgx();
+  // Calculate mint amount for a given USD value; the protocol fee is paid on top
+  async calculateMintAmount(usdValue: number, options: CoinQuoteOptions = {}) {
+    const avgxData = await this.getQuotableIndex();
     const avgxAmount = usdValue / avgxData.avgx_usd;
+    const fees = await feeScheduleService.quote({
+      action: 'mint',
+      chain: options.chain ?? 'sepolia',
+      amountUsd: usdValue,
+      walletAddress: options.walletAddress,
+    });
     
     return {
       avgxAmount,
       avgxPrice: avgxData.avgx_usd,
+      publicationState: avgxData.publication.state,
       usdValue,
-      fee: usdValue * 0.003, // 0.3% fee
-      total: usdValue + (usdValue * 0.003)
+      fee: fees.protocolFeeUsd,
+      networkFee: fees.networkFeeUsd,
+      total: usdValue + fees.protocolFeeUsd,
+      fees
     };
   }
 
-  // Calculate redeem value for a given AVGX amount
-  async calculateRedeemValue(avgxAmount: number) {
-    const avgxData = await avgxCalculatorService.getCurrentAvgx();
+  // Calculate redeem value for a given AVGX amount; the protocol fee comes out of it
+  async calculateRedeemValue(avgxAmount: number, options: CoinQuoteOptions = {}) {
+    const avgxData = await this.getQuotableIndex();
     const usdValue = avgxAmount * avgxData.avgx_usd;
+    const fees = await feeScheduleService.quote({
+      action: 'redeem',
+      chain: options.chain ?? 'sepolia',
+      amountUsd: usdValue,
+      walletAddress: options.walletAddress,
+    });
+
+    const netValue = usdValue - fees.protocolFeeUsd;
+    if (netValue <= 0) {
+      throw new CoinLedgerError(`Redeem value $${usdValue.toFixed(2)} does not cover the $${fees.protocolFeeUsd.toFixed(2)} fee`);
+    }
     
     return {
       avgxAmount,
       avgxPrice: avgxData.avgx_usd,
+      publicationState: avgxData.publication.state,
       usdValue,
-      fee: usdValue * 0.003, // 0.3% fee
-      netValue: usdValue - (usdValue * 0.003)
+      fee: fees.protocolFeeUsd,
+      networkFee: fees.networkFeeUsd,
+      netValue,
+      fees
     };
   }
 
@@ -56,20 +162,199 @@ export class AvgxCoinService {
     return await storage.createTransaction(transaction);
   }
 
+  // Mint AVGX for a USD deposit and record it in the ledger
+  async mint(walletAddress: string, usdValue: number, chain: string) {
+    const chainId = this.chainIdFor(chain);
+
+    const quote = await this.calculateMintAmount(usdValue, { chain, walletAddress });
+    const { transaction, reserves } = await this.applyToLedger('mint', walletAddress, chainId, quote.avgxAmount, quote.avgxPrice, usdValue, quote.fees);
+    console.log(`Minted ${quote.avgxAmount.toFixed(6)} AVGX for $${usdValue} to ${walletAddress} on ${chain}`);
+    return { transaction, quote, reserves };
+  }
+
+  // Redeem AVGX held by a wallet for its USD value and record it in the ledger
+  async redeem(walletAddress: string, avgxAmount: number, chain: string) {
+    const chainId = this.chainIdFor(chain);
+
+    // Checked up front to fail fast, and again under the ledger lock where it counts
+    const balance = await this.getWalletBalance(walletAddress);
+    if (avgxAmount > balance + 1e-9) {
+      throw new CoinLedgerError(`Insufficient AVGX balance: ${balance.toFixed(8)} available`, 409);
+    }
+
+    const quote = await this.calculateRedeemValue(avgxAmount, { chain, walletAddress });
+    const { transaction, reserves } = await this.applyToLedger('redeem', walletAddress, chainId, avgxAmount, quote.avgxPrice, quote.usdValue, quote.fees);
+    console.log(`Redeemed ${avgxAmount} AVGX for $${quote.netValue.toFixed(2)} from ${walletAddress} on ${chain}`);
+    return { transaction, quote, reserves };
+  }
+
+  // AVGX a wallet holds according to the ledger: confirmed mints less confirmed redeems
+  async getWalletBalance(walletAddress: string): Promise<number> {
+    return ledgerBalance(await storage.getTransactionHistory(walletAddress, Number.MAX_SAFE_INTEGER));
+  }
+
+  private chainIdFor(chain: string): number {
+    // Own keys only, so names like "constructor" are not chains
+    const chainId = Object.hasOwn(COIN_CHAINS, chain) ? COIN_CHAINS[chain] : undefined;
+    if (chainId === undefined) {
+      throw new CoinLedgerError(`Unsupported chain ${chain}; expected one of ${Object.keys(COIN_CHAINS).join(', ')}`);
+    }
+    return chainId;
+  }
+
+  /**
+   * Records the transaction and the reserves after it in one write, built on
+   * the reserves and balance read under the same lock. Backing moves by the
+   * USD value at the index price; fees are not collateral, and the protocol
+   * fee is added to the collected fees carried in the fiat reserves instead.
+   * The hash covers the reserves snapshot the entry was applied to, so
+   * entries with otherwise equal contents still hash apart.
+   */
+  private async applyToLedger(
+    type: LedgerAction,
+    walletAddress: string,
+    chainId: number,
+    avgxAmount: number,
+    avgxPrice: number,
+    usdValue: number,
+    fees: FeeBreakdown
+  ) {
+    return storage.createTransactionWithReserves(walletAddress, (current, walletTransactions) => {
+      if (type === 'redeem') {
+        const balance = ledgerBalance(walletTransactions);
+        if (avgxAmount > balance + 1e-9) {
+          throw new CoinLedgerError(`Insufficient AVGX balance: ${balance.toFixed(8)} available`, 409);
+        }
+      }
+
+      const supply = parseFloat(current?.totalSupply || '0');
+      const backing = parseFloat(current?.backingValue || '0');
+
+      const sign = type === 'mint' ? 1 : -1;
+      const totalSupply = Math.max(0, supply + sign * avgxAmount);
+      const backingValue = Math.max(0, backing + sign * usdValue);
+      const collateralRatio = totalSupply > 0 ? backingValue / (totalSupply * avgxPrice) : 1;
+      const fiatReserves = current?.fiatReserves ?? {};
+
+      const contents = {
+        walletAddress,
+        type,
+        amount: avgxAmount.toFixed(8),
+        avgxPrice: avgxPrice.toFixed(8),
+        chainId,
+      };
+
+      return {
+        transaction: {
+          ...contents,
+          txHash: transactionHash({ ...contents, previousReserves: current?.id ?? null }),
+          status: 'confirmed',
+        },
+        reserves: {
+          totalSupply: totalSupply.toFixed(8),
+          backingValue: backingValue.toFixed(8),
+          collateralRatio: collateralRatio.toFixed(4),
+          fiatReserves: { ...fiatReserves, collectedFees: addCollectedFee(fiatReserves.collectedFees, fees) },
+          cryptoReserves: current?.cryptoReserves ?? {},
+        },
+      };
+    });
+  }
+
+  /**
+   * Adds the protocol fee of a trade made outside the ledger, such as an
+   * executed swap, to the collected fees; supply and backing carry over
+   */
+  async collectFee(fees: FeeBreakdown) {
+    return storage.appendReserves(current => {
+      const fiatReserves = current?.fiatReserves ?? {};
+      return {
+        totalSupply: current?.totalSupply ?? '0.00000000',
+        backingValue: current?.backingValue ?? '0.00000000',
+        collateralRatio: current?.collateralRatio ?? '1.0000',
+        fiatReserves: { ...fiatReserves, collectedFees: addCollectedFee(fiatReserves.collectedFees, fees) },
+        cryptoReserves: current?.cryptoReserves ?? {},
+      };
+    });
+  }
+
   // Get transaction history for a wallet
   async getTransactionHistory(walletAddress: string, limit: number = 50) {
     return await storage.getTransactionHistory(walletAddress, limit);
   }
 
+  // A page of a wallet's ledger transactions, filtered and sorted
+  async listTransactions(walletAddress: string, options: TransactionListOptions) {
+    let after: TransactionQuery['after'];
+    if (options.cursor) {
+      const cursor = this.decodeCursor(options.cursor);
+      if (cursor.sort !== options.sort || cursor.order !== options.order) {
+        throw new CoinLedgerError('Cursor was issued for a different sort order');
+      }
+      after = { key: cursor.key, id: cursor.id };
+    }
+
+    // One extra row tells whether another page follows
+    const rows = await storage.queryTransactions({
+      walletAddress,
+      types: options.types,
+      chainIds: options.chains?.map(chain => this.chainIdFor(chain)),
+      from: options.from,
+      to: options.to,
+      sort: options.sort,
+      order: options.order,
+      after,
+      limit: options.limit + 1,
+    });
+
+    const transactions = rows.slice(0, options.limit);
+    const last = transactions[transactions.length - 1];
+    const nextCursor = rows.length > options.limit && last
+      ? this.encodeCursor({
+        sort: options.sort,
+        order: options.order,
+        key: options.sort === 'amount' ? String(last.amount) : new Date(last.timestamp).toISOString(),
+        id: last.id,
+      })
+      : null;
+
+    return { transactions, next_cursor: nextCursor };
+  }
+
+  // A recorded transaction or a simulation by its hash
+  async lookupTransaction(hash: string): Promise<TransactionLookup | null> {
+    const normalized = hash.toLowerCase();
+    const transaction = await storage.getTransactionByHash(normalized);
+    if (transaction) return { source: 'ledger', transaction };
+
+    const simulation = await simulatedTransactionStore.get(normalized);
+    return simulation ? { source: 'simulation', transaction: simulation } : null;
+  }
+
+  private encodeCursor(cursor: TransactionCursor): string {
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+  }
+
+  private decodeCursor(encoded: string): TransactionCursor {
+    try {
+      const cursor = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+      if (typeof cursor?.key === 'string' && typeof cursor?.id === 'string') return cursor;
+    } catch {
+      // Reported below
+    }
+    throw new CoinLedgerError('Invalid cursor');
+  }
+
   // Update reserves after transaction
   async updateReserves(reserves: InsertReserves) {
     return await storage.updateReserves(reserves);
   }
 
-  // Get reserve breakdown showing backing assets
+  // Get reserve breakdown showing backing assets, and the fees collected apart from them
   async getReserveBreakdown() {
     const reserves = await storage.getLatestReserves();
     const breakdown = await avgxCalculatorService.getDetailedBreakdown();
+    const noFees: CollectedFees = { totalUsd: 0, byAction: {}, byChain: {} };
     
     if (!reserves) {
       return {
@@ -77,51 +362,46 @@ export class AvgxCoinService {
         backingValue: "0",
         fiatReserves: {},
         cryptoReserves: {},
+        collectedFees: noFees,
         breakdown: breakdown
       };
     }
 
+    const { collectedFees, ...fiatReserves } = reserves.fiatReserves ?? {};
     return {
       totalSupply: reserves.totalSupply,
       backingValue: reserves.backingValue,
       collateralRatio: reserves.collateralRatio,
-      fiatReserves: reserves.fiatReserves,
+      fiatReserves,
       cryptoReserves: reserves.cryptoReserves,
+      collectedFees: collectedFees ?? noFees,
       breakdown: breakdown
     };
   }
 
   // Simulate trading operations for demo
   async simulateTrade(type: 'mint' | 'redeem', amount: number, chain: string) {
-    const avgxData = await avgxCalculatorService.getCurrentAvgx();
-    
-    let avgxAmount: number;
-    let usdValue: number;
-    
-    if (type === 'mint') {
-      // amount is USD value to mint
-      avgxAmount = amount / avgxData.avgx_usd;
-      usdValue = amount;
-    } else {
-      // amount is AVGX to redeem
-      avgxAmount = amount;
-      usdValue = amount * avgxData.avgx_usd;
-    }
+    // amount is the USD value to mint, or the AVGX to redeem
+    const quote = type === 'mint'
+      ? await this.calculateMintAmount(amount, { chain })
+      : await this.calculateRedeemValue(amount, { chain });
 
-    const fee = usdValue * 0.003; // 0.3% fee
-    const transactionHash = `0x${Math.random().toString(16).substring(2, 66)}`;
-
-    return {
-      transactionHash,
+    const trade = {
       type,
-      avgxAmount,
-      usdValue,
-      fee,
-      avgxPrice: avgxData.avgx_usd,
+      avgxAmount: quote.avgxAmount,
+      usdValue: quote.usdValue,
+      fee: quote.fee,
+      fees: quote.fees,
+      avgxPrice: quote.avgxPrice,
+      publicationState: quote.publicationState,
       chain,
       status: 'confirmed',
       timestamp: new Date().toISOString()
     };
+
+    // Recorded so the hash can be looked up later
+    const simulation = await simulatedTransactionStore.record('trade', trade);
+    return { transactionHash: simulation.hash, ...trade };
   }
 
   // Get trading statistics
@@ -0,0 +1,283 @@
+import { FileManager } from '../utils/file-manager';
+import { evenGroups } from '../utils/series';
+import {
+  applyDailyClamp,
+  calculateSmoothedValues,
+  periodsPerYear,
+  type SmoothedSample,
+  type StabilityConfig,
+} from '../utils/stability';
+import { basketConfigService } from './basket-config';
+import type { CryptoConfig } from './crypto-api';
+import type { FiatConfig } from './fiat-api';
+import { stabilityConfigService } from './stability-config';
+
+// One tick of basket levels fed to the stability formula
+export interface BacktestPoint {
+  timestamp: string;
+  wf_raw: number;
+  wc_raw: number;
+}
+
+// Imported tick: either basket levels or per-constituent prices weighted with the active baskets
+export interface ImportedPoint {
+  timestamp: string;
+  wf_raw?: number;
+  wc_raw?: number;
+  fiat_rates?: Record<string, number>;   // Units per USD by currency code
+  crypto_prices?: Record<string, number>; // USD price by asset id
+}
+
+export interface BacktestScenario {
+  name?: string;
+  config?: Partial<StabilityConfig>; // Merged over the live config
+}
+
+export interface BacktestOptions {
+  history_interval_ms?: number; // Spacing of the rows the daily clamp compares against (default: scheduler's)
+  include_path?: boolean;
+  max_points?: number;          // Path points per scenario (default: 500)
+}
+
+export interface PathMetrics {
+  total_return: number;        // Percent
+  realized_volatility: number; // Annualized standard deviation of log returns
+  max_drawdown: number;        // Largest peak-to-trough decline, percent
+}
+
+export interface ScenarioResult {
+  name: string;
+  config: StabilityConfig;
+  metrics: PathMetrics & {
+    tracking_error: number;      // Annualized standard deviation of log-return differences vs raw
+    mean_abs_deviation: number;  // Mean |AVGX / raw - 1|, percent
+    clamped_ticks: number;       // Ticks where the daily clamp changed the value
+  };
+  path?: Array<{ timestamp: string; avgx_usd: number; raw: number; volatility_index: number }>;
+}
+
+export interface BacktestReport {
+  from: string;
+  to: string;
+  points: number;
+  periods_per_year: number;
+  raw: PathMetrics; // Unsmoothed sqrt(WF·WC) over the same series
+  scenarios: ScenarioResult[];
+}
+
+const DEFAULT_PATH_POINTS = 500;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function logReturns(values: number[]): number[] {
+  const returns: number[] = [];
+  for (let i = 1; i < values.length; i++) {
+    returns.push(Math.log(values[i] / values[i - 1]));
+  }
+  return returns;
+}
+
+function stdDev(values: number[]): number {
+  if (values.length < 2) return 0;
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1));
+}
+
+function maxDrawdown(values: number[]): number {
+  let peak = -Infinity;
+  let worst = 0;
+  for (const value of values) {
+    peak = Math.max(peak, value);
+    worst = Math.max(worst, (peak - value) / peak);
+  }
+  return worst * 100;
+}
+
+function pathMetrics(values: number[], periodsPerYear: number): PathMetrics {
+  return {
+    total_return: values.length > 1 ? (values[values.length - 1] / values[0] - 1) * 100 : 0,
+    realized_volatility: stdDev(logReturns(values)) * Math.sqrt(periodsPerYear),
+    max_drawdown: maxDrawdown(values),
+  };
+}
+
+/**
+ * Replays basket levels through the same stability-formula functions the live
+ * calculator uses, once per candidate config, and compares each resulting
+ * AVGX path with the raw sqrt(WF·WC) index
+ */
+class BacktestService {
+  /**
+   * Raw basket levels recorded by the scheduler (smoothed_history.json rows
+   * written since raw levels were stored with them)
+   */
+  async loadStoredSeries(from?: Date, to?: Date): Promise<BacktestPoint[]> {
+    const rows = await FileManager.readJson<any[]>('smoothed_history.json') || [];
+    return this.normalize(rows
+      .filter(row => Number.isFinite(row.wf_raw) && Number.isFinite(row.wc_raw))
+      .map(row => ({ timestamp: row.timestamp, wf_raw: row.wf_raw, wc_raw: row.wc_raw })), from, to);
+  }
+
+  /**
+   * Turns imported ticks into basket levels. Price maps are weighted with the
+   * active baskets; a constituent missing from a tick keeps its last price and
+   * ticks before every constituent has been seen are skipped.
+   */
+  async importSeries(points: ImportedPoint[], from?: Date, to?: Date): Promise<BacktestPoint[]> {
+    const needsBaskets = points.some(p => p.wf_raw === undefined || p.wc_raw === undefined);
+    const [fiat, crypto] = needsBaskets
+      ? await Promise.all([basketConfigService.getBasket('fiat'), basketConfigService.getBasket('crypto')])
+      : [null, null];
+
+    const lastFiat = new Map<string, number>([['USD', 1]]);
+    const lastCrypto = new Map<string, number>();
+    const level = (weights: Array<{ key: string; weight: number }>, prices: Map<string, number>) => {
+      let sum = 0;
+      for (const { key, weight } of weights) {
+        const price = prices.get(key);
+        if (price === undefined) return undefined;
+        sum += price * weight;
+      }
+      return sum;
+    };
+
+    const fiatWeights = (fiat?.constituents as FiatConfig[] | undefined)?.map(c => ({ key: c.code, weight: c.weight })) ?? [];
+    const cryptoWeights = (crypto?.constituents as CryptoConfig[] | undefined)?.map(c => ({ key: c.id, weight: c.weight })) ?? [];
+
+    const sorted = [...points].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+    const series: BacktestPoint[] = [];
+    for (const point of sorted) {
+      Object.entries(point.fiat_rates || {}).forEach(([code, rate]) => lastFiat.set(code, rate));
+      Object.entries(point.crypto_prices || {}).forEach(([id, price]) => lastCrypto.set(id, price));
+
+      const wfRaw = point.wf_raw ?? level(fiatWeights, lastFiat);
+      const wcRaw = point.wc_raw ?? level(cryptoWeights, lastCrypto);
+      if (wfRaw !== undefined && wcRaw !== undefined) {
+        series.push({ timestamp: point.timestamp, wf_raw: wfRaw, wc_raw: wcRaw });
+      }
+    }
+
+    return this.normalize(series, from, to);
+  }
+
+  private normalize(points: BacktestPoint[], from?: Date, to?: Date): BacktestPoint[] {
+    return points
+      .filter(p => {
+        const time = new Date(p.timestamp).getTime();
+        return Number.isFinite(time)
+          && (!from || time >= from.getTime())
+          && (!to || time <= to.getTime())
+          && p.wf_raw > 0 && p.wc_raw > 0;
+      })
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  }
+
+  async run(series: BacktestPoint[], scenarios: BacktestScenario[], options: BacktestOptions = {}): Promise<BacktestReport> {
+    if (series.length < 2) {
+      throw new Error('Backtest needs at least two points');
+    }
+
+    const perYear = periodsPerYear(series.map(p => new Date(p.timestamp).getTime()));
+    const raw = series.map(p => Math.sqrt(p.wf_raw * p.wc_raw));
+    const { config: liveConfig } = await stabilityConfigService.getActive();
+    const historyInterval = options.history_interval_ms
+      ?? parseInt(process.env.AVGX_HISTORY_INTERVAL_MS || '3600000', 10);
+
+    return {
+      from: series[0].timestamp,
+      to: series[series.length - 1].timestamp,
+      points: series.length,
+      periods_per_year: perYear,
+      raw: pathMetrics(raw, perYear),
+      scenarios: scenarios.map((scenario, i) => this.replay(
+        series,
+        raw,
+        scenario.name || `scenario_${i + 1}`,
+        { ...liveConfig, ...scenario.config },
+        historyInterval,
+        perYear,
+        options
+      )),
+    };
+  }
+
+  /**
+   * One pass of the scheduler's pipeline: smoothing against the previous
+   * tick with volatility over the daily closes, clamping against the last history row, and a new history row on
+   * the first tick of each history interval
+   */
+  private replay(
+    series: BacktestPoint[],
+    raw: number[],
+    name: string,
+    config: StabilityConfig,
+    historyInterval: number,
+    perYear: number,
+    options: BacktestOptions
+  ): ScenarioResult {
+    let lastSmoothed: SmoothedSample | undefined;
+    const dailyCloses: number[] = [];
+    let currentDay: number | null = null;
+    const avgx: number[] = [];
+    const volatility: number[] = [];
+    let lastHistoryAvgx: number | undefined;
+    let lastHistoryTime = 0;
+    let lastBucket: number | null = null;
+    let clampedTicks = 0;
+
+    for (const point of series) {
+      const time = new Date(point.timestamp).getTime();
+      // The previous tick closed its UTC day when this one starts a new one, as the daily rollups record it
+      const day = Math.floor(time / DAY_MS);
+      if (currentDay !== null && day !== currentDay && lastSmoothed) {
+        dailyCloses.push(lastSmoothed.wc_smoothed);
+        if (dailyCloses.length > config.volatility_window) dailyCloses.shift();
+      }
+      currentDay = day;
+
+      const smoothed = calculateSmoothedValues(point.wf_raw, point.wc_raw, lastSmoothed ? [lastSmoothed] : [], config, dailyCloses);
+      const unclamped = Math.sqrt(smoothed.wf_smoothed * smoothed.wc_adjusted);
+      const value = applyDailyClamp(unclamped, lastHistoryAvgx, config, time - lastHistoryTime);
+      if (value !== unclamped) clampedTicks++;
+
+      lastSmoothed = { wf_smoothed: smoothed.wf_smoothed, wc_smoothed: smoothed.wc_smoothed };
+
+      const bucket = Math.floor(time / historyInterval);
+      if (bucket !== lastBucket) {
+        lastHistoryAvgx = value;
+        lastHistoryTime = time;
+        lastBucket = bucket;
+      }
+
+      avgx.push(value);
+      volatility.push(smoothed.volatility_index);
+    }
+
+    const avgxReturns = logReturns(avgx);
+    const rawReturns = logReturns(raw);
+    const result: ScenarioResult = {
+      name,
+      config,
+      metrics: {
+        ...pathMetrics(avgx, perYear),
+        tracking_error: stdDev(avgxReturns.map((r, i) => r - rawReturns[i])) * Math.sqrt(perYear),
+        mean_abs_deviation: (avgx.reduce((sum, v, i) => sum + Math.abs(v / raw[i] - 1), 0) / avgx.length) * 100,
+        clamped_ticks: clampedTicks,
+      },
+    };
+
+    if (options.include_path) {
+      const groups = evenGroups(series.length, options.max_points ?? DEFAULT_PATH_POINTS);
+      // Last tick of each group, so the path always ends on the final value
+      result.path = groups.map(([, end]) => ({
+        timestamp: series[end - 1].timestamp,
+        avgx_usd: avgx[end - 1],
+        raw: raw[end - 1],
+        volatility_index: volatility[end - 1],
+      }));
+    }
+
+    return result;
+  }
+}
+
+export const backtestService = new BacktestService();
@@ -0,0 +1,602 @@
+import { FileManager } from '../utils/file-manager';
+import { HttpError } from '../utils/http-error';
+import { SerialQueue } from '../utils/serial-queue';
+import { cryptoApiService, type CryptoConfig, type CryptoData } from './crypto-api';
+import { fiatApiService, type FiatConfig, type FiatData } from './fiat-api';
+import { indexLinkingService } from './index-linking';
+
+export type BasketKind = 'fiat' | 'crypto';
+
+export const BASKET_KINDS: BasketKind[] = ['fiat', 'crypto'];
+
+export type BasketConstituent = FiatConfig | CryptoConfig;
+
+export interface BasketDiff {
+  added: BasketConstituent[];
+  removed: BasketConstituent[];
+  reweighted: Array<{ key: string; from: number; to: number }>;
+  updated: string[]; // Keys whose name or provider identifiers changed
+}
+
+export interface BasketRevision {
+  revision: number; // Increments per basket, starting at 1
+  basket: BasketKind;
+  author: string;
+  timestamp: string;            // When the revision was recorded
+  effective_at: string;         // When the basket is scheduled to take effect
+  activated_at: string | null;  // When it actually went live, null while scheduled
+  cancelled_at: string | null;
+  cancelled_by: string | null;
+  comment: string | null;
+  diff: BasketDiff;
+  constituents: BasketConstituent[];
+}
+
+export interface BasketSummary {
+  basket: BasketKind;
+  revision: number; // Active revision
+  scheduled: Array<Pick<BasketRevision, 'revision' | 'effective_at' | 'author' | 'comment'>>;
+  weight_sum: number;
+  issues: string[]; // Validation problems with the basket as currently stored
+  constituents: BasketConstituent[];
+}
+
+export interface BasketChangeOptions {
+  author: string;
+  comment?: string;
+  normalize?: boolean; // Rescale the weights not being set proportionally so the basket sums to 1
+  effective_at?: Date; // Schedules the change; immediate when absent or in the past
+}
+
+type RevisionRecord = Record<BasketKind, BasketRevision[]>;
+
+// Raised for requests the basket cannot accept
+export class BasketConfigError extends HttpError {
+  name = 'BasketConfigError';
+}
+
+const BASKET_FILES: Record<BasketKind, string> = {
+  fiat: 'fiats.json',
+  crypto: 'cryptos.json',
+};
+
+const REVISIONS_FILE = 'basket_revisions.json';
+
+// Allowed distance of the weight sum from 1, absorbs float noise in hand-entered weights
+const WEIGHT_SUM_TOLERANCE = 1e-6;
+
+export function constituentKey(basket: BasketKind, constituent: BasketConstituent): string {
+  return basket === 'fiat' ? (constituent as FiatConfig).code : (constituent as CryptoConfig).id;
+}
+
+function weightSum(constituents: BasketConstituent[]): number {
+  return constituents.reduce((sum, c) => sum + c.weight, 0);
+}
+
+/**
+ * Problems that make a basket unacceptable for publication; empty when valid
+ */
+export function validateBasket(basket: BasketKind, constituents: BasketConstituent[]): string[] {
+  const issues: string[] = [];
+
+  if (constituents.length === 0) {
+    issues.push('Basket must contain at least one constituent');
+  }
+
+  const seenKeys = new Set<string>();
+  const seenSymbols = new Set<string>();
+  for (const constituent of constituents) {
+    const key = constituentKey(basket, constituent);
+
+    if (seenKeys.has(key.toLowerCase())) {
+      issues.push(`Duplicate ${basket === 'fiat' ? 'code' : 'id'}: ${key}`);
+    }
+    seenKeys.add(key.toLowerCase());
+
+    if (basket === 'fiat' && !/^[A-Z]{3}$/.test(key)) {
+      issues.push(`Invalid currency code: ${key}`);
+    }
+
+    if (basket === 'crypto') {
+      const symbol = (constituent as CryptoConfig).symbol.toUpperCase();
+      if (seenSymbols.has(symbol)) issues.push(`Duplicate symbol: ${symbol}`);
+      seenSymbols.add(symbol);
+    }
+
+    if (!Number.isFinite(constituent.weight) || constituent.weight <= 0 || constituent.weight > 1) {
+      issues.push(`Weight of ${key} must be in (0, 1], got ${constituent.weight}`);
+    }
+  }
+
+  const sum = weightSum(constituents);
+  if (constituents.length > 0 && Math.abs(sum - 1) > WEIGHT_SUM_TOLERANCE) {
+    issues.push(`Weights must sum to 1, got ${sum.toFixed(6)}`);
+  }
+
+  return issues;
+}
+
+function diffBaskets(basket: BasketKind, before: BasketConstituent[], after: BasketConstituent[]): BasketDiff {
+  const beforeByKey = new Map(before.map(c => [constituentKey(basket, c), c]));
+  const afterByKey = new Map(after.map(c => [constituentKey(basket, c), c]));
+  const diff: BasketDiff = { added: [], removed: [], reweighted: [], updated: [] };
+
+  for (const [key, next] of afterByKey) {
+    const previous = beforeByKey.get(key);
+    if (!previous) {
+      diff.added.push(next);
+      continue;
+    }
+    if (previous.weight !== next.weight) {
+      diff.reweighted.push({ key, from: previous.weight, to: next.weight });
+    }
+    const { weight: _previousWeight, ...previousRest } = previous;
+    const { weight: _nextWeight, ...nextRest } = next;
+    if (JSON.stringify(previousRest) !== JSON.stringify(nextRest)) {
+      diff.updated.push(key);
+    }
+  }
+
+  for (const [key, previous] of beforeByKey) {
+    if (!afterByKey.has(key)) diff.removed.push(previous);
+  }
+
+  return diff;
+}
+
+function isEmptyDiff(diff: BasketDiff): boolean {
+  return diff.added.length + diff.removed.length + diff.reweighted.length + diff.updated.length === 0;
+}
+
+/**
+ * Raw basket level as computed by the index: the weighted sum of fiat rates
+ * (USD = 1) or crypto prices. Null when a constituent has no price.
+ */
+function basketLevel(basket: BasketKind, constituents: BasketConstituent[], prices: Map<string, number>): number | null {
+  let level = 0;
+  for (const constituent of constituents) {
+    const key = constituentKey(basket, constituent);
+    const price = basket === 'fiat' && key === 'USD' ? 1 : prices.get(key);
+    if (price === undefined || !Number.isFinite(price) || price <= 0) return null;
+    level += price * constituent.weight;
+  }
+  return level > 0 ? level : null;
+}
+
+// Revisions recorded before scheduling existed took effect when they were recorded
+function withScheduleFields(revision: BasketRevision): BasketRevision {
+  return {
+    ...revision,
+    effective_at: revision.effective_at ?? revision.timestamp,
+    activated_at: revision.activated_at === undefined ? revision.timestamp : revision.activated_at,
+    cancelled_at: revision.cancelled_at ?? null,
+    cancelled_by: revision.cancelled_by ?? null,
+  };
+}
+
+function isPending(revision: BasketRevision): boolean {
+  return revision.activated_at === null && revision.cancelled_at === null;
+}
+
+function scaleWeights(constituents: BasketConstituent[], target: number): BasketConstituent[] {
+  const sum = weightSum(constituents);
+  if (sum <= 0) return constituents;
+  return constituents.map(c => ({ ...c, weight: (c.weight * target) / sum }));
+}
+
+/**
+ * Admin-side management of the fiat and crypto baskets. Every accepted change
+ * is recorded as a numbered revision with its author, diff and effective time.
+ * A revision goes live once its effective time has passed: the basket file is
+ * rewritten, the price services reload and the index divisor is chain-linked
+ * so AVGX does not jump at the switch. Published snapshots carry the active
+ * revision numbers so any index value can be traced back to its basket.
+ */
+class BasketConfigService {
+  private activeRevisions: Record<BasketKind, number> | null = null;
+  // Basket changes, activations and snapshot reads run one at a time
+  private readonly queue = new SerialQueue();
+
+  private async readBasket(basket: BasketKind): Promise<BasketConstituent[]> {
+    return await FileManager.readJson<BasketConstituent[]>(BASKET_FILES[basket]) || [];
+  }
+
+  private async readRevisions(): Promise<RevisionRecord> {
+    const record = await FileManager.readJson<Partial<RevisionRecord>>(REVISIONS_FILE);
+    return {
+      fiat: (record?.fiat || []).map(withScheduleFields),
+      crypto: (record?.crypto || []).map(withScheduleFields),
+    };
+  }
+
+  private async updateRevision(basket: BasketKind, revision: number, changes: Partial<BasketRevision>): Promise<BasketRevision> {
+    let updated: BasketRevision | undefined;
+    await FileManager.updateJson<Partial<RevisionRecord>>(REVISIONS_FILE, current => ({
+      ...current,
+      [basket]: (current?.[basket] || []).map(r => {
+        if (r.revision !== revision) return r;
+        updated = withScheduleFields({ ...r, ...changes });
+        return updated;
+      }),
+    }));
+
+    if (!updated) {
+      throw new BasketConfigError(`Revision ${revision} not found`, 404);
+    }
+    return updated;
+  }
+
+  /**
+   * Records `constituents` as the next revision, diffed against `base`
+   */
+  private async appendRevision(
+    basket: BasketKind,
+    base: BasketConstituent[],
+    constituents: BasketConstituent[],
+    fields: Pick<BasketRevision, 'author' | 'comment' | 'effective_at' | 'activated_at'>
+  ): Promise<BasketRevision> {
+    let appended!: BasketRevision;
+
+    await FileManager.updateJson<Partial<RevisionRecord>>(REVISIONS_FILE, current => {
+      const revisions = current?.[basket] || [];
+      appended = {
+        revision: (revisions[revisions.length - 1]?.revision ?? 0) + 1,
+        basket,
+        timestamp: new Date().toISOString(),
+        cancelled_at: null,
+        cancelled_by: null,
+        ...fields,
+        diff: diffBaskets(basket, base, constituents),
+        constituents,
+      };
+      return { ...current, [basket]: [...revisions, appended] };
+    });
+
+    return appended;
+  }
+
+  /**
+   * Records the stored baskets as revisions if they differ from the active
+   * one, which covers the initial import and edits made to the basket files
+   * by hand. Hand edits are chain-linked at the last baseline prices.
+   */
+  private async syncRevisions(): Promise<Record<BasketKind, number>> {
+    const active = {} as Record<BasketKind, number>;
+
+    for (const basket of BASKET_KINDS) {
+      const constituents = await this.readBasket(basket);
+      const revisions = (await this.readRevisions())[basket];
+      const current = revisions.filter(r => r.activated_at !== null).pop();
+
+      if (current && isEmptyDiff(diffBaskets(basket, current.constituents, constituents))) {
+        active[basket] = current.revision;
+        continue;
+      }
+
+      const now = new Date().toISOString();
+      const comment = current
+        ? `Change to ${BASKET_FILES[basket]} made outside the admin API`
+        : `Initial import of ${BASKET_FILES[basket]}`;
+      const recorded = await this.appendRevision(basket, current?.constituents || [], constituents, {
+        author: 'system',
+        comment,
+        effective_at: now,
+        activated_at: now,
+      });
+      console.log(`Recorded ${basket} basket revision ${recorded.revision}: ${comment}`);
+
+      if (current) {
+        const prices = await this.linkPrices(basket, []);
+        await indexLinkingService.link(
+          basket,
+          current.revision,
+          recorded.revision,
+          basketLevel(basket, current.constituents, prices.prices),
+          basketLevel(basket, constituents, prices.prices),
+          [...prices.estimated]
+        );
+        if (revisions.some(isPending)) {
+          console.warn(`Scheduled ${basket} basket revisions predate this hand edit and will replace it when they take effect`);
+        }
+      }
+
+      active[basket] = recorded.revision;
+    }
+
+    return active;
+  }
+
+  /**
+   * Revision numbers of the baskets currently in effect
+   */
+  async getActiveRevisions(): Promise<Record<BasketKind, number>> {
+    if (!this.activeRevisions) {
+      this.activeRevisions = await this.queue.run(() => this.syncRevisions());
+    }
+    return { ...this.activeRevisions };
+  }
+
+  /**
+   * Runs `fn` while no basket change or activation is in progress, so the
+   * prices and divisors it reads belong to the same basket
+   */
+  async withActiveBaskets<T>(fn: (revisions: Record<BasketKind, number>) => Promise<T>): Promise<T> {
+    await this.getActiveRevisions();
+    return this.queue.run(() => fn({ ...this.activeRevisions! }));
+  }
+
+  async getBasket(basket: BasketKind): Promise<BasketSummary> {
+    const [constituents, active, revisions] = await Promise.all([
+      this.readBasket(basket),
+      this.getActiveRevisions(),
+      this.readRevisions(),
+    ]);
+    return {
+      basket,
+      revision: active[basket],
+      scheduled: revisions[basket].filter(isPending).map(r => ({
+        revision: r.revision,
+        effective_at: r.effective_at,
+        author: r.author,
+        comment: r.comment,
+      })),
+      weight_sum: weightSum(constituents),
+      issues: validateBasket(basket, constituents),
+      constituents,
+    };
+  }
+
+  async getRevisions(basket: BasketKind): Promise<BasketRevision[]> {
+    await this.getActiveRevisions();
+    return (await this.readRevisions())[basket];
+  }
+
+  async getRevision(basket: BasketKind, revision: number): Promise<BasketRevision | null> {
+    return (await this.getRevisions(basket)).find(r => r.revision === revision) ?? null;
+  }
+
+  async addConstituent(basket: BasketKind, constituent: BasketConstituent, options: BasketChangeOptions): Promise<BasketRevision> {
+    return this.change(basket, options, current => {
+      const key = constituentKey(basket, constituent);
+      if (current.some(c => constituentKey(basket, c).toLowerCase() === key.toLowerCase())) {
+        throw new BasketConfigError(`${key} is already in the ${basket} basket`, 409);
+      }
+      const others = options.normalize ? scaleWeights(current, 1 - constituent.weight) : current;
+      return [...others, constituent];
+    });
+  }
+
+  async removeConstituent(basket: BasketKind, key: string, options: BasketChangeOptions): Promise<BasketRevision> {
+    return this.change(basket, options, current => {
+      const remaining = current.filter(c => constituentKey(basket, c) !== key);
+      if (remaining.length === current.length) {
+        throw new BasketConfigError(`${key} is not in the ${basket} basket`, 404);
+      }
+      return options.normalize ? scaleWeights(remaining, 1) : remaining;
+    });
+  }
+
+  /**
+   * Sets new weights for the listed constituents; unlisted ones keep theirs
+   */
+  async reweight(basket: BasketKind, weights: Record<string, number>, options: BasketChangeOptions): Promise<BasketRevision> {
+    return this.change(basket, options, current => {
+      const unknown = Object.keys(weights).filter(key => !current.some(c => constituentKey(basket, c) === key));
+      if (unknown.length > 0) {
+        throw new BasketConfigError(`Not in the ${basket} basket: ${unknown.join(', ')}`, 404);
+      }
+      const listed = (c: BasketConstituent) => weights[constituentKey(basket, c)] !== undefined;
+
+      // Normalizing keeps the requested weights and rescales the rest into the remainder
+      const listedSum = Object.values(weights).reduce((sum, w) => sum + w, 0);
+      const others = current.filter(c => !listed(c));
+      const scaled = new Map((options.normalize ? scaleWeights(others, 1 - listedSum) : others)
+        .map(c => [constituentKey(basket, c), c]));
+
+      return current.map(c => listed(c)
+        ? { ...c, weight: weights[constituentKey(basket, c)] }
+        : scaled.get(constituentKey(basket, c)) as BasketConstituent);
+    });
+  }
+
+  /**
+   * Replaces every weight at once; constituents missing from `weights` are removed
+   */
+  async setWeights(basket: BasketKind, weights: Record<string, number>, options: BasketChangeOptions): Promise<BasketRevision> {
+    return this.change(basket, options, current => {
+      const unknown = Object.keys(weights).filter(key => !current.some(c => constituentKey(basket, c) === key));
+      if (unknown.length > 0) {
+        throw new BasketConfigError(`Not in the ${basket} basket: ${unknown.join(', ')}`, 404);
+      }
+      return current
+        .filter(c => weights[constituentKey(basket, c)] !== undefined)
+        .map(c => ({ ...c, weight: weights[constituentKey(basket, c)] }));
+    });
+  }
+
+  /**
+   * Withdraws a scheduled revision. Only the latest one can be cancelled,
+   * since any later revision was built on top of it.
+   */
+  async cancelScheduled(basket: BasketKind, revision: number, author: string): Promise<BasketRevision> {
+    return this.queue.run(async () => {
+      const revisions = (await this.readRevisions())[basket].filter(r => r.cancelled_at === null);
+      const target = revisions.find(r => r.revision === revision);
+      if (!target) {
+        throw new BasketConfigError(`Revision ${revision} not found`, 404);
+      }
+      if (!isPending(target)) {
+        throw new BasketConfigError(`Revision ${revision} is already active`, 409);
+      }
+      if (revisions[revisions.length - 1] !== target) {
+        throw new BasketConfigError(`Revision ${revision} has later revisions built on it; cancel those first`, 409);
+      }
+
+      console.log(`${author} cancelled scheduled ${basket} basket revision ${revision}`);
+      return this.updateRevision(basket, revision, { cancelled_at: new Date().toISOString(), cancelled_by: author });
+    });
+  }
+
+  /**
+   * Activates every scheduled revision whose effective time has passed.
+   * Called by the index scheduler before each tick.
+   */
+  async activateDue(now: Date = new Date()): Promise<void> {
+    await this.getActiveRevisions();
+    await this.queue.run(() => this.activatePending(now));
+  }
+
+  private async activatePending(now: Date): Promise<void> {
+    const revisions = await this.readRevisions();
+    for (const basket of BASKET_KINDS) {
+      const due = revisions[basket].filter(r => isPending(r) && new Date(r.effective_at).getTime() <= now.getTime());
+      for (const revision of due) {
+        await this.activate(revision);
+      }
+    }
+  }
+
+  /**
+   * Switches the live basket to `revision` and chain-links the divisor. Both
+   * basket levels are taken at the same prices: the latest fetch for the new
+   * basket, the previous fetch for constituents it no longer contains, and the
+   * baseline for anything neither fetch priced.
+   */
+  private async activate(revision: BasketRevision): Promise<void> {
+    const basket = revision.basket;
+    const before = await this.readBasket(basket);
+    const fromRevision = this.activeRevisions![basket];
+    const previousData = basket === 'fiat' ? fiatApiService.getAllFiatRates() : cryptoApiService.getAllCryptoPrices();
+
+    await FileManager.writeJson(BASKET_FILES[basket], revision.constituents);
+
+    let currentData: Array<FiatData | CryptoData> = [];
+    try {
+      if (basket === 'fiat') {
+        await fiatApiService.reloadConfig();
+        currentData = await fiatApiService.getFiatRatesWithWeights();
+      } else {
+        await cryptoApiService.reloadConfig();
+        currentData = await cryptoApiService.getCryptoPricesWithWeights();
+      }
+    } catch (error) {
+      console.error(`Failed to fetch prices for ${basket} basket revision ${revision.revision}, linking at baseline prices:`, error);
+    }
+
+    const prices = await this.linkPrices(basket, [...previousData, ...currentData]);
+    const estimated = [...before, ...revision.constituents]
+      .map(c => constituentKey(basket, c))
+      .filter(key => prices.estimated.has(key));
+
+    await indexLinkingService.link(
+      basket,
+      fromRevision,
+      revision.revision,
+      basketLevel(basket, before, prices.prices),
+      basketLevel(basket, revision.constituents, prices.prices),
+      Array.from(new Set(estimated))
+    );
+
+    await this.updateRevision(basket, revision.revision, { activated_at: new Date().toISOString() });
+    this.activeRevisions![basket] = revision.revision;
+
+    console.log(`${basket} basket revision ${revision.revision} is now active (scheduled for ${revision.effective_at})`);
+  }
+
+  /**
+   * Prices by constituent key from fetched data, later entries winning, with
+   * the baseline filling any gaps
+   */
+  private async linkPrices(
+    basket: BasketKind,
+    data: Array<FiatData | CryptoData>
+  ): Promise<{ prices: Map<string, number>; estimated: Set<string> }> {
+    const baseline = await FileManager.readJson<any>('baseline.json');
+    const baselinePrices: Record<string, number> = (basket === 'fiat' ? baseline?.fiat_rates : baseline?.crypto_prices) || {};
+
+    const prices = new Map<string, number>();
+    const estimated = new Set<string>();
+    for (const [key, price] of Object.entries(baselinePrices)) {
+      prices.set(key, price);
+      estimated.add(key);
+    }
+    for (const entry of data) {
+      const key = constituentKey(basket, entry);
+      prices.set(key, basket === 'fiat' ? (entry as FiatData).rate : (entry as CryptoData).price);
+      estimated.delete(key);
+    }
+
+    return { prices, estimated };
+  }
+
+  /**
+   * Applies `edit` to the latest revision (scheduled or active), validates the
+   * result and checks that every added constituent can be priced, then records
+   * the revision. Changes without a future effective time go live at once.
+   */
+  private change(
+    basket: BasketKind,
+    options: BasketChangeOptions,
+    edit: (current: BasketConstituent[]) => BasketConstituent[]
+  ): Promise<BasketRevision> {
+    return this.queue.run(async () => {
+      // Pick up any hand edits first so the diff covers only this change
+      this.activeRevisions = await this.syncRevisions();
+
+      const latest = (await this.readRevisions())[basket].filter(r => r.cancelled_at === null).pop();
+      const current = latest?.constituents || await this.readBasket(basket);
+      const next = edit(current);
+
+      const issues = validateBasket(basket, next);
+      if (issues.length > 0) {
+        throw new BasketConfigError(`Invalid ${basket} basket`, 400, issues);
+      }
+
+      const diff = diffBaskets(basket, current, next);
+      if (isEmptyDiff(diff)) {
+        throw new BasketConfigError('Change leaves the basket unchanged');
+      }
+
+      const unpriced = await this.findUnpriced(basket, [
+        ...diff.added,
+        ...next.filter(c => diff.updated.includes(constituentKey(basket, c))),
+      ]);
+      if (unpriced.length > 0) {
+        throw new BasketConfigError(
+          `No provider can price ${unpriced.join(', ')}`,
+          422,
+          unpriced.map(key => `No provider currently quotes ${key}`)
+        );
+      }
+
+      const now = new Date();
+      const effectiveAt = options.effective_at && options.effective_at > now ? options.effective_at : now;
+      const revision = await this.appendRevision(basket, current, next, {
+        author: options.author,
+        comment: options.comment ?? null,
+        effective_at: effectiveAt.toISOString(),
+        activated_at: null,
+      });
+
+      console.log(`${options.author} changed the ${basket} basket (revision ${revision.revision}, effective ${revision.effective_at}): ` +
+        `+${diff.added.length} -${diff.removed.length} ~${diff.reweighted.length}`);
+
+      await this.activatePending(now);
+      return (await this.readRevisions())[basket].find(r => r.revision === revision.revision) ?? revision;
+    });
+  }
+
+  private async findUnpriced(basket: BasketKind, constituents: BasketConstituent[]): Promise<string[]> {
+    if (constituents.length === 0) return [];
+
+    const providers = basket === 'fiat'
+      ? await fiatApiService.findProviders(constituents.map(c => (c as FiatConfig).code))
+      : await cryptoApiService.findProviders(constituents as CryptoConfig[]);
+
+    return constituents
+      .map(c => constituentKey(basket, c))
+      .filter(key => (providers[key] || []).length === 0);
+  }
+}
+
+export const basketConfigService = new BasketConfigService();
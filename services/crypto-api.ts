@@ -1,24 +1,24 @@
 import { FileManager } from '../utils/file-manager';
 import { withRetry } from '../utils/retry';
+import { consensus, type AggregationMethod } from '../utils/consensus';
+import { createPriceProviders, type PriceProvider, type ProviderQuote } from './price-providers';
+import { priceGuardService, type Quarantine } from './price-guard';
 
-interface CryptoConfig {
+export interface CryptoConfig {
   id: string;
   symbol: string;
   name: string;
   weight: number;
+  provider_ids?: Record<string, string | null>; // Per-provider identifier overrides, null = not listed
 }
 
-interface CryptoData extends CryptoConfig {
+export interface CryptoData extends CryptoConfig {
   price: number;
   marketCap?: number;
-}
-
-interface CoinGeckoResponse {
-  [key: string]: {
-    usd: number;
-    usd_market_cap?: number;
-    usd_24h_change?: number;
-  };
+  volume24h?: number; // Highest 24h USD volume reported by any provider
+  sources: ProviderQuote[]; // Quotes that contributed to the consensus price
+  aggregation: AggregationMethod | 'baseline' | 'default' | 'last_good'; // last_good: quarantined by the price guard
+  quarantine?: Quarantine;
 }
 
 class CryptoApiService {
@@ -26,10 +26,45 @@ class CryptoApiService {
   private cryptoConfig: CryptoConfig[] = [];
   private lastFetch: Date | null = null;
   private readonly CACHE_DURATION = 60000; // 1 minute
+  private readonly providers: PriceProvider[] = createPriceProviders();
+  private readonly aggregationMethod: AggregationMethod =
+    process.env.CRYPTO_PRICE_AGGREGATION === 'trimmed_mean' ? 'trimmed_mean' : 'median';
+  private readonly minQuorum = parseInt(process.env.CRYPTO_PRICE_QUORUM || '2', 10);
 
   async initialize(): Promise<void> {
     this.cryptoConfig = await FileManager.readJson<CryptoConfig[]>('cryptos.json') || [];
     console.log(`Loaded ${this.cryptoConfig.length} cryptocurrencies from config`);
+    console.log(`Crypto price providers: ${this.providers.map(p => p.name).join(', ')} (quorum: ${this.minQuorum})`);
+  }
+
+  /**
+   * Re-reads cryptos.json after a basket change; the next read refetches prices
+   */
+  async reloadConfig(): Promise<void> {
+    await this.initialize();
+    this.lastFetch = null;
+  }
+
+  /**
+   * Providers that currently return a price for each asset, keyed by id
+   */
+  async findProviders(assets: CryptoConfig[]): Promise<Record<string, string[]>> {
+    const results = await Promise.allSettled(this.providers.map(provider => provider.fetchPrices(assets)));
+
+    const found: Record<string, string[]> = Object.fromEntries(assets.map(asset => [asset.id, []]));
+    results.forEach((result, i) => {
+      if (result.status === 'rejected') {
+        console.warn(`Crypto price provider ${this.providers[i].name} failed:`, result.reason);
+        return;
+      }
+      for (const [assetId, quote] of result.value) {
+        if (found[assetId] && Number.isFinite(quote.price) && quote.price > 0) {
+          found[assetId].push(this.providers[i].name);
+        }
+      }
+    });
+
+    return found;
   }
 
   private shouldRefreshCache(): boolean {
@@ -49,87 +84,156 @@ class CryptoApiService {
     return this.refreshPrices();
   }
 
+  /**
+   * Queries every provider concurrently; a failing provider only reduces the
+   * number of quotes available to the consensus
+   */
+  private async fetchAllQuotes(): Promise<Map<string, ProviderQuote[]>> {
+    const results = await Promise.allSettled(
+      this.providers.map(provider =>
+        withRetry(() => provider.fetchPrices(this.cryptoConfig), { maxAttempts: 2 })
+      )
+    );
+
+    const quotesByAsset = new Map<string, ProviderQuote[]>();
+    results.forEach((result, i) => {
+      if (result.status === 'rejected') {
+        console.warn(`Crypto price provider ${this.providers[i].name} failed:`, result.reason);
+        return;
+      }
+      for (const [assetId, quote] of result.value) {
+        const quotes = quotesByAsset.get(assetId) || [];
+        quotes.push(quote);
+        quotesByAsset.set(assetId, quotes);
+      }
+    });
+
+    return quotesByAsset;
+  }
+
   async refreshPrices(): Promise<CryptoData[]> {
-    return withRetry(async () => {
-      const baseline = await FileManager.readJson<any>('baseline.json');
-      
-      try {
-        const coinIds = this.cryptoConfig.map(c => c.id).join(',');
-        const response = await fetch(
-          `https://api.coingecko.com/api/v3/simple/price?ids=${coinIds}&vs_currencies=usd&include_market_cap=true&include_24hr_change=true`
-        );
-
-        if (!response.ok) {
-          throw new Error(`CoinGecko API error: ${response.status} ${response.statusText}`);
-        }
+    const baseline = await FileManager.readJson<any>('baseline.json');
+
+    try {
+      const quotesByAsset = await this.fetchAllQuotes();
+
+      if (quotesByAsset.size === 0) {
+        throw new Error('No crypto price provider returned data');
+      }
 
-        const data = await response.json() as CoinGeckoResponse;
-        
-        if (!data || typeof data !== 'object') {
-          throw new Error('Invalid CoinGecko response structure');
+      this.cachedPrices = [];
+      const missingCryptos: string[] = [];
+      const belowQuorum: string[] = [];
+
+      for (const config of this.cryptoConfig) {
+        const quotes = quotesByAsset.get(config.id) || [];
+        const result = consensus(quotes.map(q => q.price), {
+          method: this.aggregationMethod,
+          minQuorum: this.minQuorum,
+        });
+
+        if (result) {
+          const marketCaps = quotes.map(q => q.marketCap).filter((m): m is number => m !== undefined);
+          const volumes = quotes.map(q => q.volume24h).filter((v): v is number => v !== undefined);
+          this.cachedPrices.push({
+            ...config,
+            price: result.value,
+            marketCap: marketCaps.length > 0 ? consensus(marketCaps, { minQuorum: 1 })?.value : undefined,
+            volume24h: volumes.length > 0 ? Math.max(...volumes) : undefined,
+            sources: quotes,
+            aggregation: result.method,
+          });
+          continue;
         }
 
-        this.cachedPrices = [];
-        const missingCryptos: string[] = [];
-
-        for (const config of this.cryptoConfig) {
-          const apiData = data[config.id];
-          if (apiData && typeof apiData.usd === 'number') {
-            this.cachedPrices.push({
-              ...config,
-              price: apiData.usd,
-              marketCap: apiData.usd_market_cap,
-            });
-          } else {
-            // Use baseline price if available
-            const baselinePrice = baseline?.crypto_prices?.[config.id];
-            if (baselinePrice) {
-              console.warn(`Using baseline price for ${config.id}: $${baselinePrice}`);
-              this.cachedPrices.push({
-                ...config,
-                price: baselinePrice,
-                marketCap: undefined,
-              });
-            } else {
-              missingCryptos.push(config.id);
-            }
-          }
+        if (quotes.length > 0) {
+          belowQuorum.push(`${config.id} (${quotes.length}/${this.minQuorum})`);
         }
 
-        if (missingCryptos.length > 0) {
-          console.warn(`Missing prices for cryptocurrencies: ${missingCryptos.join(', ')}`);
+        // Use baseline price if available
+        const baselinePrice = baseline?.crypto_prices?.[config.id];
+        if (baselinePrice) {
+          console.warn(`Using baseline price for ${config.id}: $${baselinePrice}`);
+          this.cachedPrices.push({
+            ...config,
+            price: baselinePrice,
+            marketCap: undefined,
+            sources: [],
+            aggregation: 'baseline',
+          });
+        } else {
+          missingCryptos.push(config.id);
         }
+      }
+
+      if (belowQuorum.length > 0) {
+        console.warn(`Price quorum not met for: ${belowQuorum.join(', ')}`);
+      }
+
+      if (missingCryptos.length > 0) {
+        console.warn(`Missing prices for cryptocurrencies: ${missingCryptos.join(', ')}`);
+      }
+
+      await this.applyPriceGuard();
 
-        // Update baseline with current prices
-        const cryptoPricesForBaseline = this.cachedPrices.reduce((acc, crypto) => {
+      // Update baseline with current consensus prices only
+      const cryptoPricesForBaseline = this.cachedPrices
+        .filter(crypto => crypto.aggregation !== 'baseline' && crypto.aggregation !== 'last_good')
+        .reduce((acc, crypto) => {
           acc[crypto.id] = crypto.price;
           return acc;
         }, {} as { [key: string]: number });
 
-        if (baseline) {
-          baseline.crypto_prices = { ...baseline.crypto_prices, ...cryptoPricesForBaseline };
-          baseline.timestamp = new Date().toISOString();
-          await FileManager.writeJson('baseline.json', baseline);
-        }
+      await FileManager.updateJson<any>('baseline.json', current => current && {
+        ...current,
+        crypto_prices: { ...current.crypto_prices, ...cryptoPricesForBaseline },
+        timestamp: new Date().toISOString(),
+      });
+
+      this.lastFetch = new Date();
+      console.log(`Fetched prices for ${this.cachedPrices.length}/${this.cryptoConfig.length} cryptocurrencies`);
 
-        this.lastFetch = new Date();
-        console.log(`Fetched prices for ${this.cachedPrices.length}/${this.cryptoConfig.length} cryptocurrencies`);
-        
+      return this.cachedPrices;
+    } catch (error) {
+      // Fallback to baseline data
+      if (baseline?.crypto_prices) {
+        console.warn('Falling back to baseline crypto prices:', error);
+        this.cachedPrices = this.cryptoConfig.map(config => ({
+          ...config,
+          price: baseline.crypto_prices[config.id] || 1.0,
+          marketCap: undefined,
+          sources: [],
+          aggregation: baseline.crypto_prices[config.id] ? 'baseline' as const : 'default' as const,
+        }));
+        await this.applyPriceGuard();
         return this.cachedPrices;
-      } catch (error) {
-        // Fallback to baseline data
-        if (baseline?.crypto_prices) {
-          console.warn('Falling back to baseline crypto prices');
-          this.cachedPrices = this.cryptoConfig.map(config => ({
-            ...config,
-            price: baseline.crypto_prices[config.id] || 1.0,
-            marketCap: undefined,
-          }));
-          return this.cachedPrices;
-        }
-        throw error;
       }
-    }, { maxAttempts: 3 });
+      throw error;
+    }
+  }
+
+  /**
+   * Replaces prices the guard quarantines with the last accepted price
+   */
+  private async applyPriceGuard(): Promise<void> {
+    const verdicts = await priceGuardService.screen('crypto', this.cachedPrices.map(crypto => ({
+      key: crypto.id,
+      value: crypto.price,
+      live: crypto.aggregation !== 'baseline' && crypto.aggregation !== 'default',
+      as_of: crypto.sources.map(s => s.asOf ?? s.fetchedAt).sort().pop() ?? null,
+    })));
+
+    this.cachedPrices = this.cachedPrices.flatMap(crypto => {
+      const verdict = verdicts.get(crypto.id);
+      if (!verdict || verdict.reason === null) return [crypto];
+      if (verdict.value === null) return [];
+      return [{
+        ...crypto,
+        price: verdict.value,
+        aggregation: 'last_good' as const,
+        quarantine: { reason: verdict.reason, observed: crypto.price, last_good_at: verdict.accepted_at },
+      }];
+    });
   }
 
   getWeightedCryptoAverage(): number {
@@ -0,0 +1,95 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { computeCappedWeights } from './crypto-weighting';
+import { BasketConfigError } from './basket-config';
+
+function weigh(marketCaps: Record<string, number>, cap: number, floor: number) {
+  const assets = Object.entries(marketCaps).map(([id, marketCap]) => ({ id, marketCap, cap }));
+  return Object.fromEntries(computeCappedWeights(assets, floor));
+}
+
+function total(weights: Record<string, { weight: number }>): number {
+  return Object.values(weights).reduce((sum, w) => sum + w.weight, 0);
+}
+
+test('without binding bounds the weights follow market cap', () => {
+  assert.deepEqual(weigh({ a: 600, b: 300, c: 100 }, 1, 0), {
+    a: { weight: 0.6, bound: null },
+    b: { weight: 0.3, bound: null },
+    c: { weight: 0.1, bound: null },
+  });
+});
+
+test('a capped asset hands its excess to the others in proportion to market cap', () => {
+  assert.deepEqual(weigh({ a: 900, b: 60, c: 40 }, 0.5, 0.01), {
+    a: { weight: 0.5, bound: 'cap' },
+    b: { weight: 0.3, bound: null },
+    c: { weight: 0.2, bound: null },
+  });
+});
+
+test('caps and floors can bind in the same basket', () => {
+  // After the cap on a, c and d fall below the floor and b absorbs what is left
+  assert.deepEqual(weigh({ a: 9000, b: 900, c: 90, d: 10 }, 0.5, 0.05), {
+    a: { weight: 0.5, bound: 'cap' },
+    b: { weight: 0.4, bound: null },
+    c: { weight: 0.05, bound: 'floor' },
+    d: { weight: 0.05, bound: 'floor' },
+  });
+});
+
+test('a floor can keep an asset under its cap that capping alone would push over it', () => {
+  // Capping a then c would leave b below the floor; with b at the floor, c fits under its cap
+  assert.deepEqual(weigh({ a: 1000, b: 1, c: 40 }, 0.45, 0.15), {
+    a: { weight: 0.45, bound: 'cap' },
+    b: { weight: 0.15, bound: 'floor' },
+    c: { weight: 0.4, bound: null },
+  });
+});
+
+test('weights sum to 1 and stay within their bounds', () => {
+  // Deterministic pseudo-random market caps spanning several orders of magnitude
+  let seed = 42;
+  const next = () => (seed = (seed * 1103515245 + 12345) % 2 ** 31) / 2 ** 31;
+
+  for (let round = 0; round < 50; round++) {
+    const count = 3 + Math.floor(next() * 10);
+    const marketCaps = Object.fromEntries(Array.from({ length: count }, (_, i) => [`asset${i}`, 10 ** (next() * 6)]));
+    const cap = Math.max(1 / count, 0.2 + next() * 0.5);
+    const floor = (next() * 0.5) / count;
+
+    const weights = weigh(marketCaps, cap, floor);
+    assert.ok(Math.abs(total(weights) - 1) < 1e-9, `round ${round} sums to ${total(weights)}`);
+    for (const [id, { weight, bound }] of Object.entries(weights)) {
+      assert.ok(weight <= cap + 1e-6, `${id} exceeds its cap in round ${round}`);
+      assert.ok(weight >= floor - 1e-6, `${id} is below the floor in round ${round}`);
+      if (bound === 'cap') assert.ok(Math.abs(weight - cap) <= 1e-6);
+      if (bound === 'floor') assert.ok(Math.abs(weight - floor) <= 1e-6);
+    }
+  }
+});
+
+test('rounding to published precision still sums to exactly 1', () => {
+  const weights = weigh({ a: 1, b: 1, c: 1 }, 1, 0);
+  assert.equal(total(weights), 1);
+  assert.deepEqual(Object.values(weights).map(w => w.weight).sort(), [0.333333, 0.333333, 0.333334]);
+});
+
+test('infeasible constraints are rejected with the reasons', () => {
+  const rejects = (fn: () => unknown, issues: RegExp[]) => assert.throws(fn, (error: BasketConfigError) => {
+    assert.ok(error instanceof BasketConfigError);
+    assert.equal(error.status, 422);
+    assert.equal(error.issues.length, issues.length);
+    issues.forEach((pattern, i) => assert.match(error.issues[i], pattern));
+    return true;
+  });
+
+  rejects(() => weigh({ a: 1, b: 1, c: 1, d: 1 }, 1, 0.3), [/Floor of 0.3 is too high for 4/]);
+  rejects(() => weigh({ a: 1, b: 1, c: 1 }, 0.3, 0), [/sum to less than 1/]);
+  rejects(() => computeCappedWeights([
+    { id: 'a', marketCap: 1, cap: 1 },
+    { id: 'b', marketCap: 1, cap: 0.01 },
+  ], 0.05), [/Cap of b \(0.01\) is below the floor/]);
+
+  assert.throws(() => computeCappedWeights([], 0), /No eligible assets/);
+});
@@ -0,0 +1,332 @@
+import { randomUUID } from 'crypto';
+import { FileManager } from '../utils/file-manager';
+import { cryptoApiService, type CryptoConfig } from './crypto-api';
+import { basketConfigService, BasketConfigError, type BasketRevision } from './basket-config';
+
+export interface WeightingConfig {
+  max_weight: number;            // Cap for any single asset (default: 50%)
+  caps: Record<string, number>;  // Per-asset caps by id, overriding max_weight
+  floor: number;                 // Minimum weight of an eligible asset (default: 1%)
+  min_volume_usd: number;        // Minimum 24h USD volume to be eligible (default: $10M)
+}
+
+export type IneligibleReason = 'no_market_cap' | 'no_volume_data' | 'below_min_volume';
+
+export interface ProposedWeight {
+  id: string;
+  symbol: string;
+  name: string;
+  market_cap: number | null;
+  volume_24h: number | null;
+  eligible: boolean;
+  reason: IneligibleReason | null;
+  old_weight: number;
+  new_weight: number; // 0 for ineligible assets, which leave the basket when applied
+  change: number;
+  bound: 'cap' | 'floor' | null; // Constraint the new weight was held at, if any
+}
+
+export type ProposalStatus = 'pending' | 'applied' | 'rejected' | 'superseded';
+
+export interface RebalanceProposal {
+  id: string;
+  status: ProposalStatus;
+  created_at: string;
+  created_by: string;
+  base_revision: number; // Crypto basket revision the proposal was computed against
+  config: WeightingConfig;
+  weights: ProposedWeight[];
+  turnover: number; // Half the sum of absolute weight changes
+  resolved_at: string | null;
+  resolved_by: string | null;
+  applied_revision: number | null;
+}
+
+interface WeightingInput {
+  id: string;
+  marketCap: number;
+  cap: number;
+}
+
+const PROPOSALS_FILE = 'crypto_rebalance_proposals.json';
+
+// Weights are published with 6 decimals
+const WEIGHT_PRECISION = 1e6;
+
+// Parses CRYPTO_WEIGHT_CAPS, e.g. "bitcoin:0.5,ethereum:0.3"
+function parseCaps(raw: string | undefined): Record<string, number> {
+  const caps: Record<string, number> = {};
+  for (const entry of (raw || '').split(',')) {
+    const [id, value] = entry.split(':').map(part => part?.trim());
+    const cap = parseFloat(value);
+    if (id && Number.isFinite(cap)) caps[id] = cap;
+  }
+  return caps;
+}
+
+/**
+ * Market-cap weights subject to per-asset caps and a common floor. Each asset
+ * gets its market cap times one common scale, clamped to its bounds, with the
+ * scale chosen so the weights sum to 1; the unbounded assets share what the
+ * bounded ones leave in proportion to market cap.
+ */
+export function computeCappedWeights(
+  assets: WeightingInput[],
+  floor: number
+): Map<string, { weight: number; bound: 'cap' | 'floor' | null }> {
+  if (assets.length === 0) {
+    throw new BasketConfigError('No eligible assets to weight', 422);
+  }
+
+  const issues: string[] = [];
+  if (floor * assets.length > 1) {
+    issues.push(`Floor of ${floor} is too high for ${assets.length} eligible assets`);
+  }
+  if (assets.reduce((sum, a) => sum + a.cap, 0) < 1) {
+    issues.push('Caps of the eligible assets sum to less than 1');
+  }
+  for (const asset of assets.filter(a => a.cap < floor)) {
+    issues.push(`Cap of ${asset.id} (${asset.cap}) is below the floor (${floor})`);
+  }
+  if (issues.length > 0) {
+    throw new BasketConfigError('Weighting constraints cannot be satisfied', 422, issues);
+  }
+
+  // The clamped sum only grows with the scale, so bisect for the scale where it reaches 1
+  const clampedSum = (scale: number) =>
+    assets.reduce((sum, a) => sum + Math.min(a.cap, Math.max(floor, scale * a.marketCap)), 0);
+  let low = 0;
+  let high = Math.max(0, ...assets.filter(a => a.marketCap > 0).map(a => a.cap / a.marketCap));
+  for (let i = 0; i < 200 && low < high; i++) {
+    const mid = (low + high) / 2;
+    if (clampedSum(mid) < 1) low = mid;
+    else high = mid;
+  }
+
+  const pinned = new Map<string, { weight: number; bound: 'cap' | 'floor' | null }>();
+  for (const asset of assets) {
+    if (high * asset.marketCap > asset.cap) pinned.set(asset.id, { weight: asset.cap, bound: 'cap' });
+    else if (high * asset.marketCap < floor) pinned.set(asset.id, { weight: floor, bound: 'floor' });
+  }
+
+  // Sharing the remainder exactly keeps the unbounded weights free of bisection error
+  const free = assets.filter(a => !pinned.has(a.id));
+  const remaining = 1 - Array.from(pinned.values()).reduce((sum, p) => sum + p.weight, 0);
+  const freeMarketCap = free.reduce((sum, a) => sum + a.marketCap, 0);
+  free.forEach(a => pinned.set(a.id, { weight: (remaining * a.marketCap) / freeMarketCap, bound: null }));
+
+  const total = Array.from(pinned.values()).reduce((sum, p) => sum + p.weight, 0);
+  if (Math.abs(total - 1) > 1e-9) {
+    throw new BasketConfigError('Weighting constraints cannot be satisfied', 422, [
+      `Caps and floor leave the weights summing to ${total.toFixed(6)}`,
+    ]);
+  }
+
+  return roundWeights(pinned);
+}
+
+/**
+ * Rounds to the published precision and puts the rounding residual on the
+ * largest unbounded weight, so the rounded weights still sum to exactly 1
+ */
+function roundWeights<T extends { weight: number; bound: 'cap' | 'floor' | null }>(weights: Map<string, T>): Map<string, T> {
+  const rounded = new Map(Array.from(weights.entries()).map(([id, w]) => [
+    id,
+    { ...w, weight: Math.round(w.weight * WEIGHT_PRECISION) / WEIGHT_PRECISION },
+  ]));
+
+  const residual = 1 - Array.from(rounded.values()).reduce((sum, w) => sum + w.weight, 0);
+  const absorber = Array.from(rounded.values())
+    .filter(w => w.bound === null)
+    .sort((a, b) => b.weight - a.weight)[0] ?? Array.from(rounded.values()).sort((a, b) => b.weight - a.weight)[0];
+  absorber.weight = Math.round((absorber.weight + residual) * WEIGHT_PRECISION) / WEIGHT_PRECISION;
+
+  return rounded;
+}
+
+/**
+ * Derives crypto basket weights from market cap and turns them into
+ * rebalance proposals. A proposal only changes the basket once an admin
+ * applies it, which records a regular basket revision.
+ */
+class CryptoWeightingService {
+  private config: WeightingConfig = {
+    max_weight: parseFloat(process.env.CRYPTO_WEIGHT_MAX || '0.5'),
+    caps: parseCaps(process.env.CRYPTO_WEIGHT_CAPS),
+    floor: parseFloat(process.env.CRYPTO_WEIGHT_FLOOR || '0.01'),
+    min_volume_usd: parseFloat(process.env.CRYPTO_WEIGHT_MIN_VOLUME_USD || '10000000'),
+  };
+
+  getConfig(): WeightingConfig {
+    return { ...this.config, caps: { ...this.config.caps } };
+  }
+
+  /**
+   * Computes target weights for the current crypto basket from the latest
+   * market data and stores them as the pending proposal, superseding any
+   * earlier pending one
+   */
+  async propose(author: string, overrides: Partial<WeightingConfig> = {}): Promise<RebalanceProposal> {
+    const config: WeightingConfig = {
+      ...this.config,
+      ...overrides,
+      caps: { ...this.config.caps, ...overrides.caps },
+    };
+
+    const [basket, marketData] = await Promise.all([
+      basketConfigService.getBasket('crypto'),
+      cryptoApiService.getCryptoPricesWithWeights(),
+    ]);
+    const dataById = new Map(marketData.map(c => [c.id, c]));
+
+    const rows = (basket.constituents as CryptoConfig[]).map(constituent => {
+      const data = dataById.get(constituent.id);
+      const marketCap = data?.marketCap ?? null;
+      const volume = data?.volume24h ?? null;
+
+      let reason: IneligibleReason | null = null;
+      if (marketCap === null || marketCap <= 0) reason = 'no_market_cap';
+      else if (config.min_volume_usd > 0 && volume === null) reason = 'no_volume_data';
+      else if (volume !== null && volume < config.min_volume_usd) reason = 'below_min_volume';
+
+      return { constituent, marketCap, volume, reason };
+    });
+
+    const targets = computeCappedWeights(
+      rows.filter(r => r.reason === null).map(r => ({
+        id: r.constituent.id,
+        marketCap: r.marketCap as number,
+        cap: config.caps[r.constituent.id] ?? config.max_weight,
+      })),
+      config.floor
+    );
+
+    const weights: ProposedWeight[] = rows.map(({ constituent, marketCap, volume, reason }) => {
+      const target = targets.get(constituent.id);
+      const newWeight = target?.weight ?? 0;
+      return {
+        id: constituent.id,
+        symbol: constituent.symbol,
+        name: constituent.name,
+        market_cap: marketCap,
+        volume_24h: volume,
+        eligible: reason === null,
+        reason,
+        old_weight: constituent.weight,
+        new_weight: newWeight,
+        change: newWeight - constituent.weight,
+        bound: target?.bound ?? null,
+      };
+    });
+
+    const proposal: RebalanceProposal = {
+      id: randomUUID(),
+      status: 'pending',
+      created_at: new Date().toISOString(),
+      created_by: author,
+      base_revision: basket.revision,
+      config,
+      weights,
+      turnover: weights.reduce((sum, w) => sum + Math.abs(w.change), 0) / 2,
+      resolved_at: null,
+      resolved_by: null,
+      applied_revision: null,
+    };
+
+    await FileManager.updateJson<RebalanceProposal[]>(PROPOSALS_FILE, current => [
+      ...(current || []).map(p => (p.status === 'pending'
+        ? { ...p, status: 'superseded' as const, resolved_at: proposal.created_at, resolved_by: author }
+        : p)),
+      proposal,
+    ]);
+
+    const excluded = weights.filter(w => !w.eligible).map(w => `${w.symbol} (${w.reason})`);
+    console.log(`Crypto rebalance proposal ${proposal.id} by ${author}: turnover ${(proposal.turnover * 100).toFixed(2)}%` +
+      (excluded.length > 0 ? `, excluded ${excluded.join(', ')}` : ''));
+
+    return proposal;
+  }
+
+  async listProposals(): Promise<RebalanceProposal[]> {
+    return await FileManager.readJson<RebalanceProposal[]>(PROPOSALS_FILE) || [];
+  }
+
+  async getProposal(id: string): Promise<RebalanceProposal | null> {
+    return (await this.listProposals()).find(p => p.id === id) ?? null;
+  }
+
+  /**
+   * Writes a pending proposal's weights to the crypto basket, immediately or
+   * at `effective_at`. Refused when the basket has changed since the proposal
+   * was computed.
+   */
+  async apply(
+    id: string,
+    author: string,
+    options: { comment?: string; effective_at?: Date } = {}
+  ): Promise<{ proposal: RebalanceProposal; revision: BasketRevision }> {
+    const proposal = await this.requirePending(id);
+
+    const { revision: currentRevision, scheduled } = await basketConfigService.getBasket('crypto');
+    if (currentRevision !== proposal.base_revision) {
+      throw new BasketConfigError(
+        `Crypto basket changed since the proposal was made (revision ${proposal.base_revision} -> ${currentRevision}); create a new proposal`,
+        409
+      );
+    }
+    if (scheduled.length > 0) {
+      throw new BasketConfigError(
+        `Crypto basket has scheduled revisions (${scheduled.map(r => r.revision).join(', ')}); apply or cancel them first`,
+        409
+      );
+    }
+
+    const weights = Object.fromEntries(proposal.weights.filter(w => w.eligible).map(w => [w.id, w.new_weight]));
+    const revision = await basketConfigService.setWeights('crypto', weights, {
+      author,
+      comment: options.comment ?? `Market-cap rebalance (proposal ${proposal.id})`,
+      effective_at: options.effective_at,
+    });
+
+    const resolved = await this.resolve(id, 'applied', author, revision.revision);
+    return { proposal: resolved, revision };
+  }
+
+  async reject(id: string, author: string): Promise<RebalanceProposal> {
+    await this.requirePending(id);
+    return this.resolve(id, 'rejected', author, null);
+  }
+
+  private async requirePending(id: string): Promise<RebalanceProposal> {
+    const proposal = await this.getProposal(id);
+    if (!proposal) {
+      throw new BasketConfigError('Proposal not found', 404);
+    }
+    if (proposal.status !== 'pending') {
+      throw new BasketConfigError(`Proposal is ${proposal.status}`, 409);
+    }
+    return proposal;
+  }
+
+  private async resolve(id: string, status: ProposalStatus, author: string, appliedRevision: number | null): Promise<RebalanceProposal> {
+    let resolved: RebalanceProposal | undefined;
+    await FileManager.updateJson<RebalanceProposal[]>(PROPOSALS_FILE, current => (current || []).map(p => {
+      if (p.id !== id) return p;
+      resolved = {
+        ...p,
+        status,
+        resolved_at: new Date().toISOString(),
+        resolved_by: author,
+        applied_revision: appliedRevision,
+      };
+      return resolved;
+    }));
+
+    if (!resolved) {
+      throw new BasketConfigError('Proposal not found', 404);
+    }
+    return resolved;
+  }
+}
+
+export const cryptoWeightingService = new CryptoWeightingService();
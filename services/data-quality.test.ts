@@ -0,0 +1,118 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  assessDataQuality,
+  assessPublication,
+  cryptoProvenance,
+  fiatProvenance,
+  type Provenance,
+  type ProvenanceStatus,
+  type PublicationPolicy,
+} from './data-quality';
+import type { CryptoData } from './crypto-api';
+import type { FiatData } from './fiat-api';
+
+const NOW = new Date('2024-01-01T12:00:00Z');
+
+const POLICY: PublicationPolicy = {
+  live_min_fresh: 0.95,
+  indicative_min_fresh: 0.8,
+  stale_min_fresh: 0.5,
+  max_snapshot_age_ms: 10 * 60 * 1000,
+};
+
+function priced(status: ProvenanceStatus, weight: number): { weight: number; provenance: Provenance } {
+  return {
+    weight,
+    provenance: { status, providers: [], fetched_at: null, as_of: null, age_seconds: null, quarantine: null },
+  };
+}
+
+// Baskets with the given share of weight priced live; the rest is priced from last good values or baselines
+function baskets(liveWeight: { fiat: number; crypto: number }) {
+  return {
+    fiat: [priced('live', liveWeight.fiat), priced('last_good', 1 - liveWeight.fiat)],
+    crypto: [priced('live', liveWeight.crypto), priced('baseline', 1 - liveWeight.crypto)],
+  };
+}
+
+test('quality is weighted by how each constituent was priced', () => {
+  const quality = assessDataQuality({
+    fiat: [priced('live', 0.5), priced('last_good', 0.5)],
+    crypto: [priced('live', 0.75), priced('default', 0.25)],
+  });
+  assert.equal(quality.fiat.score, 0.75);
+  assert.equal(quality.fiat.live_weight, 0.5);
+  assert.equal(quality.crypto.score, 0.75);
+  assert.equal(quality.score, 0.75);
+  assert.equal(quality.estimated, true);
+  assert.deepEqual(quality.fiat.counts, { live: 1, recorded: 0, last_good: 1, baseline: 0, default: 0 });
+
+  const live = assessDataQuality({ fiat: [priced('live', 1)], crypto: [priced('live', 0.6), priced('live', 0.4)] });
+  assert.equal(live.score, 1);
+  assert.equal(live.estimated, false);
+});
+
+test('publication degrades with the fresh weight of the weaker basket', () => {
+  const state = (fiat: number, crypto: number) =>
+    assessPublication(assessDataQuality(baskets({ fiat, crypto })), NOW.toISOString(), NOW, POLICY).state;
+
+  assert.equal(state(1, 1), 'live');
+  assert.equal(state(0.95, 1), 'live');
+  assert.equal(state(1, 0.9), 'indicative');
+  assert.equal(state(0.6, 0.9), 'stale');
+  assert.equal(state(0.8, 0.4), 'halted');
+
+  const halted = assessPublication(assessDataQuality(baskets({ fiat: 1, crypto: 0.4 })), NOW.toISOString(), NOW, POLICY);
+  assert.deepEqual(halted.fresh_weight, { fiat: 1, crypto: 0.4 });
+  assert.deepEqual(halted.reasons, ['40.0% of crypto basket weight is priced live']);
+});
+
+test('an old snapshot is published as stale at best', () => {
+  const quality = assessDataQuality(baskets({ fiat: 1, crypto: 1 }));
+  const computedAt = new Date(NOW.getTime() - POLICY.max_snapshot_age_ms - 1000).toISOString();
+
+  const publication = assessPublication(quality, computedAt, NOW, POLICY);
+  assert.equal(publication.state, 'stale');
+  assert.deepEqual(publication.reasons, ['Index was last computed 601s ago']);
+
+  // A snapshot that is already halted stays halted
+  const halted = assessDataQuality(baskets({ fiat: 0.1, crypto: 1 }));
+  assert.equal(assessPublication(halted, computedAt, NOW, POLICY).state, 'halted');
+});
+
+test('provenance reflects how a price was sourced and quarantined', () => {
+  const crypto: CryptoData = {
+    id: 'bitcoin', symbol: 'BTC', name: 'Bitcoin', weight: 0.5, price: 60000, aggregation: 'median',
+    sources: [
+      { provider: 'a', price: 60000, fetchedAt: '2024-01-01T11:59:00Z', asOf: '2024-01-01T11:58:00Z' },
+      { provider: 'b', price: 60010, fetchedAt: '2024-01-01T11:59:30Z' },
+    ],
+  };
+  assert.deepEqual(cryptoProvenance(crypto, NOW), {
+    status: 'live', providers: ['a', 'b'], fetched_at: '2024-01-01T11:59:30.000Z', as_of: '2024-01-01T11:58:00.000Z',
+    age_seconds: 120, quarantine: null,
+  });
+
+  const quarantine = { reason: 'max_move' as const, observed: 90000, last_good_at: '2024-01-01T11:00:00Z' };
+  const quarantined = cryptoProvenance({ ...crypto, aggregation: 'last_good', sources: [], quarantine }, NOW);
+  assert.equal(quarantined.status, 'last_good');
+  assert.equal(quarantined.age_seconds, 3600);
+  assert.deepEqual(quarantined.quarantine, quarantine);
+
+  assert.equal(cryptoProvenance({ ...crypto, aggregation: 'baseline', sources: [] }, NOW).status, 'baseline');
+
+  const fiat: FiatData = {
+    code: 'EUR', name: 'Euro', weight: 0.3, rate: 0.9, aggregation: 'provider_history',
+    sources: [
+      { provider: 'a', rate: 0.9, accepted: true, fetchedAt: '2024-01-01T11:00:00Z' },
+      { provider: 'b', rate: 1.5, accepted: false, fetchedAt: '2024-01-01T11:30:00Z' },
+    ],
+  };
+  const recorded = fiatProvenance(fiat, NOW);
+  assert.equal(recorded.status, 'recorded');
+  assert.deepEqual(recorded.providers, ['a']);
+  assert.equal(recorded.age_seconds, 3600);
+
+  assert.equal(fiatProvenance({ ...fiat, code: 'USD', aggregation: 'default' }, NOW).status, 'live');
+});
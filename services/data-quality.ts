@@ -0,0 +1,219 @@
+import type { BasketKind } from './basket-config';
+import type { CryptoData } from './crypto-api';
+import type { FiatData } from './fiat-api';
+import type { Quarantine } from './price-guard';
+
+// Where a published price came from, best first
+export type ProvenanceStatus = 'live' | 'recorded' | 'last_good' | 'baseline' | 'default';
+
+export const PROVENANCE_STATUSES: ProvenanceStatus[] = ['live', 'recorded', 'last_good', 'baseline', 'default'];
+
+export interface Provenance {
+  status: ProvenanceStatus;
+  providers: string[];         // Providers whose quotes make up the price
+  fetched_at: string | null;   // When the price was fetched or, for last_good, accepted
+  as_of: string | null;        // Newest timestamp the providers reported for the price
+  age_seconds: number | null;  // Seconds since as_of, or fetched_at when the provider reports none
+  quarantine: Quarantine | null;
+}
+
+export interface BasketQuality {
+  score: number;        // Weighted quality of the basket, 0-1
+  live_weight: number;  // Share of the basket's weight priced live
+  counts: Record<ProvenanceStatus, number>;
+}
+
+export interface DataQuality {
+  score: number;      // 0-1; 1 means every constituent of both baskets was priced live
+  estimated: boolean; // True when any weight was priced from anything but a live fetch
+  fiat: BasketQuality;
+  crypto: BasketQuality;
+}
+
+// Contribution of a constituent to the score by provenance
+const STATUS_QUALITY: Record<ProvenanceStatus, number> = {
+  live: 1,
+  recorded: 0.75,
+  last_good: 0.5,
+  baseline: 0.25,
+  default: 0,
+};
+
+function newest(timestamps: Array<string | undefined>): string | null {
+  const times = timestamps
+    .filter((t): t is string => Boolean(t))
+    .map(t => new Date(t))
+    .filter(d => Number.isFinite(d.getTime()));
+  if (times.length === 0) return null;
+  return new Date(Math.max(...times.map(d => d.getTime()))).toISOString();
+}
+
+function withAge(provenance: Omit<Provenance, 'age_seconds'>, now: Date): Provenance {
+  const reference = provenance.as_of ?? provenance.fetched_at;
+  return {
+    ...provenance,
+    age_seconds: reference ? Math.max(0, Math.round((now.getTime() - new Date(reference).getTime()) / 1000)) : null,
+  };
+}
+
+export function fiatProvenance(fiat: FiatData, now: Date = new Date()): Provenance {
+  if (fiat.code === 'USD') {
+    // The base currency is exact by definition
+    return { status: 'live', providers: [], fetched_at: null, as_of: null, age_seconds: 0, quarantine: null };
+  }
+
+  if (fiat.aggregation === 'last_good') {
+    return withAge({
+      status: 'last_good',
+      providers: [],
+      fetched_at: fiat.quarantine?.last_good_at ?? null,
+      as_of: null,
+      quarantine: fiat.quarantine ?? null,
+    }, now);
+  }
+
+  const accepted = fiat.sources.filter(s => s.accepted);
+  const status: ProvenanceStatus = fiat.aggregation === 'median'
+    ? 'live'
+    : fiat.aggregation === 'provider_history' ? 'recorded' : fiat.aggregation;
+
+  return withAge({
+    status,
+    providers: accepted.map(s => s.provider),
+    fetched_at: newest(accepted.map(s => s.fetchedAt)),
+    as_of: newest(accepted.map(s => s.asOf)),
+    quarantine: null,
+  }, now);
+}
+
+export function cryptoProvenance(crypto: CryptoData, now: Date = new Date()): Provenance {
+  if (crypto.aggregation === 'last_good') {
+    return withAge({
+      status: 'last_good',
+      providers: [],
+      fetched_at: crypto.quarantine?.last_good_at ?? null,
+      as_of: null,
+      quarantine: crypto.quarantine ?? null,
+    }, now);
+  }
+
+  const status: ProvenanceStatus = crypto.aggregation === 'baseline' || crypto.aggregation === 'default'
+    ? crypto.aggregation
+    : 'live';
+
+  return withAge({
+    status,
+    providers: crypto.sources.map(s => s.provider),
+    fetched_at: newest(crypto.sources.map(s => s.fetchedAt)),
+    as_of: newest(crypto.sources.map(s => s.asOf)),
+    quarantine: null,
+  }, now);
+}
+
+function basketQuality(entries: Array<{ weight: number; provenance: Provenance }>): BasketQuality {
+  const counts = Object.fromEntries(PROVENANCE_STATUSES.map(s => [s, 0])) as Record<ProvenanceStatus, number>;
+  let totalWeight = 0;
+  let weightedQuality = 0;
+  let liveWeight = 0;
+
+  for (const { weight, provenance } of entries) {
+    counts[provenance.status]++;
+    totalWeight += weight;
+    weightedQuality += weight * STATUS_QUALITY[provenance.status];
+    if (provenance.status === 'live') liveWeight += weight;
+  }
+
+  return {
+    score: totalWeight > 0 ? weightedQuality / totalWeight : 0,
+    live_weight: totalWeight > 0 ? liveWeight / totalWeight : 0,
+    counts,
+  };
+}
+
+/**
+ * Scores both baskets by how their weight was priced. AVGX is the geometric
+ * mean of the two baskets, so each counts for half of the overall score.
+ */
+export function assessDataQuality(
+  baskets: Record<BasketKind, Array<{ weight: number; provenance: Provenance }>>
+): DataQuality {
+  const fiat = basketQuality(baskets.fiat);
+  const crypto = basketQuality(baskets.crypto);
+
+  return {
+    score: (fiat.score + crypto.score) / 2,
+    estimated: [fiat, crypto].some(b => PROVENANCE_STATUSES.some(s => s !== 'live' && b.counts[s] > 0)),
+    fiat,
+    crypto,
+  };
+}
+
+// How far the published index can be relied on, best first
+export type PublicationState = 'live' | 'indicative' | 'stale' | 'halted';
+
+export const PUBLICATION_STATES: PublicationState[] = ['live', 'indicative', 'stale', 'halted'];
+
+export interface PublicationPolicy {
+  live_min_fresh: number;        // Fresh weight share of each basket needed to publish as live
+  indicative_min_fresh: number;  // ... as indicative
+  stale_min_fresh: number;       // ... as stale; anything less halts the index
+  max_snapshot_age_ms: number;   // Older snapshots are at best stale
+}
+
+export interface Publication {
+  state: PublicationState;
+  fresh_weight: Record<BasketKind, number>; // Share of each basket's weight priced live
+  reasons: string[];                        // Why the state is below live
+}
+
+export const PUBLICATION_POLICY: PublicationPolicy = {
+  live_min_fresh: parseFloat(process.env.INDEX_LIVE_MIN_FRESH_WEIGHT || '0.95'),
+  indicative_min_fresh: parseFloat(process.env.INDEX_INDICATIVE_MIN_FRESH_WEIGHT || '0.8'),
+  stale_min_fresh: parseFloat(process.env.INDEX_STALE_MIN_FRESH_WEIGHT || '0.5'),
+  max_snapshot_age_ms: parseInt(process.env.INDEX_MAX_SNAPSHOT_AGE_MS || '600000', 10),
+};
+
+function worse(a: PublicationState, b: PublicationState): PublicationState {
+  return PUBLICATION_STATES.indexOf(a) >= PUBLICATION_STATES.indexOf(b) ? a : b;
+}
+
+/**
+ * Publication state of a snapshot: set by the basket with the smaller share
+ * of freshly priced weight, and capped at stale once the snapshot itself is
+ * older than the policy allows
+ */
+export function assessPublication(
+  quality: DataQuality,
+  snapshotTimestamp: string,
+  now: Date = new Date(),
+  policy: PublicationPolicy = PUBLICATION_POLICY
+): Publication {
+  const freshWeight: Record<BasketKind, number> = {
+    fiat: quality.fiat.live_weight,
+    crypto: quality.crypto.live_weight,
+  };
+  const reasons: string[] = [];
+  let state: PublicationState = 'live';
+
+  for (const basket of Object.keys(freshWeight) as BasketKind[]) {
+    // Tolerance absorbs float noise in weights that sum to 1
+    const fresh = freshWeight[basket] + 1e-9;
+    const basketState: PublicationState = fresh >= policy.live_min_fresh ? 'live'
+      : fresh >= policy.indicative_min_fresh ? 'indicative'
+      : fresh >= policy.stale_min_fresh ? 'stale'
+      : 'halted';
+
+    if (basketState !== 'live') {
+      reasons.push(`${(freshWeight[basket] * 100).toFixed(1)}% of ${basket} basket weight is priced live`);
+    }
+    state = worse(state, basketState);
+  }
+
+  const age = now.getTime() - new Date(snapshotTimestamp).getTime();
+  if (age > policy.max_snapshot_age_ms) {
+    reasons.push(`Index was last computed ${Math.round(age / 1000)}s ago`);
+    state = worse(state, 'stale');
+  }
+
+  return { state, fresh_weight: freshWeight, reasons };
+}
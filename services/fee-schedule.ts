@@ -0,0 +1,320 @@
+import { randomUUID } from 'crypto';
+import { FileManager } from '../utils/file-manager';
+import {
+  DEFAULT_FEE_SCHEDULE,
+  chainRuleFor,
+  computeFee,
+  validateFeeSchedule,
+  type ActionFeeRule,
+  type ChainFeeRule,
+  type FeeAction,
+  type FeeBreakdown,
+  type FeePromotion,
+  type FeeSchedule,
+} from '../utils/fees';
+import { HttpError } from '../utils/http-error';
+import { SerialQueue } from '../utils/serial-queue';
+import { storage } from '../storage';
+
+export type FeeScheduleAuditAction = 'schedule_updated' | 'promotion_created' | 'promotion_ended';
+
+export interface FeeScheduleAuditEntry {
+  timestamp: string;
+  action: FeeScheduleAuditAction;
+  author: string;
+  changes: string[]; // Rules replaced, e.g. actions.mint or chains.polygon
+  promotion_id: string | null;
+  comment: string | null;
+}
+
+export interface FeeScheduleChanges {
+  actions?: Partial<Record<FeeAction, ActionFeeRule>>;
+  chains?: Record<string, ChainFeeRule>;
+}
+
+export interface NewFeePromotion {
+  name: string;
+  actions: FeeAction[];
+  chains?: string[];
+  bps: number;
+  starts_at?: Date; // Now when absent
+  ends_at: Date;
+}
+
+export interface FeeQuoteRequest {
+  action: FeeAction;
+  chain: string;
+  amountUsd: number;
+  walletAddress?: string; // Picks the volume tier; the base tier without one
+}
+
+interface FeeScheduleRecord {
+  schedule: FeeSchedule;
+  promotions: FeePromotion[];
+  updated_at: string;
+  updated_by: string;
+  audit: FeeScheduleAuditEntry[];
+}
+
+// Raised for fees that cannot be quoted or schedule changes that cannot be made
+export class FeeScheduleError extends HttpError {
+  name = 'FeeScheduleError';
+}
+
+const SCHEDULE_FILE = 'fee_schedule.json';
+
+// Executed swaps by wallet; swaps are not on the ledger, so their volume is kept here for the volume window
+const SWAP_VOLUME_FILE = 'swap_volume.json';
+
+interface SwapVolumeEntry {
+  amount_usd: number; // Input value when quoted
+  executed_at: string;
+}
+
+/**
+ * Fees for mints, redeems and swaps: a volume-tiered rate per action,
+ * adjusted per chain, held between a minimum and a cap, and lowered by any
+ * running promotion. Changes and promotions are written to the audit log.
+ */
+class FeeScheduleService {
+  private config = {
+    volumeWindowDays: parseInt(process.env.FEE_VOLUME_WINDOW_DAYS || '30', 10),
+  };
+
+  private record: FeeScheduleRecord | null = null;
+  // Changes run one at a time
+  private readonly queue = new SerialQueue();
+
+  /**
+   * Reads the record, seeding it from the built-in schedule on first use
+   */
+  private async readRecord(): Promise<FeeScheduleRecord> {
+    if (this.record) return this.record;
+
+    const stored = await FileManager.readJson<FeeScheduleRecord>(SCHEDULE_FILE);
+    if (stored?.schedule) {
+      this.record = { ...stored, promotions: stored.promotions || [], audit: stored.audit || [] };
+      return this.record;
+    }
+
+    const initial: FeeScheduleRecord = {
+      schedule: structuredClone(DEFAULT_FEE_SCHEDULE),
+      promotions: [],
+      updated_at: new Date().toISOString(),
+      updated_by: 'system',
+      audit: [],
+    };
+    await this.writeRecord(initial);
+    return initial;
+  }
+
+  private async writeRecord(record: FeeScheduleRecord): Promise<void> {
+    await FileManager.writeJson(SCHEDULE_FILE, record);
+    this.record = record;
+  }
+
+  async getSchedule(): Promise<{ schedule: FeeSchedule; updated_at: string; updated_by: string }> {
+    const { schedule, updated_at, updated_by } = await this.readRecord();
+    return { schedule, updated_at, updated_by };
+  }
+
+  // Every promotion when `includeFinished`, otherwise running and upcoming ones
+  async getPromotions(includeFinished = false, now: Date = new Date()): Promise<FeePromotion[]> {
+    const { promotions } = await this.readRecord();
+    if (includeFinished) return promotions;
+    return promotions.filter(p => p.ended_at === null && new Date(p.ends_at).getTime() > now.getTime());
+  }
+
+  async getAuditLog(): Promise<FeeScheduleAuditEntry[]> {
+    return (await this.readRecord()).audit;
+  }
+
+  /**
+   * Replaces the given action and chain rules, leaving the rest as they are
+   */
+  async update(changes: FeeScheduleChanges, author: string, comment?: string): Promise<FeeSchedule> {
+    return this.queue.run(async () => {
+      const record = await this.readRecord();
+      const schedule: FeeSchedule = {
+        actions: { ...record.schedule.actions, ...changes.actions },
+        chains: { ...record.schedule.chains, ...changes.chains },
+      };
+
+      const issues = validateFeeSchedule(schedule);
+      if (issues.length > 0) {
+        throw new FeeScheduleError('Fee schedule is invalid', 400, issues);
+      }
+
+      const changed = [
+        ...Object.keys(changes.actions ?? {}).map(action => `actions.${action}`),
+        ...Object.keys(changes.chains ?? {}).map(chain => `chains.${chain}`),
+      ].filter(path => {
+        const [section, key] = path.split('.') as ['actions' | 'chains', string];
+        const before = (record.schedule[section] as Record<string, unknown>)[key];
+        const after = (schedule[section] as Record<string, unknown>)[key];
+        return JSON.stringify(before) !== JSON.stringify(after);
+      });
+      if (changed.length === 0) {
+        throw new FeeScheduleError('Change leaves the fee schedule unchanged', 409);
+      }
+
+      const now = new Date().toISOString();
+      await this.writeRecord({
+        ...record,
+        schedule,
+        updated_at: now,
+        updated_by: author,
+        audit: [...record.audit, {
+          timestamp: now,
+          action: 'schedule_updated',
+          author,
+          changes: changed,
+          promotion_id: null,
+          comment: comment ?? null,
+        }],
+      });
+
+      console.log(`${author} updated fee schedule: ${changed.join(', ')}`);
+      return schedule;
+    });
+  }
+
+  async createPromotion(promotion: NewFeePromotion, author: string, now: Date = new Date()): Promise<FeePromotion> {
+    return this.queue.run(async () => {
+      const record = await this.readRecord();
+      const startsAt = promotion.starts_at ?? now;
+      if (promotion.ends_at.getTime() <= Math.max(startsAt.getTime(), now.getTime())) {
+        throw new FeeScheduleError('ends_at must be after starts_at and in the future');
+      }
+
+      const unknownChains = (promotion.chains ?? []).filter(chain => !chainRuleFor(record.schedule, chain));
+      if (unknownChains.length > 0) {
+        throw new FeeScheduleError(`No fee rules for chain ${unknownChains.join(', ')}`);
+      }
+
+      const created: FeePromotion = {
+        id: randomUUID(),
+        name: promotion.name,
+        actions: [...new Set(promotion.actions)],
+        chains: promotion.chains?.length ? [...new Set(promotion.chains)] : null,
+        bps: promotion.bps,
+        starts_at: startsAt.toISOString(),
+        ends_at: promotion.ends_at.toISOString(),
+        created_by: author,
+        created_at: now.toISOString(),
+        ended_at: null,
+        ended_by: null,
+      };
+
+      await this.writeRecord({
+        ...record,
+        promotions: [...record.promotions, created],
+        audit: [...record.audit, {
+          timestamp: created.created_at,
+          action: 'promotion_created',
+          author,
+          changes: [],
+          promotion_id: created.id,
+          comment: created.name,
+        }],
+      });
+
+      console.log(`${author} created fee promotion "${created.name}" at ${created.bps} bps until ${created.ends_at}`);
+      return created;
+    });
+  }
+
+  // Withdraws a promotion before its end time
+  async endPromotion(id: string, author: string, now: Date = new Date()): Promise<FeePromotion> {
+    return this.queue.run(async () => {
+      const record = await this.readRecord();
+      const promotion = record.promotions.find(p => p.id === id);
+      if (!promotion) {
+        throw new FeeScheduleError(`Promotion ${id} not found`, 404);
+      }
+      if (promotion.ended_at !== null || new Date(promotion.ends_at).getTime() <= now.getTime()) {
+        throw new FeeScheduleError(`Promotion ${id} has already ended`, 409);
+      }
+
+      const ended: FeePromotion = { ...promotion, ended_at: now.toISOString(), ended_by: author };
+      await this.writeRecord({
+        ...record,
+        promotions: record.promotions.map(p => (p.id === id ? ended : p)),
+        audit: [...record.audit, {
+          timestamp: ended.ended_at!,
+          action: 'promotion_ended',
+          author,
+          changes: [],
+          promotion_id: id,
+          comment: promotion.name,
+        }],
+      });
+
+      console.log(`${author} ended fee promotion "${promotion.name}"`);
+      return ended;
+    });
+  }
+
+  /**
+   * The fee for one trade, with how it was arrived at
+   */
+  async quote(request: FeeQuoteRequest, now: Date = new Date()): Promise<FeeBreakdown> {
+    const { schedule, promotions } = await this.readRecord();
+    if (!chainRuleFor(schedule, request.chain)) {
+      throw new FeeScheduleError(`No fee rules for chain ${request.chain}; expected one of ${Object.keys(schedule.chains).join(', ')}`);
+    }
+
+    const volumeUsd = request.walletAddress ? await this.walletVolume(request.walletAddress, now) : 0;
+    return computeFee(schedule, promotions, { ...request, volumeUsd }, now);
+  }
+
+  private volumeWindowStart(now: Date): Date {
+    return new Date(now.getTime() - this.config.volumeWindowDays * 24 * 60 * 60 * 1000);
+  }
+
+  /**
+   * USD value of a wallet's trades over the volume window: confirmed mints
+   * and redeems at the index price each was recorded at, and executed swaps
+   * at their quoted value
+   */
+  async walletVolume(walletAddress: string, now: Date = new Date()): Promise<number> {
+    const from = this.volumeWindowStart(now);
+    const transactions = await storage.queryTransactions({
+      walletAddress,
+      from,
+      sort: 'timestamp',
+      order: 'desc',
+      limit: Number.MAX_SAFE_INTEGER,
+    });
+    const ledgerUsd = transactions
+      .filter((tx: any) => tx.status === 'confirmed')
+      .reduce((sum: number, tx: any) => sum + parseFloat(tx.amount) * parseFloat(tx.avgxPrice), 0);
+
+    const swaps = await FileManager.readJson<Record<string, SwapVolumeEntry[]>>(SWAP_VOLUME_FILE) || {};
+    const swapUsd = (Object.hasOwn(swaps, walletAddress) ? swaps[walletAddress] : [])
+      .filter(entry => new Date(entry.executed_at).getTime() >= from.getTime())
+      .reduce((sum, entry) => sum + entry.amount_usd, 0);
+
+    return ledgerUsd + swapUsd;
+  }
+
+  /**
+   * Counts an executed swap towards the wallet's volume; entries that have
+   * left the volume window are dropped
+   */
+  async recordSwapVolume(walletAddress: string, amountUsd: number, now: Date = new Date()): Promise<void> {
+    const from = this.volumeWindowStart(now).getTime();
+    await FileManager.updateJson<Record<string, SwapVolumeEntry[]>>(SWAP_VOLUME_FILE, current => {
+      const swaps: Record<string, SwapVolumeEntry[]> = {};
+      for (const [wallet, entries] of Object.entries(current || {})) {
+        const live = entries.filter(entry => new Date(entry.executed_at).getTime() >= from);
+        if (live.length > 0) swaps[wallet] = live;
+      }
+      const held = Object.hasOwn(swaps, walletAddress) ? swaps[walletAddress] : [];
+      swaps[walletAddress] = [...held, { amount_usd: amountUsd, executed_at: now.toISOString() }];
+      return swaps;
+    });
+  }
+}
+
+export const feeScheduleService = new FeeScheduleService();
@@ -0,0 +1,32 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { crossValidate } from './fiat-api';
+import type { ProviderRates } from './fiat-providers';
+
+const fetchedAt = '2026-01-01T00:00:00.000Z';
+
+function rates(provider: string, eur: number | undefined): ProviderRates {
+  return { provider, rates: eur === undefined ? {} : { EUR: eur }, fetchedAt };
+}
+
+test('takes the median of agreeing providers', () => {
+  const result = crossValidate('EUR', [rates('a', 0.90), rates('b', 0.91), rates('c', 0.92)], 0.02);
+  assert.equal(result?.rate, 0.91);
+  assert.ok(result?.sources.every(s => s.accepted));
+});
+
+test('rejects a divergent provider and uses the rest', () => {
+  const result = crossValidate('EUR', [rates('a', 0.90), rates('b', 0.91), rates('c', 1.50)], 0.02);
+  assert.equal(result?.rate, 0.905);
+  assert.deepEqual(result?.sources.map(s => s.accepted), [true, true, false]);
+});
+
+test('two disagreeing providers leave the currency to its fallback', () => {
+  // Each is more than maxDeviation from their midpoint, so neither is accepted
+  assert.equal(crossValidate('EUR', [rates('a', 0.90), rates('b', 1.00)], 0.02), null);
+});
+
+test('returns null when no provider quotes the currency', () => {
+  assert.equal(crossValidate('EUR', [rates('a', undefined)], 0.02), null);
+  assert.equal(crossValidate('EUR', [], 0.02), null);
+});
@@ -1,20 +1,68 @@
 import { FileManager } from '../utils/file-manager';
 import { withRetry } from '../utils/retry';
+import { median } from '../utils/consensus';
+import { createFiatRateProviders, type FiatRateProvider, type ProviderRates } from './fiat-providers';
+import { priceGuardService, type Quarantine } from './price-guard';
 
-interface FiatConfig {
+export interface FiatConfig {
   code: string;
   name: string;
   weight: number;
 }
 
-interface FiatData extends FiatConfig {
+interface FiatRateSource {
+  provider: string;
   rate: number;
+  accepted: boolean; // false when the rate disagreed with the other providers
+  fetchedAt: string;
+  asOf?: string;
 }
 
-interface ExchangeRateResponse {
-  base: string;
-  date: string;
-  rates: { [key: string]: number };
+export interface FiatData extends FiatConfig {
+  rate: number;
+  sources: FiatRateSource[];
+  aggregation: 'median' | 'provider_history' | 'baseline' | 'default' | 'last_good'; // last_good: quarantined by the price guard
+  quarantine?: Quarantine;
+}
+
+type ProviderRatesRecord = { [provider: string]: Omit<ProviderRates, 'provider'> };
+
+/**
+ * Cross-validates one currency across providers: rates further than
+ * `maxDeviation` from the median are rejected and the median of the rest is
+ * used. Returns null when no provider quotes the currency, or when the
+ * providers disagree so widely that none is accepted, e.g. two providers far
+ * apart; the currency then falls back like an unquoted one.
+ */
+export function crossValidate(
+  code: string,
+  providerRates: ProviderRates[],
+  maxDeviation: number
+): { rate: number; sources: FiatRateSource[] } | null {
+  const quotes = providerRates
+    .filter(p => p.rates[code] !== undefined)
+    .map(p => ({ provider: p.provider, rate: p.rates[code], fetchedAt: p.fetchedAt, asOf: p.asOf }));
+
+  if (quotes.length === 0) return null;
+
+  const reference = median(quotes.map(q => q.rate));
+  const sources = quotes.map(q => ({
+    ...q,
+    accepted: Math.abs(q.rate - reference) / reference <= maxDeviation,
+  }));
+
+  const rejected = sources.filter(s => !s.accepted);
+  if (rejected.length > 0) {
+    console.warn(`Rejected divergent ${code} rates: ${rejected.map(s => `${s.provider}=${s.rate}`).join(', ')} (median ${reference})`);
+  }
+
+  const accepted = sources.filter(s => s.accepted);
+  if (accepted.length === 0) return null;
+
+  return {
+    rate: median(accepted.map(s => s.rate)),
+    sources,
+  };
 }
 
 class FiatApiService {
@@ -23,11 +71,42 @@ class FiatApiService {
   private lastFetch: Date | null = null;
   private readonly CACHE_DURATION = 60000; // 1 minute
   private readonly EXCHANGE_RATES_API_KEY = process.env.EXCHANGE_RATES_API_KEY;
+  private readonly providers: FiatRateProvider[] = createFiatRateProviders();
+  // Maximum relative distance from the cross-provider median before a rate is discarded
+  private readonly maxDeviation = parseFloat(process.env.FIAT_RATE_MAX_DEVIATION || '0.02');
 
   async initialize(): Promise<void> {
     this.fiatConfig = await FileManager.readJson<FiatConfig[]>('fiats.json') || [];
     console.log(`Loaded ${this.fiatConfig.length} fiat currencies from config`);
     console.log(`Exchange Rates API Key available: ${this.EXCHANGE_RATES_API_KEY ? 'Yes' : 'No'}`);
+    console.log(`Fiat rate providers: ${this.providers.map(p => `${p.name} (${p.kind})`).join(', ')}`);
+  }
+
+  /**
+   * Re-reads fiats.json after a basket change; the next read refetches rates
+   */
+  async reloadConfig(): Promise<void> {
+    await this.initialize();
+    this.lastFetch = null;
+  }
+
+  /**
+   * Providers quoting each code, from a live fetch or, if every provider is
+   * down, the last recorded provider rates. USD is the base of every provider.
+   */
+  async findProviders(codes: string[]): Promise<Record<string, string[]>> {
+    let providerRates = await this.fetchAllProviders();
+    if (providerRates.length === 0) {
+      const recorded = await FileManager.readJson<ProviderRatesRecord>('fiat_provider_rates.json') || {};
+      providerRates = Object.entries(recorded).map(([provider, snapshot]) => ({ provider, ...snapshot }));
+    }
+
+    return Object.fromEntries(codes.map(code => [
+      code,
+      providerRates
+        .filter(p => code === 'USD' || (Number.isFinite(p.rates[code]) && p.rates[code] > 0))
+        .map(p => p.provider),
+    ]));
   }
 
   private shouldRefreshCache(): boolean {
@@ -47,107 +126,148 @@ class FiatApiService {
     return this.refreshRates();
   }
 
-  async refreshRates(): Promise<FiatData[]> {
-    return withRetry(async () => {
-      const baseline = await FileManager.readJson<any>('baseline.json');
-      
+  /**
+   * Fetches every provider in the chain concurrently and records each
+   * successful response in fiat_provider_rates.json
+   */
+  private async fetchAllProviders(): Promise<ProviderRates[]> {
+    const results = await Promise.allSettled(
+      this.providers.map(provider => withRetry(() => provider.fetchRates(), { maxAttempts: 2 }))
+    );
+
+    const fetched: ProviderRates[] = [];
+    results.forEach((result, i) => {
+      if (result.status === 'fulfilled') {
+        fetched.push(result.value);
+      } else {
+        console.warn(`Fiat rate provider ${this.providers[i].name} failed:`, result.reason);
+      }
+    });
+
+    if (fetched.length > 0) {
       try {
-        // Use a simple, reliable free API
-        const apiUrl = 'https://api.exchangerate-api.com/v4/latest/USD';
-        console.log(`Fetching fiat rates from: ${apiUrl}`);
-        
-        const response = await fetch(apiUrl, {
-          method: 'GET',
-          headers: {
-            'Accept': 'application/json',
-            'User-Agent': 'AVGX-Backend/1.0'
+        await FileManager.updateJson<ProviderRatesRecord>('fiat_provider_rates.json', current => {
+          const record = { ...current };
+          for (const { provider, ...snapshot } of fetched) {
+            record[provider] = snapshot;
           }
+          return record;
         });
+      } catch (error) {
+        console.error('Failed to record per-provider fiat rates:', error);
+      }
+    }
 
-        if (!response.ok) {
-          throw new Error(`Exchange Rate API error: ${response.status} ${response.statusText}`);
-        }
-
-        const responseData = await response.json() as any;
-        console.log('API Response structure:', Object.keys(responseData || {}));
-        
-        if (!responseData || !responseData.rates || typeof responseData.rates !== 'object') {
-          console.error('Invalid API response:', responseData);
-          throw new Error('Invalid API response structure');
-        }
-        
-        const rates = responseData.rates;
-        console.log(`Found ${Object.keys(rates).length} rates in API response`);
-
-        // Build rates array starting with USD
-        this.cachedRates = [];
-        const missingCurrencies: string[] = [];
-
-        for (const config of this.fiatConfig) {
-          if (config.code === 'USD') {
-            this.cachedRates.push({
-              ...config,
-              rate: 1.0,
-            });
-          } else if (rates[config.code] && typeof rates[config.code] === 'number') {
-            this.cachedRates.push({
-              ...config,
-              rate: rates[config.code],
-            });
-          } else {
-            // Use baseline rate if available
-            const baselineRate = baseline?.fiat_rates?.[config.code];
-            if (baselineRate) {
-              console.warn(`Using baseline rate for ${config.code}: ${baselineRate}`);
-              this.cachedRates.push({
-                ...config,
-                rate: baselineRate,
-              });
-            } else {
-              // For missing currencies, use a reasonable default based on similar currencies
-              const defaultRate = this.getDefaultRateForCurrency(config.code);
-              console.warn(`Using default rate for ${config.code}: ${defaultRate}`);
-              this.cachedRates.push({
-                ...config,
-                rate: defaultRate,
-              });
-              missingCurrencies.push(config.code);
-            }
-          }
-        }
+    return fetched;
+  }
 
-        if (missingCurrencies.length > 0) {
-          console.warn(`Missing rates for currencies: ${missingCurrencies.join(', ')}`);
-        }
+  async refreshRates(): Promise<FiatData[]> {
+    const baseline = await FileManager.readJson<any>('baseline.json');
+    const providerRates = await this.fetchAllProviders();
 
-        console.log(`Successfully loaded ${this.cachedRates.length} fiat rates`);
-        this.lastFetch = new Date();
-        return this.cachedRates;
-      } catch (error) {
-        console.error('Failed to fetch fiat rates:', error);
-        
-        // Fallback to baseline data with defaults for missing currencies
-        console.log('Using baseline fiat rates due to API failure');
-        this.cachedRates = this.fiatConfig.map(config => {
-          const baselineRate = baseline?.fiat_rates?.[config.code];
-          if (baselineRate) {
-            return {
-              ...config,
-              rate: baselineRate,
-            };
-          } else {
-            // Use default rate for missing currencies
-            const defaultRate = this.getDefaultRateForCurrency(config.code);
-            console.warn(`Using default rate for ${config.code}: ${defaultRate}`);
-            return {
-            ...config,
-              rate: defaultRate,
-            };
-          }
-        });
-        this.lastFetch = new Date();
-          return this.cachedRates;
-        }
+    if (providerRates.length === 0) {
+      console.error('All fiat rate providers failed, using last recorded rates');
+    } else {
+      console.log(`Fetched fiat rates from ${providerRates.map(p => p.provider).join(', ')}`);
+    }
+
+    // Older per-provider snapshots back up currencies no provider returned this round
+    const recordedRates = await FileManager.readJson<ProviderRatesRecord>('fiat_provider_rates.json') || {};
+
+    this.cachedRates = [];
+    const defaultedCurrencies: string[] = [];
+
+    for (const config of this.fiatConfig) {
+      if (config.code === 'USD') {
+        this.cachedRates.push({ ...config, rate: 1.0, sources: [], aggregation: 'median' });
+        continue;
+      }
+
+      const live = crossValidate(config.code, providerRates, this.maxDeviation);
+      if (live) {
+        this.cachedRates.push({ ...config, rate: live.rate, sources: live.sources, aggregation: 'median' });
+        continue;
+      }
+
+      const recorded = crossValidate(
+        config.code,
+        Object.entries(recordedRates).map(([provider, snapshot]) => ({ provider, ...snapshot })),
+        this.maxDeviation
+      );
+      if (recorded) {
+        console.warn(`Using last recorded provider rate for ${config.code}: ${recorded.rate}`);
+        this.cachedRates.push({ ...config, rate: recorded.rate, sources: recorded.sources, aggregation: 'provider_history' });
+        continue;
+      }
+
+      // Use baseline rate if available
+      const baselineRate = baseline?.fiat_rates?.[config.code];
+      if (baselineRate) {
+        console.warn(`Using baseline rate for ${config.code}: ${baselineRate}`);
+        this.cachedRates.push({ ...config, rate: baselineRate, sources: [], aggregation: 'baseline' });
+        continue;
+      }
+
+      // Last resort: static defaults, never recorded into the baseline
+      const defaultRate = this.getDefaultRateForCurrency(config.code);
+      console.warn(`Using default rate for ${config.code}: ${defaultRate}`);
+      this.cachedRates.push({ ...config, rate: defaultRate, sources: [], aggregation: 'default' });
+      defaultedCurrencies.push(config.code);
+    }
+
+    if (defaultedCurrencies.length > 0) {
+      console.warn(`No provider has ever supplied rates for: ${defaultedCurrencies.join(', ')}`);
+    }
+
+    await this.applyPriceGuard();
+
+    // Keep the baseline in step with the latest validated live rates
+    if (baseline && providerRates.length > 0) {
+      const liveRates = this.cachedRates
+        .filter(fiat => fiat.aggregation === 'median')
+        .reduce((acc, fiat) => {
+          acc[fiat.code] = fiat.rate;
+          return acc;
+        }, {} as { [key: string]: number });
+
+      await FileManager.updateJson<any>('baseline.json', current => current && {
+        ...current,
+        fiat_rates: { ...current.fiat_rates, ...liveRates },
+      });
+    }
+
+    console.log(`Successfully loaded ${this.cachedRates.length} fiat rates`);
+    this.lastFetch = new Date();
+    return this.cachedRates;
+  }
+
+  /**
+   * Replaces rates the guard quarantines with the last accepted rate. USD is
+   * the base and is never screened.
+   */
+  private async applyPriceGuard(): Promise<void> {
+    const screened = this.cachedRates.filter(fiat => fiat.code !== 'USD');
+    const verdicts = await priceGuardService.screen('fiat', screened.map(fiat => ({
+      key: fiat.code,
+      value: fiat.rate,
+      live: fiat.aggregation === 'median' || fiat.aggregation === 'provider_history',
+      as_of: fiat.sources
+        .filter(s => s.accepted)
+        .map(s => (s.asOf ? new Date(s.asOf).toISOString() : s.fetchedAt))
+        .sort()
+        .pop() ?? null,
+    })));
+
+    this.cachedRates = this.cachedRates.flatMap(fiat => {
+      const verdict = verdicts.get(fiat.code);
+      if (!verdict || verdict.reason === null) return [fiat];
+      if (verdict.value === null) return [];
+      return [{
+        ...fiat,
+        rate: verdict.value,
+        aggregation: 'last_good' as const,
+        quarantine: { reason: verdict.reason, observed: fiat.rate, last_good_at: verdict.accepted_at },
+      }];
     });
   }
 
@@ -238,8 +358,10 @@ class FiatApiService {
 
   getMissingCurrencies(): string[] {
     const configCodes = this.fiatConfig.map(f => f.code);
-    const cachedCodes = this.cachedRates.map(r => r.code);
-    return configCodes.filter(code => !cachedCodes.includes(code));
+    const resolvedCodes = this.cachedRates
+      .filter(r => r.aggregation !== 'default')
+      .map(r => r.code);
+    return configCodes.filter(code => !resolvedCodes.includes(code));
   }
 }
 
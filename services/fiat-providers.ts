@@ -0,0 +1,222 @@
+export interface ProviderRates {
+  provider: string;
+  rates: Record<string, number>; // Units of currency per 1 USD
+  fetchedAt: string;
+  asOf?: string; // Publication date reported by the provider, when it has one
+}
+
+export interface FiatRateProvider {
+  readonly name: string;
+  readonly kind: 'keyed' | 'keyless' | 'reference';
+  isConfigured(): boolean;
+  fetchRates(): Promise<ProviderRates>;
+}
+
+const REQUEST_TIMEOUT = 10000; // 10 seconds
+
+async function fetchResponse(provider: string, url: string): Promise<Response> {
+  const response = await fetch(url, {
+    headers: { 'Accept': 'application/json', 'User-Agent': 'AVGX-Backend/1.0' },
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+  });
+
+  if (!response.ok) {
+    throw new Error(`${provider} API error: ${response.status} ${response.statusText}`);
+  }
+
+  return response;
+}
+
+function sanitizeRates(provider: string, rates: unknown): Record<string, number> {
+  if (!rates || typeof rates !== 'object') {
+    throw new Error(`${provider}: invalid rates payload`);
+  }
+
+  const clean: Record<string, number> = {};
+  for (const [code, value] of Object.entries(rates as Record<string, unknown>)) {
+    if (typeof value === 'number' && Number.isFinite(value) && value > 0) {
+      clean[code.toUpperCase()] = value;
+    }
+  }
+  return clean;
+}
+
+/**
+ * Converts rates quoted against another base (e.g. EUR) into units per USD
+ */
+function rebaseToUsd(provider: string, rates: Record<string, number>, base: string): Record<string, number> {
+  if (base === 'USD') return { ...rates, USD: 1 };
+
+  const usdRate = rates.USD;
+  if (!usdRate) {
+    throw new Error(`${provider}: USD missing from ${base}-based rates`);
+  }
+
+  const rebased: Record<string, number> = { [base]: 1 / usdRate };
+  for (const [code, rate] of Object.entries(rates)) {
+    rebased[code] = rate / usdRate;
+  }
+  rebased.USD = 1;
+  return rebased;
+}
+
+// exchangeratesapi.io - keyed via EXCHANGE_RATES_API_KEY, EUR base on the free plan
+export class ExchangeRatesApiProvider implements FiatRateProvider {
+  readonly name = 'exchangeratesapi';
+  readonly kind = 'keyed' as const;
+
+  constructor(
+    private readonly apiKey = process.env.EXCHANGE_RATES_API_KEY,
+    private readonly baseUrl = process.env.EXCHANGE_RATES_API_URL || 'https://api.exchangeratesapi.io/v1'
+  ) {}
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  async fetchRates(): Promise<ProviderRates> {
+    const response = await fetchResponse('exchangeratesapi.io', `${this.baseUrl}/latest?access_key=${this.apiKey}`);
+    const data = await response.json() as { success?: boolean; base?: string; date?: string; rates?: unknown; error?: { info?: string } };
+
+    if (data.success === false) {
+      throw new Error(`exchangeratesapi.io error: ${data.error?.info || 'unknown error'}`);
+    }
+
+    const rates = sanitizeRates(this.name, data.rates);
+    return {
+      provider: this.name,
+      rates: rebaseToUsd(this.name, rates, data.base || 'EUR'),
+      fetchedAt: new Date().toISOString(),
+      asOf: data.date,
+    };
+  }
+}
+
+// openexchangerates.org - keyed via OPEN_EXCHANGE_RATES_APP_ID, USD base
+export class OpenExchangeRatesProvider implements FiatRateProvider {
+  readonly name = 'openexchangerates';
+  readonly kind = 'keyed' as const;
+
+  constructor(
+    private readonly appId = process.env.OPEN_EXCHANGE_RATES_APP_ID,
+    private readonly baseUrl = process.env.OPEN_EXCHANGE_RATES_API_URL || 'https://openexchangerates.org/api'
+  ) {}
+
+  isConfigured(): boolean {
+    return !!this.appId;
+  }
+
+  async fetchRates(): Promise<ProviderRates> {
+    const response = await fetchResponse('Open Exchange Rates', `${this.baseUrl}/latest.json?app_id=${this.appId}`);
+    const data = await response.json() as { base?: string; timestamp?: number; rates?: unknown };
+
+    const rates = sanitizeRates(this.name, data.rates);
+    return {
+      provider: this.name,
+      rates: rebaseToUsd(this.name, rates, data.base || 'USD'),
+      fetchedAt: new Date().toISOString(),
+      asOf: data.timestamp ? new Date(data.timestamp * 1000).toISOString() : undefined,
+    };
+  }
+}
+
+// exchangerate-api.com v4 - keyless, USD base
+export class ExchangeRateApiProvider implements FiatRateProvider {
+  readonly name = 'exchangerate-api';
+  readonly kind = 'keyless' as const;
+
+  constructor(private readonly baseUrl = process.env.EXCHANGERATE_API_URL || 'https://api.exchangerate-api.com/v4') {}
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async fetchRates(): Promise<ProviderRates> {
+    const response = await fetchResponse('Exchange Rate API', `${this.baseUrl}/latest/USD`);
+    const data = await response.json() as { base?: string; date?: string; rates?: unknown };
+
+    const rates = sanitizeRates(this.name, data.rates);
+    return {
+      provider: this.name,
+      rates: rebaseToUsd(this.name, rates, data.base || 'USD'),
+      fetchedAt: new Date().toISOString(),
+      asOf: data.date,
+    };
+  }
+}
+
+// open.er-api.com - keyless, USD base
+export class OpenErApiProvider implements FiatRateProvider {
+  readonly name = 'open-er-api';
+  readonly kind = 'keyless' as const;
+
+  constructor(private readonly baseUrl = process.env.OPEN_ER_API_URL || 'https://open.er-api.com/v6') {}
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async fetchRates(): Promise<ProviderRates> {
+    const response = await fetchResponse('open.er-api.com', `${this.baseUrl}/latest/USD`);
+    const data = await response.json() as { result?: string; base_code?: string; time_last_update_unix?: number; rates?: unknown };
+
+    if (data.result && data.result !== 'success') {
+      throw new Error(`open.er-api.com error: ${data.result}`);
+    }
+
+    const rates = sanitizeRates(this.name, data.rates);
+    return {
+      provider: this.name,
+      rates: rebaseToUsd(this.name, rates, data.base_code || 'USD'),
+      fetchedAt: new Date().toISOString(),
+      asOf: data.time_last_update_unix ? new Date(data.time_last_update_unix * 1000).toISOString() : undefined,
+    };
+  }
+}
+
+// ECB euro foreign exchange reference rates - keyless daily XML feed, EUR base
+export class EcbReferenceProvider implements FiatRateProvider {
+  readonly name = 'ecb';
+  readonly kind = 'reference' as const;
+
+  constructor(private readonly feedUrl = process.env.ECB_FEED_URL || 'https://www.ecb.europa.eu/stats/eurofxref/eurofxref-daily.xml') {}
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async fetchRates(): Promise<ProviderRates> {
+    const response = await fetchResponse('ECB', this.feedUrl);
+    const xml = await response.text();
+
+    // <Cube time='2025-08-25'> ... <Cube currency='USD' rate='1.1612'/>
+    const asOf = xml.match(/time=['"](\d{4}-\d{2}-\d{2})['"]/)?.[1];
+    const rates: Record<string, number> = {};
+    for (const match of xml.matchAll(/currency=['"]([A-Z]{3})['"]\s+rate=['"]([\d.]+)['"]/g)) {
+      rates[match[1]] = parseFloat(match[2]);
+    }
+
+    return {
+      provider: this.name,
+      rates: rebaseToUsd(this.name, sanitizeRates(this.name, rates), 'EUR'),
+      fetchedAt: new Date().toISOString(),
+      asOf,
+    };
+  }
+}
+
+/**
+ * Provider chain in priority order: keyed APIs first, then keyless APIs, then the ECB reference feed.
+ * Providers without credentials are left out.
+ */
+export function createFiatRateProviders(): FiatRateProvider[] {
+  const providers: FiatRateProvider[] = [
+    new ExchangeRatesApiProvider(),
+    new OpenExchangeRatesProvider(),
+    new ExchangeRateApiProvider(),
+    new OpenErApiProvider(),
+    new EcbReferenceProvider(),
+  ];
+
+  return providers.filter(provider => provider.isConfigured());
+}
@@ -0,0 +1,116 @@
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileManager } from '../utils/file-manager';
+import { historyRetention } from './history-retention';
+import type { HistoryEntry } from './avgx-calculator';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+const START = Date.parse('2024-01-01T00:00:00Z'); // A Monday
+
+// Rollups and raw history are stored under ./data in the working directory; each test gets its own
+beforeEach(async () => {
+  process.chdir(await fs.mkdtemp(join(tmpdir(), 'history-retention-')));
+});
+
+// One sample every 20 minutes from START until `until`, rising by one each time
+function samples(until: number): HistoryEntry[] {
+  const rows: HistoryEntry[] = [];
+  for (let time = START, i = 0; time < until; time += 20 * MINUTE_MS, i++) {
+    rows.push({
+      timestamp: new Date(time).toISOString(),
+      avgx_usd: 100 + i,
+      wf_value: 1,
+      wc_value: 1000 + i,
+      volatility_index: 0.25,
+      wc_smoothed: 2000 + i,
+    });
+  }
+  return rows;
+}
+
+test('only completed hourly, daily and weekly buckets are rolled up', async () => {
+  const now = new Date(START + 9 * DAY_MS + 30 * MINUTE_MS);
+  await historyRetention.maintain(samples(now.getTime()), now);
+
+  const hourly = await historyRetention.getRollups('hourly');
+  assert.equal(hourly.length, 9 * 24);
+  assert.equal(hourly[hourly.length - 1].timestamp, '2024-01-09T23:00:00.000Z');
+  assert.deepEqual(hourly[0], {
+    timestamp: '2024-01-01T00:00:00.000Z',
+    close_timestamp: '2024-01-01T00:40:00.000Z',
+    sample_count: 3,
+    avgx_usd: { open: 100, high: 102, low: 100, close: 102 },
+    wf_value: { open: 1, high: 1, low: 1, close: 1 },
+    wc_value: { open: 1000, high: 1002, low: 1000, close: 1002 },
+    volatility_index: 0.25,
+    wc_smoothed: 2002,
+  });
+
+  const daily = await historyRetention.getRollups('daily');
+  assert.deepEqual(daily.map(r => r.timestamp.slice(0, 10)), [
+    '2024-01-01', '2024-01-02', '2024-01-03', '2024-01-04', '2024-01-05',
+    '2024-01-06', '2024-01-07', '2024-01-08', '2024-01-09',
+  ]);
+  assert.equal(daily[0].sample_count, 72);
+  assert.deepEqual(daily[0].avgx_usd, { open: 100, high: 171, low: 100, close: 171 });
+  assert.equal(daily[0].close_timestamp, '2024-01-01T23:40:00.000Z');
+
+  // The week starting Monday the 8th is still open
+  const weekly = await historyRetention.getRollups('weekly');
+  assert.deepEqual(weekly.map(r => r.timestamp), ['2024-01-01T00:00:00.000Z']);
+  assert.equal(weekly[0].sample_count, 7 * 72);
+  assert.equal(weekly[0].wc_smoothed, 2000 + 7 * 72 - 1);
+});
+
+test('pruning keeps the retention window and never passes the last hourly rollup', async () => {
+  const now = new Date(START + 3 * DAY_MS + 30 * MINUTE_MS);
+  const rows = samples(now.getTime());
+  await FileManager.writeJson('history.json', rows);
+  await FileManager.writeJson('smoothed_history.json', rows);
+
+  // Nothing has been rolled up, so nothing may go even though most rows are past retention
+  await historyRetention.maintain([], now);
+  assert.equal((await FileManager.readJson<HistoryEntry[]>('history.json'))!.length, rows.length);
+
+  // With the samples rolled up, rows older than 48 hours are dropped
+  const later = new Date(now.getTime() + HOUR_MS);
+  await historyRetention.maintain(rows, later);
+  const cutoff = later.getTime() - 48 * HOUR_MS;
+  for (const filename of ['history.json', 'smoothed_history.json']) {
+    const kept = (await FileManager.readJson<HistoryEntry[]>(filename))!;
+    assert.deepEqual(kept, rows.filter(row => Date.parse(row.timestamp) >= cutoff));
+  }
+});
+
+test('rows newer than the last rollup survive however old they are', async () => {
+  const rows = samples(START + 2 * HOUR_MS);
+  await FileManager.writeJson('history.json', rows);
+
+  // Only the first hour is handed over for rolling up, long after both hours ended
+  const now = new Date(START + 10 * DAY_MS);
+  await historyRetention.maintain(rows.slice(0, 3), now);
+
+  assert.deepEqual((await historyRetention.getRollups('hourly')).map(r => r.timestamp), ['2024-01-01T00:00:00.000Z']);
+  assert.deepEqual(await FileManager.readJson('history.json'), rows.slice(3));
+});
+
+test('running maintain again adds nothing new', async () => {
+  const rows = samples(START + 8 * DAY_MS);
+  const now = new Date(START + 8 * DAY_MS + 30 * MINUTE_MS);
+  await historyRetention.maintain(rows, now);
+
+  const before = await Promise.all((['hourly', 'daily', 'weekly'] as const).map(tier => historyRetention.getRollups(tier)));
+  assert.deepEqual(before.map(rollups => rollups.length), [8 * 24, 8, 1]);
+
+  // Later hours see the same completed buckets and must not append them twice
+  await historyRetention.maintain(rows, new Date(now.getTime() + HOUR_MS));
+  await historyRetention.maintain(rows, new Date(now.getTime() + 2 * HOUR_MS));
+  const after = await Promise.all((['hourly', 'daily', 'weekly'] as const).map(tier => historyRetention.getRollups(tier)));
+
+  assert.deepEqual(after, before);
+});
@@ -0,0 +1,232 @@
+import { FileManager } from '../utils/file-manager';
+import { bucketStart, type Candle } from '../utils/series';
+import type { HistoryEntry } from './avgx-calculator';
+
+export type RollupTier = 'hourly' | 'daily' | 'weekly';
+
+export interface RollupEntry {
+  timestamp: string;       // Bucket start (UTC-aligned, weeks start on Monday)
+  close_timestamp: string; // Time of the last sample in the bucket
+  sample_count: number;
+  avgx_usd: Candle;
+  wf_value: Candle;
+  wc_value: Candle;
+  volatility_index: number | null; // Sample-weighted mean, null when no sample carried one
+  wc_smoothed?: number | null;     // Smoothed crypto basket at the close; absent on rows written before it was kept
+}
+
+// A raw sample or a finer rollup row feeding the next tier
+interface RollupPart {
+  time: number;
+  closeTime?: number;
+  count: number;
+  avgx_usd: number | Candle;
+  wf_value: number | Candle;
+  wc_value: number | Candle;
+  volatility: number | null | undefined;
+  wcSmoothed: number | null | undefined;
+}
+
+interface RetentionConfig {
+  raw_retention_ms: number; // How long per-tick and hourly raw samples are kept (default: 48 hours)
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const WEEK_MS = 7 * DAY_MS;
+const MONDAY_OFFSET_MS = 4 * DAY_MS; // 1970-01-01 was a Thursday
+
+export const ROLLUP_INTERVAL_MS: Record<RollupTier, number> = {
+  hourly: HOUR_MS,
+  daily: DAY_MS,
+  weekly: WEEK_MS,
+};
+
+const ROLLUP_FILES: Record<RollupTier, string> = {
+  hourly: 'history_hourly.json',
+  daily: 'history_daily.json',
+  weekly: 'history_weekly.json',
+};
+
+export function rollupBucketStart(time: number, tier: RollupTier): number {
+  if (tier === 'weekly') {
+    return bucketStart(time - MONDAY_OFFSET_MS, WEEK_MS) + MONDAY_OFFSET_MS;
+  }
+  return bucketStart(time, ROLLUP_INTERVAL_MS[tier]);
+}
+
+function mergeCandles(candles: Candle[]): Candle {
+  return {
+    open: candles[0].open,
+    high: Math.max(...candles.map(c => c.high)),
+    low: Math.min(...candles.map(c => c.low)),
+    close: candles[candles.length - 1].close,
+  };
+}
+
+function weightedVolatility(parts: Array<{ volatility: number | null | undefined; weight: number }>): number | null {
+  const valid = parts.filter(p => typeof p.volatility === 'number' && Number.isFinite(p.volatility));
+  const totalWeight = valid.reduce((sum, p) => sum + p.weight, 0);
+  if (totalWeight === 0) return null;
+  return valid.reduce((sum, p) => sum + (p.volatility as number) * p.weight, 0) / totalWeight;
+}
+
+/**
+ * Keeps raw samples for a short window and rolls them up into hourly, daily and
+ * weekly aggregates that are kept indefinitely. Only completed buckets are
+ * rolled up, so every rollup row is final once written.
+ */
+class HistoryRetentionService {
+  private config: RetentionConfig = {
+    raw_retention_ms: parseInt(process.env.HISTORY_RAW_RETENTION_HOURS || '48', 10) * HOUR_MS,
+  };
+  private lastMaintainedHour: number | null = null;
+
+  getConfig(): RetentionConfig {
+    return { ...this.config };
+  }
+
+  async getRollups(tier: RollupTier): Promise<RollupEntry[]> {
+    return await FileManager.readJson<RollupEntry[]>(ROLLUP_FILES[tier]) || [];
+  }
+
+  /**
+   * Rolls up newly completed buckets and prunes expired raw samples.
+   * Does nothing until a new hour has completed since the last run.
+   */
+  async maintain(samples: HistoryEntry[], now: Date = new Date()): Promise<void> {
+    const currentHour = rollupBucketStart(now.getTime(), 'hourly');
+    if (this.lastMaintainedHour === currentHour) return;
+
+    try {
+      const hourly = await this.rollUp('hourly', samples.map(sample => ({
+        time: new Date(sample.timestamp).getTime(),
+        count: 1,
+        avgx_usd: sample.avgx_usd,
+        wf_value: sample.wf_value,
+        wc_value: sample.wc_value,
+        volatility: sample.volatility_index,
+        wcSmoothed: sample.wc_smoothed,
+      })), now);
+
+      const daily = await this.rollUp('daily', hourly.map(this.fromRollup), now);
+      await this.rollUp('weekly', daily.map(this.fromRollup), now);
+
+      const lastHourly = hourly[hourly.length - 1];
+      const rolledUpUntil = lastHourly
+        ? new Date(lastHourly.timestamp).getTime() + HOUR_MS
+        : 0;
+      await this.pruneRaw(Math.min(now.getTime() - this.config.raw_retention_ms, rolledUpUntil));
+
+      this.lastMaintainedHour = currentHour;
+    } catch (error) {
+      console.error('History retention failed:', error);
+    }
+  }
+
+  private fromRollup = (entry: RollupEntry) => ({
+    time: new Date(entry.timestamp).getTime(),
+    closeTime: new Date(entry.close_timestamp).getTime(),
+    count: entry.sample_count,
+    avgx_usd: entry.avgx_usd,
+    wf_value: entry.wf_value,
+    wc_value: entry.wc_value,
+    volatility: entry.volatility_index,
+    wcSmoothed: entry.wc_smoothed,
+  });
+
+  /**
+   * Appends rows for every completed bucket after the last stored one and
+   * returns the full tier
+   */
+  private async rollUp(
+    tier: RollupTier,
+    parts: RollupPart[],
+    now: Date
+  ): Promise<RollupEntry[]> {
+    let added = 0;
+    const updated = await FileManager.updateJson<RollupEntry[]>(ROLLUP_FILES[tier], current => {
+      const rows = this.aggregate(tier, current || [], parts, now);
+      added = rows.length;
+      return rows.length > 0 ? (current || []).concat(rows) : null;
+    });
+
+    if (added > 0) {
+      console.log(`Rolled up ${added} ${tier} bucket(s)`);
+    }
+    return updated || [];
+  }
+
+  /**
+   * Rows for every completed bucket after the last existing one
+   */
+  private aggregate(
+    tier: RollupTier,
+    existing: RollupEntry[],
+    parts: RollupPart[],
+    now: Date
+  ): RollupEntry[] {
+    const last = existing[existing.length - 1];
+    const after = last ? new Date(last.timestamp).getTime() + ROLLUP_INTERVAL_MS[tier] : -Infinity;
+    const currentBucket = rollupBucketStart(now.getTime(), tier);
+
+    const groups = new Map<number, typeof parts>();
+    for (const part of parts) {
+      if (!Number.isFinite(part.time) || part.time < after) continue;
+      const start = rollupBucketStart(part.time, tier);
+      if (start >= currentBucket) continue; // Bucket still open
+      const group = groups.get(start) || [];
+      group.push(part);
+      groups.set(start, group);
+    }
+
+    if (groups.size === 0) return [];
+
+    const toCandle = (v: number | Candle): Candle =>
+      typeof v === 'number' ? { open: v, high: v, low: v, close: v } : v;
+
+    return Array.from(groups.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([start, group]) => {
+        group.sort((a, b) => a.time - b.time);
+        const closing = group[group.length - 1];
+        const smoothedClose = group.filter(p => typeof p.wcSmoothed === 'number').pop();
+        return {
+          timestamp: new Date(start).toISOString(),
+          close_timestamp: new Date(closing.closeTime ?? closing.time).toISOString(),
+          sample_count: group.reduce((sum, p) => sum + p.count, 0),
+          avgx_usd: mergeCandles(group.map(p => toCandle(p.avgx_usd))),
+          wf_value: mergeCandles(group.map(p => toCandle(p.wf_value))),
+          wc_value: mergeCandles(group.map(p => toCandle(p.wc_value))),
+          volatility_index: weightedVolatility(group.map(p => ({ volatility: p.volatility, weight: p.count }))),
+          wc_smoothed: smoothedClose?.wcSmoothed ?? null,
+        };
+      });
+  }
+
+  /**
+   * Drops raw rows older than `cutoff`. The cutoff never passes the end of the
+   * last hourly rollup, so nothing is deleted before it has been aggregated.
+   */
+  private async pruneRaw(cutoff: number): Promise<void> {
+    for (const filename of ['smoothed_history.json', 'history.json']) {
+      let pruned = 0;
+      await FileManager.updateJson<Array<{ timestamp: string }>>(filename, rows => {
+        if (!rows) return null;
+        const kept = rows.filter(row => new Date(row.timestamp).getTime() >= cutoff);
+
+        // Always keep the latest row, the EWMA and daily clamp continue from it
+        if (kept.length === 0 && rows.length > 0) kept.push(rows[rows.length - 1]);
+
+        pruned = rows.length - kept.length;
+        return pruned > 0 ? kept : null;
+      });
+
+      if (pruned > 0) {
+        console.log(`Pruned ${pruned} expired row(s) from ${filename}`);
+      }
+    }
+  }
+}
+
+export const historyRetention = new HistoryRetentionService();
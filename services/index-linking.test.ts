@@ -0,0 +1,39 @@
+import { test, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { indexLinkingService } from './index-linking';
+
+// Divisors are stored under ./data in the working directory
+before(async () => {
+  process.chdir(await fs.mkdtemp(join(tmpdir(), 'index-linking-')));
+});
+
+test('a basket switch rescales the divisor so the divided level is continuous', async () => {
+  assert.deepEqual(await indexLinkingService.getDivisors(), { fiat: 1, crypto: 1 });
+
+  const first = await indexLinkingService.link('crypto', 1, 2, 50000, 60000, []);
+  assert.equal(first.divisor_after, 1.2);
+  assert.equal(50000 / first.divisor_before, 60000 / first.divisor_after);
+
+  // Links compound on the current divisor
+  const second = await indexLinkingService.link('crypto', 2, 3, 66000, 55000, ['SOL']);
+  assert.equal(second.divisor_before, 1.2);
+  assert.ok(Math.abs(66000 / 1.2 - 55000 / second.divisor_after) < 1e-9);
+  assert.deepEqual(second.estimated_prices, ['SOL']);
+
+  const divisors = await indexLinkingService.getDivisors();
+  assert.equal(divisors.crypto, second.divisor_after);
+  assert.equal(divisors.fiat, 1);
+});
+
+test('an unpriceable switch leaves the divisor unchanged but is recorded', async () => {
+  const before = (await indexLinkingService.getDivisors()).fiat;
+  const link = await indexLinkingService.link('fiat', 1, 2, null, 1.1, []);
+  assert.equal(link.divisor_after, before);
+  assert.equal((await indexLinkingService.getDivisors()).fiat, before);
+
+  const links = await indexLinkingService.getLinks();
+  assert.deepEqual(links.map(l => [l.basket, l.to_revision]), [['crypto', 2], ['crypto', 3], ['fiat', 2]]);
+});
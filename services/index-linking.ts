@@ -0,0 +1,98 @@
+import { FileManager } from '../utils/file-manager';
+import type { BasketKind } from './basket-config';
+
+// Audit record of one basket switch
+export interface BasketLink {
+  basket: BasketKind;
+  from_revision: number;
+  to_revision: number;
+  linked_at: string;
+  level_before: number | null; // Raw level of the outgoing basket at the link prices, null if unpriceable
+  level_after: number | null;  // Raw level of the incoming basket at the same prices
+  divisor_before: number;
+  divisor_after: number;
+  estimated_prices: string[]; // Constituents priced from the baseline instead of a live fetch
+}
+
+interface DivisorRecord {
+  divisors: Record<BasketKind, number>;
+  links: BasketLink[];
+}
+
+const DIVISORS_FILE = 'index_divisors.json';
+
+const INITIAL_DIVISORS: Record<BasketKind, number> = { fiat: 1, crypto: 1 };
+
+/**
+ * Keeps WF and WC continuous across basket changes. Each basket level is
+ * divided by a divisor; when the basket switches, the divisor is rescaled by
+ * the ratio of the new to the old basket level at the same prices, so the
+ * divided level is unchanged at the switch instant.
+ */
+class IndexLinkingService {
+  private divisors: Record<BasketKind, number> | null = null;
+
+  async getDivisors(): Promise<Record<BasketKind, number>> {
+    if (!this.divisors) {
+      const record = await FileManager.readJson<DivisorRecord>(DIVISORS_FILE);
+      this.divisors = { ...INITIAL_DIVISORS, ...record?.divisors };
+    }
+    return { ...this.divisors };
+  }
+
+  async getLinks(): Promise<BasketLink[]> {
+    return (await FileManager.readJson<DivisorRecord>(DIVISORS_FILE))?.links || [];
+  }
+
+  /**
+   * Rescales the basket's divisor for a switch from `levelBefore` to
+   * `levelAfter` and records the link. Levels must be positive; when either
+   * is unknown the divisor is left as it is and the link records that.
+   */
+  async link(
+    basket: BasketKind,
+    fromRevision: number,
+    toRevision: number,
+    levelBefore: number | null,
+    levelAfter: number | null,
+    estimatedPrices: string[]
+  ): Promise<BasketLink> {
+    let recorded!: BasketLink;
+
+    const updated = await FileManager.updateJson<DivisorRecord>(DIVISORS_FILE, current => {
+      const divisors = { ...INITIAL_DIVISORS, ...current?.divisors };
+      const divisorBefore = divisors[basket];
+      const usable = levelBefore !== null && levelAfter !== null;
+
+      recorded = {
+        basket,
+        from_revision: fromRevision,
+        to_revision: toRevision,
+        linked_at: new Date().toISOString(),
+        level_before: levelBefore,
+        level_after: levelAfter,
+        divisor_before: divisorBefore,
+        divisor_after: usable ? divisorBefore * (levelAfter as number) / (levelBefore as number) : divisorBefore,
+        estimated_prices: estimatedPrices,
+      };
+
+      return {
+        divisors: { ...divisors, [basket]: recorded.divisor_after },
+        links: [...(current?.links || []), recorded],
+      };
+    });
+
+    this.divisors = updated?.divisors ?? null;
+
+    if (recorded.level_before === null || recorded.level_after === null) {
+      console.warn(`Could not link ${basket} basket revision ${fromRevision} -> ${toRevision}, divisor unchanged`);
+    } else {
+      console.log(`Linked ${basket} basket revision ${fromRevision} -> ${toRevision}: ` +
+        `divisor ${recorded.divisor_before.toPrecision(8)} -> ${recorded.divisor_after.toPrecision(8)}`);
+    }
+
+    return recorded;
+  }
+}
+
+export const indexLinkingService = new IndexLinkingService();
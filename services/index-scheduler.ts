@@ -0,0 +1,139 @@
+import { avgxCalculatorService, type AvgxSnapshot, type HistoryEntry } from './avgx-calculator';
+import { historyRetention } from './history-retention';
+import { basketConfigService } from './basket-config';
+import { stabilityConfigService } from './stability-config';
+import { FileManager } from '../utils/file-manager';
+
+interface SchedulerConfig {
+  enabled: boolean;
+  tick_interval_ms: number;    // How often the index is computed (default: 1 minute)
+  history_interval_ms: number; // Bucket size for history.json rows (default: 1 hour)
+}
+
+export interface SchedulerStatus {
+  running: boolean;
+  config: SchedulerConfig;
+  last_tick_at: string | null;
+  last_tick_duration_ms: number | null;
+  last_error: string | null;
+  tick_count: number;
+  next_tick_at: string | null;
+}
+
+class IndexSchedulerService {
+  private config: SchedulerConfig = {
+    enabled: process.env.AVGX_SCHEDULER_ENABLED !== 'false',
+    tick_interval_ms: parseInt(process.env.AVGX_TICK_INTERVAL_MS || '60000', 10),
+    history_interval_ms: parseInt(process.env.AVGX_HISTORY_INTERVAL_MS || '3600000', 10),
+  };
+  private timer: NodeJS.Timeout | null = null;
+  private inFlight: Promise<AvgxSnapshot> | null = null;
+  private lastHistoryBucket: number | null = null;
+  private lastTickAt: Date | null = null;
+  private lastTickDuration: number | null = null;
+  private lastError: string | null = null;
+  private tickCount = 0;
+  private nextTickAt: Date | null = null;
+
+  /**
+   * Starts ticking. The first tick runs immediately, later ticks are aligned to
+   * multiples of the tick interval so the cadence does not drift.
+   */
+  async start(): Promise<void> {
+    if (!this.config.enabled) {
+      console.log('Index scheduler disabled (AVGX_SCHEDULER_ENABLED=false)');
+      return;
+    }
+    if (this.timer) return;
+
+    // Resume history bucketing from the last persisted row
+    const history = await FileManager.readJson<HistoryEntry[]>('history.json') || [];
+    if (history.length > 0) {
+      this.lastHistoryBucket = this.bucketOf(new Date(history[history.length - 1].timestamp));
+    }
+
+    console.log(`Index scheduler started (tick: ${this.config.tick_interval_ms}ms, history: ${this.config.history_interval_ms}ms)`);
+    await this.tick().catch(() => undefined);
+    this.scheduleNext();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+      this.nextTickAt = null;
+      console.log('Index scheduler stopped');
+    }
+  }
+
+  private scheduleNext(): void {
+    const interval = this.config.tick_interval_ms;
+    const delay = interval - (Date.now() % interval);
+    this.nextTickAt = new Date(Date.now() + delay);
+
+    this.timer = setTimeout(async () => {
+      await this.tick().catch(() => undefined);
+      if (this.timer) this.scheduleNext();
+    }, delay);
+  }
+
+  private bucketOf(date: Date): number {
+    return Math.floor(date.getTime() / this.config.history_interval_ms);
+  }
+
+  /**
+   * Computes and publishes one snapshot. Concurrent callers share the tick in flight.
+   */
+  async tick(): Promise<AvgxSnapshot> {
+    if (this.inFlight) return this.inFlight;
+
+    this.inFlight = (async () => {
+      const startedAt = Date.now();
+      try {
+        // Scheduled basket revisions switch in before the index is computed
+        await basketConfigService.activateDue();
+        await stabilityConfigService.activateDue();
+
+        const snapshot = await avgxCalculatorService.computeSnapshot();
+
+        // One history row per bucket: the first tick to land in a new bucket writes it
+        const bucket = this.bucketOf(new Date(snapshot.timestamp));
+        const appendHistory = bucket !== this.lastHistoryBucket;
+
+        await avgxCalculatorService.publishSnapshot(snapshot, { appendHistory });
+
+        if (appendHistory) this.lastHistoryBucket = bucket;
+
+        // Roll up completed hours and prune expired raw samples
+        await historyRetention.maintain(await avgxCalculatorService.getHistorySamples());
+        this.lastError = null;
+        this.tickCount++;
+        return snapshot;
+      } catch (error: any) {
+        this.lastError = error?.message || String(error);
+        console.error('Index scheduler tick failed:', error);
+        throw error;
+      } finally {
+        this.lastTickAt = new Date(startedAt);
+        this.lastTickDuration = Date.now() - startedAt;
+        this.inFlight = null;
+      }
+    })();
+
+    return this.inFlight;
+  }
+
+  getStatus(): SchedulerStatus {
+    return {
+      running: this.timer !== null,
+      config: { ...this.config },
+      last_tick_at: this.lastTickAt?.toISOString() ?? null,
+      last_tick_duration_ms: this.lastTickDuration,
+      last_error: this.lastError,
+      tick_count: this.tickCount,
+      next_tick_at: this.nextTickAt?.toISOString() ?? null,
+    };
+  }
+}
+
+export const indexScheduler = new IndexSchedulerService();
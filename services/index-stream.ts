@@ -0,0 +1,244 @@
+import type { Server } from 'http';
+import type { Response } from 'express';
+import { WebSocketServer, WebSocket } from 'ws';
+import { avgxCalculatorService, type AvgxSnapshot } from './avgx-calculator';
+import { avgxCoinService } from './avgx-coin';
+
+export type StreamChannel = 'index' | 'fiat' | 'crypto' | 'peg';
+
+export const STREAM_CHANNELS: StreamChannel[] = ['index', 'fiat', 'crypto', 'peg'];
+
+export interface StreamMessage {
+  channel: StreamChannel;
+  type: 'snapshot' | 'update';
+  timestamp: string;
+  data: unknown;
+}
+
+interface Subscriber {
+  channels: Set<StreamChannel>;
+  send(message: StreamMessage): void;
+  heartbeat(): void;
+  close(): void;
+}
+
+const HEARTBEAT_INTERVAL = parseInt(process.env.STREAM_HEARTBEAT_MS || '30000', 10);
+const WS_PATH = '/api/stream';
+
+/**
+ * Parses a comma-separated channel list; unknown names are ignored and an
+ * empty selection means the index channel only
+ */
+export function parseChannels(raw: unknown): Set<StreamChannel> {
+  const names = (Array.isArray(raw) ? raw : String(raw ?? '').split(','))
+    .map(name => String(name).trim().toLowerCase())
+    .filter((name): name is StreamChannel => STREAM_CHANNELS.includes(name as StreamChannel));
+  return new Set(names.length > 0 ? names : ['index']);
+}
+
+/**
+ * Pushes every published AVGX snapshot to WebSocket and Server-Sent Events
+ * subscribers. Basket channels carry only the constituents whose price moved
+ * since the previous snapshot; a new subscriber first receives a full snapshot.
+ */
+class IndexStreamService {
+  private subscribers = new Set<Subscriber>();
+  private wss: WebSocketServer | null = null;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private unsubscribe: (() => void) | null = null;
+
+  /**
+   * Accepts WebSocket upgrades on /api/stream and starts broadcasting
+   */
+  attach(server: Server): void {
+    if (this.wss) return;
+
+    this.wss = new WebSocketServer({ server, path: WS_PATH });
+    this.wss.on('connection', (socket, request) => {
+      const url = new URL(request.url || WS_PATH, 'http://localhost');
+      this.addWebSocket(socket, parseChannels(url.searchParams.get('channels')));
+    });
+
+    this.unsubscribe = avgxCalculatorService.onSnapshot((snapshot, previous) => {
+      this.broadcast(snapshot, previous).catch(error => console.error('Stream broadcast failed:', error));
+    });
+
+    this.heartbeatTimer = setInterval(() => {
+      for (const subscriber of this.subscribers) subscriber.heartbeat();
+    }, HEARTBEAT_INTERVAL);
+
+    console.log(`Index stream available at ws://<host>${WS_PATH} and ${WS_PATH}/sse`);
+  }
+
+  close(): void {
+    if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
+    this.unsubscribe?.();
+    for (const subscriber of this.subscribers) subscriber.close();
+    this.subscribers.clear();
+    this.wss?.close();
+    this.wss = null;
+  }
+
+  private addWebSocket(socket: WebSocket, channels: Set<StreamChannel>): void {
+    let alive = true;
+    const subscriber: Subscriber = {
+      channels,
+      send: message => {
+        if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+      },
+      heartbeat: () => {
+        // No pong since the last ping: the connection is dead
+        if (!alive) {
+          socket.terminate();
+          return;
+        }
+        alive = false;
+        socket.ping();
+      },
+      close: () => socket.close(1001, 'Server shutting down'),
+    };
+
+    socket.on('pong', () => { alive = true; });
+    socket.on('message', raw => {
+      try {
+        const message = JSON.parse(raw.toString());
+        const requested = parseChannels(message.channels);
+        if (message.type === 'subscribe') {
+          requested.forEach(channel => subscriber.channels.add(channel));
+          this.sendInitial(subscriber, requested);
+        } else if (message.type === 'unsubscribe') {
+          requested.forEach(channel => subscriber.channels.delete(channel));
+        }
+        socket.send(JSON.stringify({ type: 'subscriptions', channels: Array.from(subscriber.channels) }));
+      } catch {
+        socket.send(JSON.stringify({ type: 'error', message: 'Expected {"type":"subscribe"|"unsubscribe","channels":[...]}' }));
+      }
+    });
+    socket.on('close', () => this.subscribers.delete(subscriber));
+    socket.on('error', () => this.subscribers.delete(subscriber));
+
+    this.subscribers.add(subscriber);
+    socket.send(JSON.stringify({ type: 'subscriptions', channels: Array.from(channels) }));
+    this.sendInitial(subscriber, channels);
+  }
+
+  /**
+   * Serves an SSE stream on an open response; used where WebSockets are unavailable
+   */
+  addEventStream(res: Response, channels: Set<StreamChannel>): void {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+    res.write(`retry: 5000\n\n`);
+
+    const subscriber: Subscriber = {
+      channels,
+      send: message => {
+        res.write(`event: ${message.channel}\ndata: ${JSON.stringify(message)}\n\n`);
+      },
+      heartbeat: () => {
+        res.write(`: heartbeat ${new Date().toISOString()}\n\n`);
+      },
+      close: () => res.end(),
+    };
+
+    res.on('close', () => this.subscribers.delete(subscriber));
+    this.subscribers.add(subscriber);
+    this.sendInitial(subscriber, channels);
+  }
+
+  private sendInitial(subscriber: Subscriber, channels: Set<StreamChannel>): void {
+    const snapshot = avgxCalculatorService.getLatestSnapshot();
+    if (!snapshot) return;
+
+    this.buildMessages(snapshot, null, channels)
+      .then(messages => messages.forEach(message => subscriber.send(message)))
+      .catch(error => console.error('Failed to send initial stream snapshot:', error));
+  }
+
+  private async broadcast(snapshot: AvgxSnapshot, previous: AvgxSnapshot | null): Promise<void> {
+    if (this.subscribers.size === 0) return;
+
+    const wanted = new Set<StreamChannel>();
+    for (const subscriber of this.subscribers) {
+      subscriber.channels.forEach(channel => wanted.add(channel));
+    }
+
+    const messages = await this.buildMessages(snapshot, previous, wanted);
+    for (const subscriber of this.subscribers) {
+      for (const message of messages) {
+        if (subscriber.channels.has(message.channel)) subscriber.send(message);
+      }
+    }
+  }
+
+  /**
+   * Messages for the requested channels. Without a previous snapshot every
+   * constituent is included; otherwise only those whose value changed.
+   */
+  private async buildMessages(
+    snapshot: AvgxSnapshot,
+    previous: AvgxSnapshot | null,
+    channels: Set<StreamChannel>
+  ): Promise<StreamMessage[]> {
+    const type = previous ? 'update' : 'snapshot';
+    const messages: StreamMessage[] = [];
+
+    if (channels.has('index')) {
+      messages.push({
+        channel: 'index',
+        type,
+        timestamp: snapshot.timestamp,
+        data: {
+          avgx_usd: snapshot.avgx_usd,
+          wf_value: snapshot.wf_value,
+          wc_value: snapshot.wc_value,
+          volatility_index: snapshot.volatility_index,
+          change24h: snapshot.change24h,
+          changes: snapshot.changes,
+          publication: avgxCalculatorService.assessSnapshot(snapshot).publication,
+        },
+      });
+    }
+
+    if (channels.has('fiat')) {
+      const before = new Map(previous?.fiatBasket.map(f => [f.code, f.rate]));
+      const changed = snapshot.fiatBasket.filter(f => before.get(f.code) !== f.rate);
+      if (!previous || changed.length > 0) {
+        messages.push({ channel: 'fiat', type, timestamp: snapshot.timestamp, data: changed });
+      }
+    }
+
+    if (channels.has('crypto')) {
+      const before = new Map(previous?.cryptoBasket.map(c => [c.id, c.price]));
+      const changed = snapshot.cryptoBasket.filter(c => before.get(c.id) !== c.price);
+      if (!previous || changed.length > 0) {
+        messages.push({ channel: 'crypto', type, timestamp: snapshot.timestamp, data: changed });
+      }
+    }
+
+    if (channels.has('peg')) {
+      messages.push({
+        channel: 'peg',
+        type,
+        timestamp: snapshot.timestamp,
+        data: await avgxCoinService.getPegStatus(),
+      });
+    }
+
+    return messages;
+  }
+
+  getStats(): { subscribers: number; channels: Record<StreamChannel, number> } {
+    const channels = { index: 0, fiat: 0, crypto: 0, peg: 0 };
+    for (const subscriber of this.subscribers) {
+      subscriber.channels.forEach(channel => channels[channel]++);
+    }
+    return { subscribers: this.subscribers.size, channels };
+  }
+}
+
+export const indexStream = new IndexStreamService();
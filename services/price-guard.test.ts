@@ -0,0 +1,127 @@
+import { test, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { priceGuardService, PriceIncidentError, type GuardInput } from './price-guard';
+
+const MINUTE_MS = 60 * 1000;
+const NOW = new Date('2024-01-01T12:00:00Z');
+
+// Guard state and incidents are stored under ./data in the working directory; tests use distinct keys
+before(async () => {
+  process.chdir(await fs.mkdtemp(join(tmpdir(), 'price-guard-')));
+});
+
+function input(key: string, value: number, extra: Partial<GuardInput> = {}): GuardInput {
+  return { key, value, live: true, as_of: NOW.toISOString(), ...extra };
+}
+
+async function screenOne(key: string, value: number, extra: Partial<GuardInput> = {}) {
+  return (await priceGuardService.screen('crypto', [input(key, value, extra)], NOW)).get(key)!;
+}
+
+test('a move within the threshold is accepted and becomes the last good value', async () => {
+  assert.deepEqual(await screenOne('alpha', 100), { value: 100, reason: null, accepted_at: NOW.toISOString() });
+  assert.equal((await screenOne('alpha', 119)).value, 119);
+  assert.equal((await priceGuardService.getLastGood()).crypto.alpha.value, 119);
+  assert.deepEqual(await priceGuardService.listIncidents(), []);
+});
+
+test('a breach of the move threshold publishes the last good value and opens an incident', async () => {
+  await screenOne('beta', 100);
+  const verdict = await screenOne('beta', 150);
+  assert.deepEqual(verdict, { value: 100, reason: 'max_move', accepted_at: NOW.toISOString() });
+
+  // Repeats of the same breach extend the incident rather than opening another
+  await screenOne('beta', 40);
+  const [incident] = await priceGuardService.listIncidents({ basket: 'crypto', status: 'open' });
+  assert.equal(incident.key, 'beta');
+  assert.equal(incident.reason, 'max_move');
+  assert.equal(incident.observed, 40);
+  assert.equal(incident.substituted, 100);
+  assert.equal(incident.occurrences, 2);
+
+  // Returning within the threshold resolves it
+  assert.equal((await screenOne('beta', 105)).reason, null);
+  const resolved = (await priceGuardService.getIncident(incident.id))!;
+  assert.equal(resolved.status, 'resolved');
+  assert.equal(resolved.resolution, 'recovered');
+});
+
+test('a move that holds for the configured readings is accepted as the new level', async () => {
+  const { confirmations } = priceGuardService.getConfig();
+  await screenOne('gamma', 100);
+
+  for (let i = 1; i < confirmations; i++) {
+    assert.equal((await screenOne('gamma', 200 + i)).value, 100);
+  }
+  assert.deepEqual(await screenOne('gamma', 200), { value: 200, reason: null, accepted_at: NOW.toISOString() });
+
+  const [incident] = await priceGuardService.listIncidents({ status: 'resolved' }).then(all => all.filter(i => i.key === 'gamma'));
+  assert.equal(incident.resolution, 'confirmed');
+});
+
+test('non-live inputs are never confirmed into a new level', async () => {
+  await screenOne('delta', 100);
+  for (let i = 0; i < priceGuardService.getConfig().confirmations + 1; i++) {
+    assert.equal((await screenOne('delta', 300, { live: false })).reason, 'max_move');
+  }
+});
+
+test('stale and invalid inputs are quarantined', async () => {
+  await screenOne('epsilon', 100);
+  const { max_age_ms } = priceGuardService.getConfig();
+  const old = new Date(NOW.getTime() - max_age_ms.crypto - MINUTE_MS).toISOString();
+
+  assert.deepEqual(await screenOne('epsilon', 101, { as_of: old }), { value: 100, reason: 'stale', accepted_at: NOW.toISOString() });
+  assert.deepEqual(await screenOne('epsilon', NaN), { value: 100, reason: 'invalid', accepted_at: NOW.toISOString() });
+
+  // Without a last good value a stale price is still published, an invalid one is dropped
+  assert.equal((await screenOne('zeta', 50, { as_of: old })).value, 50);
+  assert.deepEqual(await screenOne('eta', -1), { value: null, reason: 'invalid', accepted_at: null });
+
+  const reasons = (await priceGuardService.listIncidents({ status: 'open' })).map(i => [i.key, i.reason]);
+  for (const expected of [['epsilon', 'stale'], ['epsilon', 'invalid'], ['zeta', 'stale'], ['eta', 'invalid']]) {
+    assert.ok(reasons.some(r => r[0] === expected[0] && r[1] === expected[1]), `missing ${expected.join(' ')} incident`);
+  }
+});
+
+test('an admin can resume a quarantined price by accepting the observed value', async () => {
+  await screenOne('theta', 100);
+  await screenOne('theta', 180);
+  const [incident] = (await priceGuardService.listIncidents({ status: 'open' })).filter(i => i.key === 'theta');
+
+  const acknowledged = await priceGuardService.acknowledge(incident.id, 'alice', { note: 'Redenomination', acceptObserved: true });
+  assert.equal(acknowledged.acknowledged_by, 'alice');
+  assert.equal(acknowledged.resolution, 'accepted_by_admin');
+  assert.equal((await priceGuardService.getLastGood()).crypto.theta.value, 180);
+
+  // Readings near the accepted value now pass and close the incident
+  assert.equal((await screenOne('theta', 181)).value, 181);
+  const resolved = (await priceGuardService.getIncident(incident.id))!;
+  assert.equal(resolved.status, 'resolved');
+  assert.equal(resolved.resolution, 'accepted_by_admin');
+
+  await assert.rejects(
+    priceGuardService.acknowledge(incident.id, 'bob'),
+    (error: PriceIncidentError) => error.status === 409
+  );
+  await assert.rejects(
+    priceGuardService.acknowledge('missing', 'bob'),
+    (error: PriceIncidentError) => error.status === 404
+  );
+});
+
+test('only an open max_move incident can have its value accepted', async () => {
+  await screenOne('iota', 100);
+  const old = new Date(NOW.getTime() - priceGuardService.getConfig().max_age_ms.crypto - MINUTE_MS).toISOString();
+  await screenOne('iota', 100, { as_of: old });
+  const [stale] = (await priceGuardService.listIncidents({ status: 'open' })).filter(i => i.key === 'iota');
+
+  await assert.rejects(
+    priceGuardService.acknowledge(stale.id, 'alice', { acceptObserved: true }),
+    (error: PriceIncidentError) => error.status === 409
+  );
+  assert.equal((await priceGuardService.getIncident(stale.id))!.acknowledged_at, null);
+});
@@ -0,0 +1,365 @@
+import { randomUUID } from 'crypto';
+import { FileManager } from '../utils/file-manager';
+import { HttpError } from '../utils/http-error';
+import { SerialQueue } from '../utils/serial-queue';
+import type { BasketKind } from './basket-config';
+
+export interface PriceGuardConfig {
+  max_move: Record<BasketKind, number>;    // Largest accepted relative move from the last accepted value
+  max_age_ms: Record<BasketKind, number>;  // Oldest accepted provider timestamp
+  confirmations: number;                   // Consecutive consistent readings that accept a large move as the new level
+}
+
+export type PriceIncidentReason = 'invalid' | 'stale' | 'max_move';
+
+export type PriceIncidentResolution = 'recovered' | 'confirmed' | 'accepted_by_admin';
+
+export interface PriceIncident {
+  id: string;
+  basket: BasketKind;
+  key: string; // Currency code or crypto asset id
+  reason: PriceIncidentReason;
+  detail: string;
+  observed: number | null;    // Latest rejected value; null when it was not a number
+  last_good: number | null;
+  substituted: number | null; // Value used instead, null if the constituent was dropped
+  first_seen: string;
+  last_seen: string;
+  occurrences: number;
+  status: 'open' | 'resolved';
+  resolved_at: string | null;
+  resolution: PriceIncidentResolution | null;
+  acknowledged_at: string | null;
+  acknowledged_by: string | null;
+  note: string | null;
+}
+
+// One constituent price as the API services produced it
+export interface GuardInput {
+  key: string;
+  value: number;
+  live: boolean;         // Came from a provider rather than a baseline or static default
+  as_of: string | null;  // Newest provider timestamp behind the value
+}
+
+export interface GuardVerdict {
+  value: number | null; // Value to publish; null drops the constituent
+  reason: PriceIncidentReason | null; // Why the input was rejected, null when accepted
+  accepted_at: string | null; // When the published value was accepted, null if it never was
+}
+
+// Attached to a constituent whose published value is a substitute
+export interface Quarantine {
+  reason: PriceIncidentReason;
+  observed: number;             // The rejected value
+  last_good_at: string | null;  // When the substituted value was accepted
+}
+
+interface LastGood {
+  value: number;
+  accepted_at: string;
+}
+
+interface PendingMove {
+  value: number;
+  count: number;
+}
+
+interface GuardState {
+  last_good: Record<BasketKind, Record<string, LastGood>>;
+  pending: Record<BasketKind, Record<string, PendingMove>>;
+}
+
+export interface IncidentFilter {
+  basket?: BasketKind;
+  status?: PriceIncident['status'];
+  acknowledged?: boolean;
+}
+
+// Raised for incident actions that cannot be carried out
+export class PriceIncidentError extends HttpError {
+  name = 'PriceIncidentError';
+}
+
+const STATE_FILE = 'price_guard_state.json';
+const INCIDENTS_FILE = 'price_incidents.json';
+
+// Resolved incidents kept once the log grows past this; open ones are never dropped
+const MAX_RESOLVED_INCIDENTS = 1000;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function emptyState(): GuardState {
+  return { last_good: { fiat: {}, crypto: {} }, pending: { fiat: {}, crypto: {} } };
+}
+
+function relativeMove(value: number, reference: number): number {
+  return Math.abs(value / reference - 1);
+}
+
+/**
+ * Sanity checks on every basket input before it reaches the index. An input
+ * that is not a positive number, carries a stale provider timestamp or moves
+ * further than max_move from the last accepted value is quarantined: the last
+ * good value is published instead and an incident is recorded. A large move
+ * that persists for `confirmations` consecutive readings is accepted as the
+ * new level.
+ */
+class PriceGuardService {
+  private config: PriceGuardConfig = {
+    max_move: {
+      fiat: parseFloat(process.env.PRICE_GUARD_MAX_MOVE_FIAT || '0.05'),
+      crypto: parseFloat(process.env.PRICE_GUARD_MAX_MOVE_CRYPTO || '0.2'),
+    },
+    max_age_ms: {
+      fiat: parseFloat(process.env.PRICE_GUARD_MAX_AGE_FIAT_HOURS || '96') * HOUR_MS,
+      crypto: parseFloat(process.env.PRICE_GUARD_MAX_AGE_CRYPTO_MINUTES || '15') * 60 * 1000,
+    },
+    confirmations: parseInt(process.env.PRICE_GUARD_CONFIRMATIONS || '3', 10),
+  };
+  private state: GuardState | null = null;
+  // Screens and incident updates run one at a time
+  private readonly queue = new SerialQueue();
+
+  getConfig(): PriceGuardConfig {
+    return {
+      max_move: { ...this.config.max_move },
+      max_age_ms: { ...this.config.max_age_ms },
+      confirmations: this.config.confirmations,
+    };
+  }
+
+  private async loadState(): Promise<GuardState> {
+    if (!this.state) {
+      const stored = await FileManager.readJson<Partial<GuardState>>(STATE_FILE);
+      const empty = emptyState();
+      this.state = {
+        last_good: { ...empty.last_good, ...stored?.last_good },
+        pending: { ...empty.pending, ...stored?.pending },
+      };
+    }
+    return this.state;
+  }
+
+  async getLastGood(): Promise<GuardState['last_good']> {
+    return (await this.queue.run(() => this.loadState())).last_good;
+  }
+
+  /**
+   * Screens one basket's inputs, returning the value to publish for each key
+   */
+  async screen(basket: BasketKind, inputs: GuardInput[], now: Date = new Date()): Promise<Map<string, GuardVerdict>> {
+    return this.queue.run(async () => {
+      const state = await this.loadState();
+      const lastGood = state.last_good[basket];
+      const pending = state.pending[basket];
+      const verdicts = new Map<string, GuardVerdict>();
+      const rejected: Array<{ input: GuardInput; verdict: GuardVerdict; detail: string }> = [];
+      const accepted = new Map<string, PriceIncidentResolution>();
+
+      for (const input of inputs) {
+        const previous = lastGood[input.key];
+        const check = this.check(basket, input, previous, now);
+
+        if (check.reason === 'max_move' && input.live) {
+          // A move that holds across readings is a new level, not a bad tick
+          const candidate = pending[input.key];
+          const consistent = candidate && relativeMove(input.value, candidate.value) <= this.config.max_move[basket];
+          pending[input.key] = { value: input.value, count: consistent ? candidate.count + 1 : 1 };
+
+          if (pending[input.key].count >= this.config.confirmations) {
+            console.warn(`Accepting ${basket} ${input.key} at ${input.value} after ${pending[input.key].count} consistent readings`);
+            check.reason = null;
+            accepted.set(input.key, 'confirmed');
+          }
+        }
+
+        if (check.reason === null) {
+          delete pending[input.key];
+          lastGood[input.key] = { value: input.value, accepted_at: now.toISOString() };
+          if (!accepted.has(input.key)) accepted.set(input.key, 'recovered');
+          verdicts.set(input.key, { value: input.value, reason: null, accepted_at: now.toISOString() });
+          continue;
+        }
+
+        // A stale value with nothing better to fall back on is still published
+        const substitute = previous?.value ?? (check.reason === 'stale' ? input.value : null);
+        const verdict = { value: substitute, reason: check.reason, accepted_at: previous?.accepted_at ?? null };
+        verdicts.set(input.key, verdict);
+        rejected.push({ input, verdict, detail: check.detail });
+      }
+
+      await FileManager.writeJson(STATE_FILE, state);
+      if (rejected.length > 0 || accepted.size > 0) {
+        await this.recordIncidents(basket, rejected, accepted, lastGood, now);
+      }
+
+      if (rejected.length > 0) {
+        console.warn(`Quarantined ${basket} inputs: ${rejected.map(r => `${r.input.key} (${r.verdict.reason})`).join(', ')}`);
+      }
+      return verdicts;
+    });
+  }
+
+  private check(
+    basket: BasketKind,
+    input: GuardInput,
+    previous: LastGood | undefined,
+    now: Date
+  ): { reason: PriceIncidentReason | null; detail: string } {
+    if (typeof input.value !== 'number' || !Number.isFinite(input.value) || input.value <= 0) {
+      return { reason: 'invalid', detail: `Received ${input.value}` };
+    }
+
+    if (input.as_of) {
+      const age = now.getTime() - new Date(input.as_of).getTime();
+      if (age > this.config.max_age_ms[basket]) {
+        return { reason: 'stale', detail: `Provider data is ${(age / HOUR_MS).toFixed(1)}h old (as of ${input.as_of})` };
+      }
+    }
+
+    if (previous) {
+      const move = relativeMove(input.value, previous.value);
+      if (move > this.config.max_move[basket]) {
+        return {
+          reason: 'max_move',
+          detail: `Moved ${(move * 100).toFixed(2)}% from ${previous.value} accepted at ${previous.accepted_at}`,
+        };
+      }
+    }
+
+    return { reason: null, detail: '' };
+  }
+
+  /**
+   * Opens or extends an incident per rejected input and resolves the open
+   * incidents of inputs that were accepted again
+   */
+  private async recordIncidents(
+    basket: BasketKind,
+    rejected: Array<{ input: GuardInput; verdict: GuardVerdict; detail: string }>,
+    accepted: Map<string, PriceIncidentResolution>,
+    lastGood: Record<string, LastGood>,
+    now: Date
+  ): Promise<void> {
+    const timestamp = now.toISOString();
+
+    await FileManager.updateJson<PriceIncident[]>(INCIDENTS_FILE, current => {
+      const incidents = current || [];
+      const hasOpen = incidents.some(i => i.status === 'open' && i.basket === basket && accepted.has(i.key));
+      if (rejected.length === 0 && !hasOpen) return null;
+
+      for (const incident of incidents) {
+        if (incident.status === 'open' && incident.basket === basket && accepted.has(incident.key)) {
+          incident.status = 'resolved';
+          incident.resolved_at = timestamp;
+          incident.resolution = incident.resolution ?? accepted.get(incident.key)!;
+        }
+      }
+
+      for (const { input, verdict, detail } of rejected) {
+        const observed = Number.isFinite(input.value) ? input.value : null;
+        const open = incidents.find(i =>
+          i.status === 'open' && i.basket === basket && i.key === input.key && i.reason === verdict.reason
+        );
+
+        if (open) {
+          open.observed = observed;
+          open.substituted = verdict.value;
+          open.detail = detail;
+          open.last_seen = timestamp;
+          open.occurrences++;
+          continue;
+        }
+
+        incidents.push({
+          id: randomUUID(),
+          basket,
+          key: input.key,
+          reason: verdict.reason!,
+          detail,
+          observed,
+          last_good: lastGood[input.key]?.value ?? null,
+          substituted: verdict.value,
+          first_seen: timestamp,
+          last_seen: timestamp,
+          occurrences: 1,
+          status: 'open',
+          resolved_at: null,
+          resolution: null,
+          acknowledged_at: null,
+          acknowledged_by: null,
+          note: null,
+        });
+      }
+
+      const resolved = incidents.filter(i => i.status === 'resolved');
+      const excess = resolved.length - MAX_RESOLVED_INCIDENTS;
+      if (excess > 0) {
+        const dropped = new Set(resolved.slice(0, excess));
+        return incidents.filter(i => !dropped.has(i));
+      }
+      return incidents;
+    });
+  }
+
+  async listIncidents(filter: IncidentFilter = {}): Promise<PriceIncident[]> {
+    const incidents = await FileManager.readJson<PriceIncident[]>(INCIDENTS_FILE) || [];
+    return incidents.filter(i =>
+      (!filter.basket || i.basket === filter.basket) &&
+      (!filter.status || i.status === filter.status) &&
+      (filter.acknowledged === undefined || (i.acknowledged_at !== null) === filter.acknowledged)
+    );
+  }
+
+  async getIncident(id: string): Promise<PriceIncident | null> {
+    return (await this.listIncidents()).find(i => i.id === id) ?? null;
+  }
+
+  /**
+   * Marks an incident as seen. With `acceptObserved`, the rejected value of an
+   * open max_move incident becomes the last good value, so readings near it
+   * pass on the next refresh.
+   */
+  async acknowledge(id: string, author: string, options: { note?: string; acceptObserved?: boolean } = {}): Promise<PriceIncident> {
+    return this.queue.run(async () => {
+      const incident = await this.getIncident(id);
+      if (!incident) {
+        throw new PriceIncidentError(`Incident ${id} not found`, 404);
+      }
+      if (incident.acknowledged_at) {
+        throw new PriceIncidentError(`Incident ${id} was already acknowledged by ${incident.acknowledged_by}`, 409);
+      }
+
+      const now = new Date().toISOString();
+      const changes: Partial<PriceIncident> = {
+        acknowledged_at: now,
+        acknowledged_by: author,
+        note: options.note ?? null,
+      };
+
+      if (options.acceptObserved) {
+        if (incident.status !== 'open' || incident.reason !== 'max_move' || incident.observed === null) {
+          throw new PriceIncidentError('Only the observed value of an open max_move incident can be accepted', 409);
+        }
+
+        const state = await this.loadState();
+        state.last_good[incident.basket][incident.key] = { value: incident.observed, accepted_at: now };
+        delete state.pending[incident.basket][incident.key];
+        await FileManager.writeJson(STATE_FILE, state);
+        changes.resolution = 'accepted_by_admin';
+        console.log(`${author} accepted ${incident.basket} ${incident.key} at ${incident.observed}`);
+      }
+
+      let updated!: PriceIncident;
+      await FileManager.updateJson<PriceIncident[]>(INCIDENTS_FILE, current => (current || []).map(i => {
+        if (i.id !== id) return i;
+        updated = { ...i, ...changes };
+        return updated;
+      }));
+      return updated;
+    });
+  }
+}
+
+export const priceGuardService = new PriceGuardService();
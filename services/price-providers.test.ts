@@ -0,0 +1,104 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { consensus } from '../utils/consensus';
+import { BinanceProvider, CoinCapProvider, CoinGeckoProvider, KrakenProvider, type PriceProvider } from './price-providers';
+import type { CryptoConfig } from './crypto-api';
+
+const ASSETS: CryptoConfig[] = [
+  { id: 'bitcoin', symbol: 'BTC', name: 'Bitcoin', weight: 0.7, provider_ids: { kraken: 'XBTUSD' } },
+  { id: 'ethereum', symbol: 'ETH', name: 'Ethereum', weight: 0.3 },
+  { id: 'binancecoin', symbol: 'BNB', name: 'BNB', weight: 0, provider_ids: { kraken: null } },
+];
+
+// Canned responses in each provider's format, keyed by path
+const RESPONSES: Record<string, unknown> = {
+  '/coingecko/simple/price': {
+    bitcoin: { usd: 60000, usd_market_cap: 1.2e12, usd_24h_vol: 3e10, last_updated_at: 1700000000 },
+    ethereum: { usd: 3000 },
+    binancecoin: { usd: 500 },
+  },
+  '/coincap/assets': {
+    data: [
+      { id: 'bitcoin', priceUsd: '60100', marketCapUsd: '1.21e12' },
+      { id: 'ethereum', priceUsd: '3010' },
+      { id: 'binancecoin', priceUsd: 'not a number' },
+    ],
+    timestamp: 1700000000000,
+  },
+  '/binance/ticker/price': [
+    { symbol: 'BTCUSDT', price: '59900' },
+    { symbol: 'ETHUSDT', price: '2990' },
+    { symbol: 'DOGEUSDT', price: '0.1' },
+  ],
+  '/kraken/Ticker': {
+    error: [],
+    result: {
+      XXBTZUSD: { c: ['90000', '1'], v: ['10', '20'] }, // Outlier
+      ETHUSD: { c: ['3005', '1'], v: ['100', '200'] },
+    },
+  },
+};
+
+let server: Server;
+let baseUrl: string;
+
+before(async () => {
+  server = createServer((req, res) => {
+    const path = new URL(req.url!, 'http://localhost').pathname;
+    if (path.startsWith('/failing')) {
+      res.statusCode = 503;
+      return res.end('{}');
+    }
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify(RESPONSES[path] ?? {}));
+  });
+  await new Promise<void>(resolve => server.listen(0, resolve));
+  baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.close();
+});
+
+function providers(): PriceProvider[] {
+  return [
+    new CoinGeckoProvider(`${baseUrl}/coingecko`),
+    new CoinCapProvider(`${baseUrl}/coincap`, undefined),
+    new BinanceProvider(`${baseUrl}/binance`),
+    new KrakenProvider(`${baseUrl}/kraken`),
+  ];
+}
+
+test('each adapter parses its provider format and skips unlisted or invalid prices', async () => {
+  const [coingecko, coincap, binance, kraken] = await Promise.all(providers().map(p => p.fetchPrices(ASSETS)));
+
+  assert.equal(coingecko.get('bitcoin')?.price, 60000);
+  assert.equal(coingecko.get('bitcoin')?.asOf, new Date(1700000000 * 1000).toISOString());
+  assert.equal(coincap.get('ethereum')?.price, 3010);
+  assert.equal(coincap.has('binancecoin'), false);
+  assert.equal(binance.get('bitcoin')?.price, 59900);
+  assert.equal(binance.has('binancecoin'), false);
+  assert.equal(kraken.get('bitcoin')?.price, 90000);
+  assert.equal(kraken.get('ethereum')?.volume24h, 200 * 3005);
+  assert.equal(kraken.has('binancecoin'), false);
+});
+
+test('consensus across providers outvotes an outlier and enforces the quorum', async () => {
+  const results = await Promise.allSettled(
+    [...providers(), new BinanceProvider(`${baseUrl}/failing`)].map(p => p.fetchPrices(ASSETS))
+  );
+  assert.equal(results[4].status, 'rejected');
+
+  const quotes = (assetId: string) => results.flatMap(result => {
+    const quote = result.status === 'fulfilled' ? result.value.get(assetId) : undefined;
+    return quote ? [quote.price] : [];
+  });
+
+  assert.equal(consensus(quotes('bitcoin'), { minQuorum: 2 })?.value, 60050);
+  assert.equal(consensus(quotes('ethereum'), { minQuorum: 2 })?.value, 3002.5);
+  // Only CoinGecko lists BNB here
+  assert.equal(consensus(quotes('binancecoin'), { minQuorum: 2 }), null);
+  assert.equal(consensus(quotes('binancecoin'), { minQuorum: 1 })?.value, 500);
+});
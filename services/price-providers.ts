@@ -0,0 +1,222 @@
+import type { CryptoConfig } from './crypto-api';
+
+export interface ProviderQuote {
+  provider: string;
+  price: number;
+  marketCap?: number;
+  volume24h?: number; // 24h traded volume in USD, where the provider reports it
+  fetchedAt: string;
+  asOf?: string; // When the provider last updated the price, where it reports it
+}
+
+export interface PriceProvider {
+  readonly name: string;
+  // Returns quotes keyed by CryptoConfig.id; assets the provider does not list are omitted
+  fetchPrices(assets: CryptoConfig[]): Promise<Map<string, ProviderQuote>>;
+}
+
+const REQUEST_TIMEOUT = 10000; // 10 seconds
+
+async function fetchJson<T>(provider: string, url: string, headers: Record<string, string> = {}): Promise<T> {
+  const response = await fetch(url, {
+    headers: { 'Accept': 'application/json', 'User-Agent': 'AVGX-Backend/1.0', ...headers },
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+  });
+
+  if (!response.ok) {
+    throw new Error(`${provider} API error: ${response.status} ${response.statusText}`);
+  }
+
+  return await response.json() as T;
+}
+
+/**
+ * Resolves the provider-specific identifier for an asset.
+ * An explicit null in `provider_ids` marks the asset as not listed on that provider.
+ */
+function providerId(asset: CryptoConfig, provider: string, fallback: string): string | null {
+  const override = asset.provider_ids?.[provider];
+  if (override === null) return null;
+  return override ?? fallback;
+}
+
+function toNumber(value: unknown): number | undefined {
+  const num = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof num === 'number' && Number.isFinite(num) ? num : undefined;
+}
+
+export class CoinGeckoProvider implements PriceProvider {
+  readonly name = 'coingecko';
+
+  constructor(private readonly baseUrl = process.env.COINGECKO_API_URL || 'https://api.coingecko.com/api/v3') {}
+
+  async fetchPrices(assets: CryptoConfig[]): Promise<Map<string, ProviderQuote>> {
+    const ids = new Map<string, string>();
+    for (const asset of assets) {
+      const id = providerId(asset, this.name, asset.id);
+      if (id) ids.set(id, asset.id);
+    }
+
+    const data = await fetchJson<Record<string, { usd?: number; usd_market_cap?: number; usd_24h_vol?: number; last_updated_at?: number }>>(
+      'CoinGecko',
+      `${this.baseUrl}/simple/price?ids=${[...ids.keys()].join(',')}&vs_currencies=usd&include_market_cap=true&include_24hr_vol=true&include_last_updated_at=true`
+    );
+
+    const fetchedAt = new Date().toISOString();
+    const quotes = new Map<string, ProviderQuote>();
+    for (const [id, assetId] of ids) {
+      const price = toNumber(data?.[id]?.usd);
+      if (price !== undefined) {
+        quotes.set(assetId, {
+          provider: this.name,
+          price,
+          marketCap: toNumber(data[id].usd_market_cap),
+          volume24h: toNumber(data[id].usd_24h_vol),
+          fetchedAt,
+          asOf: data[id].last_updated_at ? new Date(data[id].last_updated_at * 1000).toISOString() : undefined,
+        });
+      }
+    }
+    return quotes;
+  }
+}
+
+export class CoinCapProvider implements PriceProvider {
+  readonly name = 'coincap';
+
+  constructor(
+    private readonly baseUrl = process.env.COINCAP_API_URL || 'https://rest.coincap.io/v3',
+    private readonly apiKey = process.env.COINCAP_API_KEY
+  ) {}
+
+  async fetchPrices(assets: CryptoConfig[]): Promise<Map<string, ProviderQuote>> {
+    const ids = new Map<string, string>();
+    for (const asset of assets) {
+      const id = providerId(asset, this.name, asset.id);
+      if (id) ids.set(id, asset.id);
+    }
+
+    const headers: Record<string, string> = this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {};
+    const data = await fetchJson<{ data?: Array<{ id: string; priceUsd?: string; marketCapUsd?: string; volumeUsd24Hr?: string }>; timestamp?: number }>(
+      'CoinCap',
+      `${this.baseUrl}/assets?ids=${[...ids.keys()].join(',')}`,
+      headers
+    );
+
+    const fetchedAt = new Date().toISOString();
+    const asOf = data?.timestamp ? new Date(data.timestamp).toISOString() : undefined;
+    const quotes = new Map<string, ProviderQuote>();
+    for (const entry of data?.data || []) {
+      const assetId = ids.get(entry.id);
+      const price = toNumber(entry.priceUsd);
+      if (assetId && price !== undefined) {
+        quotes.set(assetId, {
+          provider: this.name,
+          price,
+          marketCap: toNumber(entry.marketCapUsd),
+          volume24h: toNumber(entry.volumeUsd24Hr),
+          fetchedAt,
+          asOf,
+        });
+      }
+    }
+    return quotes;
+  }
+}
+
+export class BinanceProvider implements PriceProvider {
+  readonly name = 'binance';
+
+  constructor(private readonly baseUrl = process.env.BINANCE_API_URL || 'https://api.binance.com/api/v3') {}
+
+  async fetchPrices(assets: CryptoConfig[]): Promise<Map<string, ProviderQuote>> {
+    // USDT-quoted tickers are treated as USD prices
+    const symbols = new Map<string, string>();
+    for (const asset of assets) {
+      const symbol = providerId(asset, this.name, `${asset.symbol}USDT`);
+      if (symbol) symbols.set(symbol, asset.id);
+    }
+
+    // The unfiltered ticker list avoids a single unlisted symbol failing the whole request
+    const data = await fetchJson<Array<{ symbol: string; price: string }>>('Binance', `${this.baseUrl}/ticker/price`);
+
+    const fetchedAt = new Date().toISOString();
+    const quotes = new Map<string, ProviderQuote>();
+    for (const ticker of Array.isArray(data) ? data : []) {
+      const assetId = symbols.get(ticker.symbol);
+      const price = toNumber(ticker.price);
+      if (assetId && price !== undefined) {
+        quotes.set(assetId, { provider: this.name, price, fetchedAt });
+      }
+    }
+    return quotes;
+  }
+}
+
+export class KrakenProvider implements PriceProvider {
+  readonly name = 'kraken';
+
+  constructor(private readonly baseUrl = process.env.KRAKEN_API_URL || 'https://api.kraken.com/0/public') {}
+
+  async fetchPrices(assets: CryptoConfig[]): Promise<Map<string, ProviderQuote>> {
+    const pairs = new Map<string, string>();
+    for (const asset of assets) {
+      const pair = providerId(asset, this.name, `${asset.symbol}USD`);
+      if (pair) pairs.set(pair, asset.id);
+    }
+
+    const data = await fetchJson<{ error?: string[]; result?: Record<string, { c?: string[]; v?: string[] }> }>(
+      'Kraken',
+      `${this.baseUrl}/Ticker?pair=${[...pairs.keys()].join(',')}`
+    );
+
+    if (data?.error?.length) {
+      throw new Error(`Kraken API error: ${data.error.join(', ')}`);
+    }
+
+    const fetchedAt = new Date().toISOString();
+    const quotes = new Map<string, ProviderQuote>();
+    for (const [pair, assetId] of pairs) {
+      // Legacy pairs come back under their ISO-style name, e.g. XBTUSD -> XXBTZUSD
+      const base = pair.slice(0, -3);
+      const ticker = data?.result?.[pair] ?? data?.result?.[`X${base}ZUSD`];
+      const price = toNumber(ticker?.c?.[0]); // c = [last trade price, lot volume]
+      const baseVolume = toNumber(ticker?.v?.[1]); // v = [today, last 24 hours], in base units
+      if (price !== undefined) {
+        quotes.set(assetId, {
+          provider: this.name,
+          price,
+          volume24h: baseVolume !== undefined ? baseVolume * price : undefined,
+          fetchedAt,
+        });
+      }
+    }
+    return quotes;
+  }
+}
+
+const PROVIDER_FACTORIES: Record<string, () => PriceProvider> = {
+  coingecko: () => new CoinGeckoProvider(),
+  coincap: () => new CoinCapProvider(),
+  binance: () => new BinanceProvider(),
+  kraken: () => new KrakenProvider(),
+};
+
+/**
+ * Builds the provider list from CRYPTO_PRICE_PROVIDERS (comma-separated names),
+ * defaulting to every known adapter
+ */
+export function createPriceProviders(names = process.env.CRYPTO_PRICE_PROVIDERS): PriceProvider[] {
+  const selected = names
+    ? names.split(',').map(n => n.trim().toLowerCase()).filter(Boolean)
+    : Object.keys(PROVIDER_FACTORIES);
+
+  return selected.flatMap(name => {
+    const factory = PROVIDER_FACTORIES[name];
+    if (!factory) {
+      console.warn(`Unknown crypto price provider "${name}", skipping`);
+      return [];
+    }
+    return [factory()];
+  });
+}
@@ -0,0 +1,52 @@
+import { FileManager } from '../utils/file-manager';
+import { transactionHash } from '../utils/tx-hash';
+
+export type SimulationKind = 'swap' | 'trade' | 'pool_swap' | 'liquidity';
+
+// A simulated swap, trade or pool operation, kept so its hash can be looked up later
+export interface SimulatedTransaction {
+  hash: string;
+  kind: SimulationKind;
+  contents: Record<string, unknown>; // What the hash was computed from
+  recorded_at: string;
+}
+
+const SIMULATIONS_FILE = 'simulated_transactions.json';
+
+// Oldest simulations are dropped beyond this many
+const MAX_SIMULATIONS = 5000;
+
+/**
+ * Simulations never touch the ledger, so they are kept apart from recorded
+ * transactions and do not count towards balances, supply or stats. Only the
+ * protocol fee of an executed swap reaches the reserves, collected by the
+ * swap quote service.
+ */
+class SimulatedTransactionStore {
+  /**
+   * Hashes and stores a simulation; recording the same contents twice keeps one entry
+   */
+  async record(kind: SimulationKind, contents: Record<string, unknown>): Promise<SimulatedTransaction> {
+    const simulation: SimulatedTransaction = {
+      hash: transactionHash({ kind, ...contents }),
+      kind,
+      contents,
+      recorded_at: new Date().toISOString(),
+    };
+
+    await FileManager.updateJson<SimulatedTransaction[]>(SIMULATIONS_FILE, current => {
+      const simulations = current || [];
+      if (simulations.some(s => s.hash === simulation.hash)) return null;
+      return [...simulations, simulation].slice(-MAX_SIMULATIONS);
+    });
+
+    return simulation;
+  }
+
+  async get(hash: string): Promise<SimulatedTransaction | null> {
+    const simulations = await FileManager.readJson<SimulatedTransaction[]>(SIMULATIONS_FILE) || [];
+    return simulations.find(s => s.hash === hash.toLowerCase()) ?? null;
+  }
+}
+
+export const simulatedTransactionStore = new SimulatedTransactionStore();
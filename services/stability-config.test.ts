@@ -0,0 +1,59 @@
+import { test, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { stabilityConfigService, StabilityConfigError } from './stability-config';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// The config is stored under ./data in the working directory
+before(async () => {
+  process.chdir(await fs.mkdtemp(join(tmpdir(), 'stability-config-')));
+});
+
+test('immediate changes are built on the active version and refused while one is scheduled', async () => {
+  const live = await stabilityConfigService.update({ alpha_f: 0.3 }, { author: 'alice' });
+  assert.equal(live.version, 2);
+  assert.notEqual(live.activated_at, null);
+
+  const scheduled = await stabilityConfigService.update(
+    { clamp_percent: 0.02 },
+    { author: 'alice', effective_at: new Date(Date.now() + HOUR_MS) }
+  );
+  assert.equal(scheduled.activated_at, null);
+  assert.equal(scheduled.config.alpha_f, 0.3);
+
+  await assert.rejects(
+    stabilityConfigService.update({ alpha_c: 0.2 }, { author: 'bob' }),
+    (error: StabilityConfigError) => error.status === 409 && /cancel it/.test(error.message)
+  );
+  // A scheduled change cannot overtake the one already scheduled
+  await assert.rejects(
+    stabilityConfigService.update({ alpha_c: 0.2 }, { author: 'bob', effective_at: new Date(Date.now() + HOUR_MS / 2) }),
+    (error: StabilityConfigError) => error.status === 409
+  );
+
+  await stabilityConfigService.cancelScheduled(scheduled.version, 'alice');
+  const next = await stabilityConfigService.update({ alpha_c: 0.2 }, { author: 'bob' });
+  assert.equal(next.config.clamp_percent, live.config.clamp_percent);
+  assert.equal((await stabilityConfigService.getActive()).version, next.version);
+});
+
+test('scheduled versions stack and activate once due', async () => {
+  const start = Date.now();
+  const first = await stabilityConfigService.update(
+    { v_target: 0.2 },
+    { author: 'alice', effective_at: new Date(start + HOUR_MS) }
+  );
+  const second = await stabilityConfigService.update(
+    { volatility_window: 60 },
+    { author: 'alice', effective_at: new Date(start + 2 * HOUR_MS) }
+  );
+  assert.equal(second.config.v_target, 0.2);
+
+  await stabilityConfigService.activateDue(new Date(start + 3 * HOUR_MS));
+  const active = await stabilityConfigService.getActive();
+  assert.equal(active.version, second.version);
+  assert.notEqual((await stabilityConfigService.getVersion(first.version))?.activated_at, null);
+});
@@ -0,0 +1,283 @@
+import { FileManager } from '../utils/file-manager';
+import {
+  DEFAULT_STABILITY_CONFIG,
+  validateStabilityConfig,
+  type StabilityConfig,
+} from '../utils/stability';
+import { HttpError } from '../utils/http-error';
+import { SerialQueue } from '../utils/serial-queue';
+
+export interface StabilityConfigVersion {
+  version: number; // Increments from 1, the built-in defaults
+  config: StabilityConfig;
+  author: string;
+  created_at: string;
+  effective_at: string;         // When the config is scheduled to take effect
+  activated_at: string | null;  // When it actually went live, null while scheduled
+  cancelled_at: string | null;
+  cancelled_by: string | null;
+  comment: string | null;
+}
+
+export type StabilityConfigAction = 'created' | 'scheduled' | 'activated' | 'cancelled';
+
+// One line of the audit log; `changes` is relative to the version the change was built on
+export interface StabilityConfigAuditEntry {
+  timestamp: string;
+  action: StabilityConfigAction;
+  version: number;
+  author: string;
+  changes: Partial<Record<keyof StabilityConfig, { from: number; to: number }>>;
+  comment: string | null;
+}
+
+export interface StabilityConfigChangeOptions {
+  author: string;
+  comment?: string;
+  effective_at?: Date; // Schedules the change; immediate when absent or in the past
+}
+
+interface StabilityConfigRecord {
+  versions: StabilityConfigVersion[];
+  audit: StabilityConfigAuditEntry[];
+}
+
+// Raised for changes the config cannot accept
+export class StabilityConfigError extends HttpError {
+  name = 'StabilityConfigError';
+}
+
+const CONFIG_FILE = 'stability_config.json';
+
+function isPending(version: StabilityConfigVersion): boolean {
+  return version.activated_at === null && version.cancelled_at === null;
+}
+
+function diffConfigs(before: StabilityConfig, after: StabilityConfig): StabilityConfigAuditEntry['changes'] {
+  const changes: StabilityConfigAuditEntry['changes'] = {};
+  for (const key of Object.keys(after) as Array<keyof StabilityConfig>) {
+    if (before[key] !== after[key]) {
+      changes[key] = { from: before[key], to: after[key] };
+    }
+  }
+  return changes;
+}
+
+/**
+ * Versioned stability-formula parameters. Every change becomes a new
+ * version, either live immediately or scheduled for an effective time, and
+ * each creation, activation and cancellation is written to the audit log.
+ * Snapshots record the version they were computed with.
+ */
+class StabilityConfigService {
+  private active: StabilityConfigVersion | null = null;
+  // Changes and activations run one at a time
+  private readonly queue = new SerialQueue();
+
+  /**
+   * Reads the record, seeding version 1 from the built-in defaults on first use
+   */
+  private async readRecord(): Promise<StabilityConfigRecord> {
+    const record = await FileManager.readJson<StabilityConfigRecord>(CONFIG_FILE);
+    if (record?.versions?.length) {
+      return { versions: record.versions, audit: record.audit || [] };
+    }
+
+    const now = new Date().toISOString();
+    const initial: StabilityConfigRecord = {
+      versions: [{
+        version: 1,
+        config: { ...DEFAULT_STABILITY_CONFIG },
+        author: 'system',
+        created_at: now,
+        effective_at: now,
+        activated_at: now,
+        cancelled_at: null,
+        cancelled_by: null,
+        comment: 'Built-in defaults',
+      }],
+      audit: [{
+        timestamp: now,
+        action: 'activated',
+        version: 1,
+        author: 'system',
+        changes: {},
+        comment: 'Built-in defaults',
+      }],
+    };
+    await FileManager.writeJson(CONFIG_FILE, initial);
+    return initial;
+  }
+
+  private async writeRecord(record: StabilityConfigRecord): Promise<void> {
+    await FileManager.writeJson(CONFIG_FILE, record);
+    this.active = [...record.versions].reverse().find(v => v.activated_at !== null) ?? null;
+  }
+
+  /**
+   * The config snapshots are currently computed with
+   */
+  async getActive(): Promise<StabilityConfigVersion> {
+    if (!this.active) {
+      const record = await this.queue.run(() => this.readRecord());
+      this.active = [...record.versions].reverse().find(v => v.activated_at !== null)!;
+    }
+    return { ...this.active, config: { ...this.active.config } };
+  }
+
+  async getScheduled(): Promise<StabilityConfigVersion[]> {
+    return (await this.getVersions()).filter(isPending);
+  }
+
+  async getVersions(): Promise<StabilityConfigVersion[]> {
+    return (await this.queue.run(() => this.readRecord())).versions;
+  }
+
+  async getVersion(version: number): Promise<StabilityConfigVersion | null> {
+    return (await this.getVersions()).find(v => v.version === version) ?? null;
+  }
+
+  async getAuditLog(): Promise<StabilityConfigAuditEntry[]> {
+    return (await this.queue.run(() => this.readRecord())).audit;
+  }
+
+  /**
+   * Records `changes` as a new version, live now or at `effective_at`.
+   * Immediate changes build on the active version and are refused while a
+   * version is scheduled; scheduled ones build on the latest scheduled version
+   * and cannot take effect before it.
+   */
+  async update(changes: Partial<StabilityConfig>, options: StabilityConfigChangeOptions): Promise<StabilityConfigVersion> {
+    return this.queue.run(async () => {
+      const record = await this.readRecord();
+      const now = new Date();
+      this.activatePending(record, now);
+
+      const effectiveAt = options.effective_at && options.effective_at > now ? options.effective_at : now;
+      const pending = record.versions.filter(isPending);
+      const latestPending = pending[pending.length - 1];
+      if (latestPending && effectiveAt <= now) {
+        throw new StabilityConfigError(
+          `Version ${pending.map(v => v.version).join(', ')} is scheduled; cancel it before making an immediate change`,
+          409
+        );
+      }
+      if (latestPending && effectiveAt < new Date(latestPending.effective_at)) {
+        throw new StabilityConfigError(
+          `Version ${latestPending.version} is scheduled for ${latestPending.effective_at}; later changes cannot take effect before it`,
+          409
+        );
+      }
+
+      const base = latestPending ?? [...record.versions].reverse().find(v => v.activated_at !== null)!;
+      const config: StabilityConfig = { ...base.config, ...changes };
+
+      const issues = validateStabilityConfig(config);
+      if (issues.length > 0) {
+        throw new StabilityConfigError('Stability config is out of bounds', 400, issues);
+      }
+
+      const diff = diffConfigs(base.config, config);
+      if (Object.keys(diff).length === 0) {
+        throw new StabilityConfigError(`Change leaves version ${base.version} unchanged`, 409);
+      }
+
+      const version: StabilityConfigVersion = {
+        version: record.versions[record.versions.length - 1].version + 1,
+        config,
+        author: options.author,
+        created_at: now.toISOString(),
+        effective_at: effectiveAt.toISOString(),
+        activated_at: null,
+        cancelled_at: null,
+        cancelled_by: null,
+        comment: options.comment ?? null,
+      };
+
+      record.versions.push(version);
+      record.audit.push({
+        timestamp: version.created_at,
+        action: effectiveAt > now ? 'scheduled' : 'created',
+        version: version.version,
+        author: options.author,
+        changes: diff,
+        comment: version.comment,
+      });
+
+      this.activatePending(record, now);
+      await this.writeRecord(record);
+      return record.versions.find(v => v.version === version.version)!;
+    });
+  }
+
+  /**
+   * Withdraws a scheduled version. Only the latest one can be cancelled,
+   * since any later version was built on top of it.
+   */
+  async cancelScheduled(version: number, author: string): Promise<StabilityConfigVersion> {
+    return this.queue.run(async () => {
+      const record = await this.readRecord();
+      const live = record.versions.filter(v => v.cancelled_at === null);
+      const target = live.find(v => v.version === version);
+      if (!target) {
+        throw new StabilityConfigError(`Version ${version} not found`, 404);
+      }
+      if (!isPending(target)) {
+        throw new StabilityConfigError(`Version ${version} is already active`, 409);
+      }
+      if (live[live.length - 1] !== target) {
+        throw new StabilityConfigError(`Version ${version} has later versions built on it; cancel those first`, 409);
+      }
+
+      target.cancelled_at = new Date().toISOString();
+      target.cancelled_by = author;
+      record.audit.push({
+        timestamp: target.cancelled_at,
+        action: 'cancelled',
+        version,
+        author,
+        changes: {},
+        comment: null,
+      });
+
+      await this.writeRecord(record);
+      console.log(`${author} cancelled scheduled stability config version ${version}`);
+      return target;
+    });
+  }
+
+  /**
+   * Activates every scheduled version whose effective time has passed.
+   * Called by the index scheduler before each tick.
+   */
+  async activateDue(now: Date = new Date()): Promise<void> {
+    await this.queue.run(async () => {
+      const record = await this.readRecord();
+      if (this.activatePending(record, now)) {
+        await this.writeRecord(record);
+      } else if (!this.active) {
+        this.active = [...record.versions].reverse().find(v => v.activated_at !== null)!;
+      }
+    });
+  }
+
+  // Marks due versions active in `record`; returns whether any were
+  private activatePending(record: StabilityConfigRecord, now: Date): boolean {
+    const due = record.versions.filter(v => isPending(v) && new Date(v.effective_at).getTime() <= now.getTime());
+    for (const version of due) {
+      version.activated_at = now.toISOString();
+      record.audit.push({
+        timestamp: version.activated_at,
+        action: 'activated',
+        version: version.version,
+        author: version.author,
+        changes: {},
+        comment: version.comment,
+      });
+      console.log(`Stability config version ${version.version} is now active`);
+    }
+    return due.length > 0;
+  }
+}
+
+export const stabilityConfigService = new StabilityConfigService();
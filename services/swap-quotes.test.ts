@@ -0,0 +1,167 @@
+import { test, before, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileManager } from '../utils/file-manager';
+import { storage } from '../storage';
+import { feeScheduleService } from './fee-schedule';
+import { swapQuoteService, SwapQuoteError } from './swap-quotes';
+
+const WALLET = '0x7E5F4552091A69125d5DfCb7b8C2659029395Bdf';
+const OTHER_WALLET = '0x2B5AD5c4795c026514f8317c7a215E218DcCD6cF';
+
+let pricesUsd: Record<string, number>;
+
+// The fee schedule, swap volume and executed quotes are stored under ./data in the working directory
+before(async () => {
+  process.chdir(await fs.mkdtemp(join(tmpdir(), 'swap-quotes-')));
+});
+
+// Prices come from a stand-in rather than the providers
+beforeEach(() => {
+  pricesUsd = { AVGX: 1, BTC: 50000 };
+  mock.method(swapQuoteService, 'livePrices', async (symbols: string[]) => ({
+    prices: Object.fromEntries(symbols.map(symbol => [symbol, pricesUsd[symbol]])),
+    publicationState: 'live',
+  }));
+});
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+function quoteBtc(now: Date = new Date()) {
+  return swapQuoteService.quote('btc', 'avgx', 0.1, { slippageBps: 100, walletAddress: WALLET }, now);
+}
+
+function rejectsWith(status: number, pattern: RegExp) {
+  return (error: SwapQuoteError) => {
+    assert.ok(error instanceof SwapQuoteError);
+    assert.equal(error.status, status);
+    assert.match(error.message, pattern);
+    return true;
+  };
+}
+
+test('a quote executes once at the current prices', async () => {
+  const quote = await quoteBtc();
+  assert.equal(quote.fromToken, 'BTC');
+  assert.equal(quote.exchangeRate, 50000);
+  assert.equal(quote.fees.protocolFeeUsd, 15);
+  assert.equal(quote.expectedOutput, 5000 - 15);
+  assert.equal(quote.minimumReceived, (5000 - 15) * 0.99);
+
+  pricesUsd.BTC = 49900;
+  const execution = await swapQuoteService.execute(quote.quoteId, WALLET);
+  assert.equal(execution.outputAmount, 4990 - 15);
+  assert.equal(execution.exchangeRate, 49900);
+
+  await assert.rejects(swapQuoteService.execute(quote.quoteId, WALLET), rejectsWith(409, /already been executed/));
+});
+
+test('an executed swap collects its fee into reserves and counts towards the wallet volume', async () => {
+  const collected = async () => (await storage.getLatestReserves())?.fiatReserves?.collectedFees;
+  const feesBefore = await collected();
+  const volumeBefore = await feeScheduleService.walletVolume(WALLET);
+
+  const quote = await quoteBtc();
+  await swapQuoteService.execute(quote.quoteId, WALLET);
+
+  const fees = await collected();
+  assert.equal(fees.totalUsd, (feesBefore?.totalUsd ?? 0) + 15);
+  assert.equal(fees.byAction.swap, (feesBefore?.byAction.swap ?? 0) + 15);
+  assert.equal(fees.byChain[quote.chain], (feesBefore?.byChain[quote.chain] ?? 0) + 15);
+  assert.equal(await feeScheduleService.walletVolume(WALLET), volumeBefore + 5000);
+  assert.equal(await feeScheduleService.walletVolume(OTHER_WALLET), 0);
+
+  // A refused execution collects nothing
+  const refused = await quoteBtc();
+  pricesUsd.BTC = 40000;
+  await assert.rejects(swapQuoteService.execute(refused.quoteId, WALLET), rejectsWith(409, /slippage tolerance/));
+  assert.equal((await collected()).totalUsd, fees.totalUsd);
+  assert.equal(await feeScheduleService.walletVolume(WALLET), volumeBefore + 5000);
+});
+
+test('swap volume leaves the fee tier window', async () => {
+  const monthAgo = new Date(Date.now() - 31 * 24 * 60 * 60 * 1000);
+  await feeScheduleService.recordSwapVolume(OTHER_WALLET, 250000, monthAgo);
+  assert.equal(await feeScheduleService.walletVolume(OTHER_WALLET, monthAgo), 250000);
+  assert.equal(await feeScheduleService.walletVolume(OTHER_WALLET), 0);
+
+  // Out-of-window entries are dropped the next time volume is recorded
+  await feeScheduleService.recordSwapVolume(WALLET, 1);
+  const volumes = await FileManager.readJson<Record<string, unknown[]>>('swap_volume.json');
+  assert.equal(volumes?.[OTHER_WALLET], undefined);
+});
+
+test('executed quotes are kept on disk until they expire', async () => {
+  const quote = await quoteBtc();
+  await swapQuoteService.execute(quote.quoteId, WALLET);
+
+  const digest = createHash('sha256').update(quote.quoteId).digest('hex');
+  const executed = await FileManager.readJson<Record<string, string>>('executed_swap_quotes.json');
+  assert.equal(executed?.[digest], quote.expiresAt);
+
+  // Recorded by another process or before a restart, it is still a replay
+  const other = await quoteBtc();
+  const otherDigest = createHash('sha256').update(other.quoteId).digest('hex');
+  await FileManager.updateJson<Record<string, string>>('executed_swap_quotes.json', current => ({ ...current, [otherDigest]: other.expiresAt }));
+  await assert.rejects(swapQuoteService.execute(other.quoteId, WALLET), rejectsWith(409, /already been executed/));
+
+  // Expired entries are dropped the next time a quote executes
+  const later = new Date(Date.parse(quote.expiresAt) + 1000);
+  await swapQuoteService.execute((await quoteBtc(later)).quoteId, WALLET, later);
+  const remaining = await FileManager.readJson<Record<string, string>>('executed_swap_quotes.json');
+  assert.equal(remaining?.[digest], undefined);
+  assert.equal(remaining?.[otherDigest], undefined);
+});
+
+test('an expired quote is refused', async () => {
+  const issuedAt = new Date(Date.now() - 60 * 60 * 1000);
+  const quote = await quoteBtc(issuedAt);
+  await assert.rejects(swapQuoteService.execute(quote.quoteId, WALLET), (error: SwapQuoteError) => {
+    assert.equal(error.status, 410);
+    assert.deepEqual(error.details, { expiresAt: quote.expiresAt });
+    return true;
+  });
+});
+
+test('a quote whose contents or signature were altered is refused', async () => {
+  const quote = await quoteBtc();
+  const [payload, signature] = quote.quoteId.split('.');
+
+  // A larger input for the same signature
+  const contents = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  const inflated = Buffer.from(JSON.stringify({ ...contents, inputAmount: 10 })).toString('base64url');
+  await assert.rejects(swapQuoteService.execute(`${inflated}.${signature}`, WALLET), rejectsWith(400, /signature does not match/));
+
+  const flipped = (signature[0] === 'A' ? 'B' : 'A') + signature.slice(1);
+  await assert.rejects(swapQuoteService.execute(`${payload}.${flipped}`, WALLET), rejectsWith(400, /signature does not match/));
+  await assert.rejects(swapQuoteService.execute(`${payload}.${signature.slice(0, -2)}`, WALLET), rejectsWith(400, /signature does not match/));
+  await assert.rejects(swapQuoteService.execute(payload, WALLET), rejectsWith(400, /Invalid quote id/));
+
+  // The untouched quote was not used up by the attempts
+  await swapQuoteService.execute(quote.quoteId, WALLET);
+});
+
+test('a quote priced for one wallet cannot be executed by another', async () => {
+  const quote = await quoteBtc();
+  await assert.rejects(swapQuoteService.execute(quote.quoteId, OTHER_WALLET), rejectsWith(403, /another wallet/));
+  await swapQuoteService.execute(quote.quoteId, WALLET);
+});
+
+test('a price move beyond the slippage tolerance refuses the quote without using it up', async () => {
+  const quote = await quoteBtc();
+
+  pricesUsd.BTC = 49000;
+  await assert.rejects(swapQuoteService.execute(quote.quoteId, WALLET), (error: SwapQuoteError) => {
+    assert.equal(error.status, 409);
+    assert.equal(error.details?.currentOutput, 4900 - 15);
+    return true;
+  });
+
+  pricesUsd.BTC = 50000;
+  assert.equal((await swapQuoteService.execute(quote.quoteId, WALLET)).outputAmount, 5000 - 15);
+});
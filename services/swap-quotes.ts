@@ -0,0 +1,346 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { FileManager } from '../utils/file-manager';
+import { consensus } from '../utils/consensus';
+import { avgxCalculatorService } from './avgx-calculator';
+import { avgxCoinService, IndexHaltedError } from './avgx-coin';
+import { cryptoApiService, type CryptoConfig } from './crypto-api';
+import { cryptoProvenance, type ProvenanceStatus } from './data-quality';
+import { feeScheduleService } from './fee-schedule';
+import { createPriceProviders, type PriceProvider } from './price-providers';
+import type { FeeBreakdown } from '../utils/fees';
+import { HttpError } from '../utils/http-error';
+
+// Tokens quotable besides AVGX and the crypto basket, from swap_tokens.json
+export type SwapTokenConfig = Omit<CryptoConfig, 'weight'>;
+
+export type SwapTokenSource = 'index' | 'basket' | 'extra';
+
+export interface SwapToken {
+  symbol: string;
+  name: string;
+  source: SwapTokenSource;
+  priceUsd: number | null;
+  priceStatus: ProvenanceStatus | 'unavailable';
+}
+
+export interface SwapQuote {
+  quoteId: string; // Signed; pass it back to execute the swap
+  fromToken: string;
+  toToken: string;
+  inputAmount: number;
+  expectedOutput: number;  // After the protocol fee
+  minimumReceived: number; // Execution fails if the output would fall below this
+  exchangeRate: number;    // toToken per fromToken, before fees
+  slippageBps: number;
+  chain: string;
+  walletAddress: string | null; // Only this wallet may execute a quote priced at its volume tier
+  fees: FeeBreakdown;      // The protocol fee is fixed when quoted
+  pricesUsd: Record<string, number>;
+  publicationState: string; // AVGX index publication state when quoted
+  issuedAt: string;
+  expiresAt: string;
+}
+
+export interface SwapQuoteOptions {
+  slippageBps?: number;
+  chain?: string;
+  walletAddress?: string;
+}
+
+export interface SwapExecution {
+  quote: SwapQuote;
+  outputAmount: number;  // At the prices when executed; never below minimumReceived
+  exchangeRate: number;
+  executedAt: string;
+}
+
+// Raised for quotes that cannot be issued or executed
+export class SwapQuoteError extends HttpError {
+  name = 'SwapQuoteError';
+}
+
+// Fields covered by the quote signature
+type SignedQuote = Omit<SwapQuote, 'quoteId'> & { nonce: string };
+
+const TOKENS_FILE = 'swap_tokens.json';
+
+// Digests of executed quotes by expiry; kept on disk so a restart does not allow replays
+const EXECUTED_FILE = 'executed_swap_quotes.json';
+
+// A key of its own, so quotes cannot be forged with the session secret or vice versa
+function quoteSecret(): string {
+  if (process.env.SWAP_QUOTE_SECRET) return process.env.SWAP_QUOTE_SECRET;
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('SWAP_QUOTE_SECRET must be set in production');
+  }
+  console.warn('SWAP_QUOTE_SECRET not set, using a random secret; quotes do not survive a restart');
+  return randomBytes(32).toString('hex');
+}
+
+/**
+ * Prices swaps between AVGX, the crypto basket and the configured extra
+ * tokens from live data. Quotes are signed rather than stored, and are
+ * re-priced on execution against their minimum-received; only the digests of
+ * executed quotes are kept, until the quotes expire. Executing a quote
+ * collects its protocol fee into reserves and counts it towards the wallet's
+ * fee volume.
+ */
+class SwapQuoteService {
+  private config = {
+    quoteTtlMs: parseInt(process.env.SWAP_QUOTE_TTL_MS || '30000', 10),
+    defaultSlippageBps: parseInt(process.env.SWAP_DEFAULT_SLIPPAGE_BPS || '50', 10),
+    maxSlippageBps: parseInt(process.env.SWAP_MAX_SLIPPAGE_BPS || '500', 10),
+    extraPriceCacheMs: 60000,
+    minQuorum: parseInt(process.env.CRYPTO_PRICE_QUORUM || '2', 10),
+  };
+
+  private signingSecret: string | null = null;
+  private readonly providers: PriceProvider[] = createPriceProviders();
+  private extras: SwapTokenConfig[] | null = null;
+  private extraPrices = new Map<string, number>();
+  private extraPricesAt = 0;
+
+  /**
+   * Loads the quote signing secret. Called at startup so a missing secret
+   * fails there rather than on the first quote.
+   */
+  initialize(): void {
+    this.signingSecret ??= quoteSecret();
+  }
+
+  private get secret(): string {
+    this.initialize();
+    return this.signingSecret!;
+  }
+
+  private async getExtras(): Promise<SwapTokenConfig[]> {
+    if (!this.extras) {
+      this.extras = await FileManager.readJson<SwapTokenConfig[]>(TOKENS_FILE) || [];
+    }
+    return this.extras;
+  }
+
+  /**
+   * Consensus USD prices for the extra tokens by symbol; tokens without a
+   * quorum of live quotes are left out
+   */
+  private async getExtraPrices(): Promise<Map<string, number>> {
+    if (Date.now() - this.extraPricesAt < this.config.extraPriceCacheMs) {
+      return this.extraPrices;
+    }
+
+    const extras = await this.getExtras();
+    const assets: CryptoConfig[] = extras.map(token => ({ ...token, weight: 0 }));
+    const results = await Promise.allSettled(this.providers.map(provider => provider.fetchPrices(assets)));
+
+    const prices = new Map<string, number>();
+    for (const token of extras) {
+      const quotes = results.flatMap(result => {
+        const quote = result.status === 'fulfilled' ? result.value.get(token.id) : undefined;
+        return quote ? [quote.price] : [];
+      });
+      const result = consensus(quotes, { minQuorum: this.config.minQuorum });
+      if (result) prices.set(token.symbol, result.value);
+    }
+
+    this.extraPrices = prices;
+    this.extraPricesAt = Date.now();
+    return prices;
+  }
+
+  async listTokens(): Promise<SwapToken[]> {
+    const avgx = await avgxCalculatorService.getCurrentAvgx();
+    const basket = await cryptoApiService.getCryptoPricesWithWeights();
+    const extras = await this.getExtras();
+    const extraPrices = await this.getExtraPrices();
+
+    const basketSymbols = new Set(basket.map(c => c.symbol));
+    return [
+      {
+        symbol: 'AVGX',
+        name: 'AVGX',
+        source: 'index' as const,
+        priceUsd: avgx.publication.state === 'halted' ? null : avgx.avgx_usd,
+        priceStatus: avgx.publication.state === 'halted' ? 'unavailable' as const : 'live' as const,
+      },
+      ...basket.map(crypto => ({
+        symbol: crypto.symbol,
+        name: crypto.name,
+        source: 'basket' as const,
+        priceUsd: crypto.price,
+        priceStatus: cryptoProvenance(crypto).status,
+      })),
+      ...extras.filter(token => !basketSymbols.has(token.symbol)).map(token => ({
+        symbol: token.symbol,
+        name: token.name,
+        source: 'extra' as const,
+        priceUsd: extraPrices.get(token.symbol) ?? null,
+        priceStatus: extraPrices.has(token.symbol) ? 'live' as const : 'unavailable' as const,
+      })),
+    ];
+  }
+
+  /**
+   * Live USD prices of the given tokens, and the index publication state.
+   * Only live prices are quoted: a baseline or quarantined price could be far
+   * from where the token actually trades.
+   */
+  async livePrices(symbols: string[]): Promise<{ prices: Record<string, number>; publicationState: string }> {
+    const avgx = await avgxCalculatorService.getCurrentAvgx();
+    const tokens = await this.listTokens();
+    const prices: Record<string, number> = {};
+
+    for (const symbol of symbols) {
+      if (symbol === 'AVGX' && avgx.publication.state === 'halted') {
+        throw new IndexHaltedError(avgx.publication);
+      }
+
+      const token = tokens.find(t => t.symbol === symbol);
+      if (!token) {
+        throw new SwapQuoteError(`Unsupported token ${symbol}; supported: ${tokens.map(t => t.symbol).join(', ')}`);
+      }
+      if (token.priceStatus !== 'live' || token.priceUsd === null) {
+        throw new SwapQuoteError(`No live price for ${symbol} (${token.priceStatus})`, 503);
+      }
+      prices[symbol] = token.priceUsd;
+    }
+
+    return { prices, publicationState: avgx.publication.state };
+  }
+
+  async quote(fromToken: string, toToken: string, amount: number, options: SwapQuoteOptions = {}, now: Date = new Date()): Promise<SwapQuote> {
+    const from = fromToken.toUpperCase();
+    const to = toToken.toUpperCase();
+    if (from === to) {
+      throw new SwapQuoteError('fromToken and toToken must differ');
+    }
+
+    const slippage = options.slippageBps ?? this.config.defaultSlippageBps;
+    if (slippage < 0 || slippage > this.config.maxSlippageBps) {
+      throw new SwapQuoteError(`Slippage tolerance must be between 0 and ${this.config.maxSlippageBps} bps`);
+    }
+
+    const { prices, publicationState } = await this.livePrices([from, to]);
+    const exchangeRate = prices[from] / prices[to];
+    const fees = await feeScheduleService.quote({
+      action: 'swap',
+      chain: options.chain ?? 'sepolia',
+      amountUsd: amount * prices[from],
+      walletAddress: options.walletAddress,
+    }, now);
+
+    const expectedOutput = this.outputAfterFee(amount, prices[from], prices[to], fees.protocolFeeUsd);
+    if (expectedOutput <= 0) {
+      throw new SwapQuoteError(`Swap value $${fees.amountUsd.toFixed(2)} does not cover the $${fees.protocolFeeUsd.toFixed(2)} fee`);
+    }
+
+    const signed: SignedQuote = {
+      fromToken: from,
+      toToken: to,
+      inputAmount: amount,
+      expectedOutput,
+      minimumReceived: expectedOutput * (1 - slippage / 10000),
+      exchangeRate,
+      slippageBps: slippage,
+      chain: fees.chain,
+      walletAddress: options.walletAddress ?? null,
+      fees,
+      pricesUsd: prices,
+      publicationState,
+      issuedAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + this.config.quoteTtlMs).toISOString(),
+      nonce: randomBytes(8).toString('hex'),
+    };
+
+    const { nonce, ...quote } = signed;
+    return { quoteId: this.sign(signed), ...quote };
+  }
+
+  /**
+   * Re-prices a quote, keeping its fee, and accepts it if the output still
+   * meets its minimum-received. Each quote executes at most once.
+   */
+  async execute(quoteId: string, walletAddress: string, now: Date = new Date()): Promise<SwapExecution> {
+    const signed = this.verify(quoteId);
+    const { nonce, ...quoteFields } = signed;
+    const quote: SwapQuote = { quoteId, ...quoteFields };
+
+    if (signed.walletAddress !== null && signed.walletAddress !== walletAddress) {
+      throw new SwapQuoteError('Quote was issued to another wallet', 403);
+    }
+
+    if (new Date(signed.expiresAt).getTime() <= now.getTime()) {
+      throw new SwapQuoteError('Quote has expired; request a new one', 410, [], { expiresAt: signed.expiresAt });
+    }
+
+    const digest = createHash('sha256').update(quoteId).digest('hex');
+    const executed = await FileManager.readJson<Record<string, string>>(EXECUTED_FILE);
+    if (executed?.[digest]) {
+      throw new SwapQuoteError('Quote has already been executed', 409);
+    }
+
+    const { prices } = await this.livePrices([signed.fromToken, signed.toToken]);
+    const exchangeRate = prices[signed.fromToken] / prices[signed.toToken];
+    const outputAmount = this.outputAfterFee(signed.inputAmount, prices[signed.fromToken], prices[signed.toToken], signed.fees.protocolFeeUsd);
+    if (outputAmount < signed.minimumReceived) {
+      throw new SwapQuoteError('Price moved beyond the slippage tolerance', 409, [], {
+        expectedOutput: signed.expectedOutput,
+        currentOutput: outputAmount,
+        minimumReceived: signed.minimumReceived,
+      });
+    }
+
+    await this.markExecuted(digest, signed.expiresAt, now);
+    await avgxCoinService.collectFee(signed.fees);
+    await feeScheduleService.recordSwapVolume(walletAddress, signed.fees.amountUsd, now);
+    return { quote, outputAmount, exchangeRate, executedAt: now.toISOString() };
+  }
+
+  /**
+   * Records a quote as executed, refusing it if another execution recorded it
+   * first. Quotes past their expiry are dropped, since they cannot execute again.
+   */
+  private async markExecuted(digest: string, expiresAt: string, now: Date): Promise<void> {
+    let replayed = false;
+    await FileManager.updateJson<Record<string, string>>(EXECUTED_FILE, current => {
+      if (current?.[digest]) {
+        replayed = true;
+        return null;
+      }
+      const live = Object.entries(current || {}).filter(([, expiry]) => new Date(expiry).getTime() > now.getTime());
+      return { ...Object.fromEntries(live), [digest]: expiresAt };
+    });
+
+    if (replayed) {
+      throw new SwapQuoteError('Quote has already been executed', 409);
+    }
+  }
+
+  // toToken received for `amount` of fromToken once the fee is taken out in USD
+  private outputAfterFee(amount: number, fromPriceUsd: number, toPriceUsd: number, feeUsd: number): number {
+    return (amount * fromPriceUsd - feeUsd) / toPriceUsd;
+  }
+
+  private sign(quote: SignedQuote): string {
+    const payload = Buffer.from(JSON.stringify(quote)).toString('base64url');
+    const signature = createHmac('sha256', this.secret).update(payload).digest('base64url');
+    return `${payload}.${signature}`;
+  }
+
+  private verify(quoteId: string): SignedQuote {
+    const [payload, signature] = quoteId.split('.');
+    if (!payload || !signature) {
+      throw new SwapQuoteError('Invalid quote id');
+    }
+
+    const expected = createHmac('sha256', this.secret).update(payload).digest();
+    const presented = Buffer.from(signature, 'base64url');
+    if (presented.length !== expected.length || !timingSafeEqual(presented, expected)) {
+      throw new SwapQuoteError('Quote signature does not match; it was altered or issued by another server');
+    }
+
+    return JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  }
+}
+
+export const swapQuoteService = new SwapQuoteService();
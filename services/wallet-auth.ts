@@ -0,0 +1,153 @@
+import { randomBytes } from 'crypto';
+import { storage } from '../storage';
+import { hashPassword } from './auth';
+import { parseSiweMessage, recoverMessageAddress, SiweError, type SiweMessage } from '../utils/siwe';
+import { HttpError } from '../utils/http-error';
+
+// A wallet signed in with SIWE, kept in the session
+export interface WalletSession {
+  address: string;        // EIP-55 checksummed
+  user_id: string;        // Linked user in IStorage
+  chain_id: number;
+  signed_in_at: string;
+  expires_at: string | null; // The message's Expiration Time, if it set one
+}
+
+// Nonce handed out for the next sign-in of a session
+export interface PendingNonce {
+  value: string;
+  expires_at: number;
+}
+
+// Raised for sign-in attempts that do not verify; unauthorized unless another status is given
+export class WalletAuthError extends HttpError {
+  name = 'WalletAuthError';
+
+  constructor(message: string, status: number = 401) {
+    super(message, status);
+  }
+}
+
+// Usernames of wallet-linked users; the prefix keeps them apart from admin accounts
+const WALLET_USER_PREFIX = 'wallet:';
+
+function listFromEnv(value: string | undefined): string[] {
+  return (value || '').split(',').map(v => v.trim()).filter(Boolean);
+}
+
+/**
+ * Sign-In with Ethereum (EIP-4361). The server issues a single-use nonce, the
+ * wallet signs a message embedding it, and the signature is recovered offline
+ * to the signing address. Each address is linked to a user in IStorage.
+ */
+class WalletAuthService {
+  private config = {
+    chainIds: listFromEnv(process.env.SIWE_CHAIN_IDS).map(id => parseInt(id, 10)), // Empty: any chain
+    nonceTtlMs: parseInt(process.env.SIWE_NONCE_TTL_MS || '300000', 10),
+    clockSkewMs: 60000, // Tolerance for wallet clocks on Issued At and Not Before
+  };
+
+  // Domains sign-in messages may name; set at startup by setupAuth
+  private domains: string[] = [];
+
+  setDomains(domains: string[]): void {
+    this.domains = domains;
+  }
+
+  issueNonce(now: Date = new Date()): PendingNonce {
+    return {
+      value: randomBytes(12).toString('hex'),
+      expires_at: now.getTime() + this.config.nonceTtlMs,
+    };
+  }
+
+  /**
+   * Checks a signed message against the session's nonce and the expected
+   * domains, recovers the signer and links it to a user. The nonce must be
+   * discarded by the caller whether or not this succeeds.
+   */
+  async verify(
+    text: string,
+    signature: string,
+    nonce: PendingNonce | undefined,
+    now: Date = new Date()
+  ): Promise<WalletSession> {
+    let message: SiweMessage;
+    try {
+      message = parseSiweMessage(text);
+    } catch (error) {
+      if (error instanceof SiweError) throw new WalletAuthError(error.message, 400);
+      throw error;
+    }
+
+    if (!nonce || nonce.expires_at <= now.getTime()) {
+      throw new WalletAuthError('No sign-in nonce was issued to this session or it has expired; request a new one');
+    }
+    if (message.nonce !== nonce.value) {
+      throw new WalletAuthError('Message nonce does not match the nonce issued to this session');
+    }
+
+    if (!this.domains.includes(message.domain)) {
+      throw new WalletAuthError(`Message is for ${message.domain}, not this site`);
+    }
+    if (this.config.chainIds.length > 0 && !this.config.chainIds.includes(message.chain_id)) {
+      throw new WalletAuthError(`Chain ${message.chain_id} is not supported`);
+    }
+
+    const time = now.getTime();
+    if (new Date(message.issued_at).getTime() > time + this.config.clockSkewMs) {
+      throw new WalletAuthError('Message is issued in the future');
+    }
+    if (message.not_before && new Date(message.not_before).getTime() > time + this.config.clockSkewMs) {
+      throw new WalletAuthError('Message is not valid yet');
+    }
+    if (message.expiration_time && new Date(message.expiration_time).getTime() <= time) {
+      throw new WalletAuthError('Message has expired');
+    }
+
+    let signer: string;
+    try {
+      signer = recoverMessageAddress(text, signature);
+    } catch (error) {
+      if (error instanceof SiweError) throw new WalletAuthError(error.message, 400);
+      throw error;
+    }
+    if (signer !== message.address) {
+      throw new WalletAuthError('Signature was not made by the address in the message');
+    }
+
+    const user = await this.linkUser(message.address);
+    console.log(`Wallet ${message.address} signed in on chain ${message.chain_id}`);
+
+    return {
+      address: message.address,
+      user_id: user.id,
+      chain_id: message.chain_id,
+      signed_in_at: now.toISOString(),
+      expires_at: message.expiration_time ? new Date(message.expiration_time).toISOString() : null,
+    };
+  }
+
+  /**
+   * Whether a session's wallet sign-in is still valid
+   */
+  isActive(wallet: WalletSession | undefined, now: Date = new Date()): wallet is WalletSession {
+    return Boolean(wallet) && (!wallet!.expires_at || new Date(wallet!.expires_at).getTime() > now.getTime());
+  }
+
+  /**
+   * The IStorage user for an address, created on its first sign-in. Wallet
+   * users get an unusable random password so they can never log in locally.
+   */
+  private async linkUser(address: string) {
+    const username = `${WALLET_USER_PREFIX}${address}`;
+    const existing = await storage.getUserByUsername(username);
+    if (existing) return existing;
+
+    const user = await storage.createUser({ username, password: await hashPassword(randomBytes(32).toString('hex')) });
+    console.log(`Linked wallet ${address} to new user ${user.id}`);
+    return user;
+  }
+}
+
+export const walletAuthService = new WalletAuthService();
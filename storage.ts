@@ -1,6 +1,42 @@
 import { type User, type InsertUser, type Contact, type InsertContact, type AvgxIndex, type FiatRate, type CryptoPrice, type AvgxTransaction, type InsertTransaction, type AvgxReserves, type InsertReserves } from "@shared/schema";
+import type { AmmPool, InsertAmmPool, AmmLpPosition, InsertAmmLpPosition } from "./amm-schema";
+import type { UserRole, InsertUserRole } from "./auth-schema";
 import { randomUUID } from "crypto";
 
+export type TransactionSortField = 'timestamp' | 'amount';
+
+// Filters and keyset position for a page of a wallet's transactions
+export interface TransactionQuery {
+  walletAddress: string;
+  types?: string[];
+  chainIds?: number[];
+  from?: Date;
+  to?: Date;                  // Exclusive
+  sort: TransactionSortField;
+  order: 'asc' | 'desc';
+  after?: { key: string; id: string }; // Sort key and id of the last row of the previous page
+  limit: number;
+}
+
+/**
+ * Builds a ledger entry from the latest reserves and the wallet's transactions,
+ * as read under the lock the entry is written under; may throw to refuse it
+ */
+export type LedgerEntryBuilder = (
+  current: AvgxReserves | undefined,
+  walletTransactions: AvgxTransaction[]
+) => { transaction: InsertTransaction; reserves: InsertReserves };
+
+/**
+ * Works out a pool change from the pool and the wallet's position, as read
+ * under the lock the change is written under; may throw to refuse it.
+ * Leaving out `shares` leaves the position as it is.
+ */
+export type PoolChangeBuilder = (
+  pool: AmmPool,
+  position: AmmLpPosition | undefined
+) => { pool: Pick<InsertAmmPool, 'baseReserve' | 'quoteReserve' | 'totalShares' | 'baseFees' | 'quoteFees'>; shares?: string };
+
 // Extended storage interface for AVGX data
 export interface IStorage {
   // User operations
@@ -8,6 +44,14 @@ export interface IStorage {
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
 
+  // Admin role operations
+  getUserRole(userId: string): Promise<UserRole | undefined>;
+  getUserRoles(): Promise<UserRole[]>;
+  // Creates a user together with its role, or neither
+  createUserWithRole(user: InsertUser, role: Omit<InsertUserRole, 'userId'>): Promise<{ user: User; role: UserRole }>;
+  // Changes a user's role; `check` sees every role under the same lock as the change and throws to refuse it
+  updateUserRole(userId: string, role: UserRole['role'], check?: (roles: UserRole[]) => void): Promise<UserRole | undefined>;
+
   // Contact operations
   createContact(contact: InsertContact): Promise<Contact>;
   getAllContacts(): Promise<Contact[]>;
@@ -29,29 +73,51 @@ export interface IStorage {
   createTransaction(transaction: InsertTransaction): Promise<AvgxTransaction>;
   getTransactionHistory(walletAddress: string, limit?: number): Promise<AvgxTransaction[]>;
   getAllTransactions(): Promise<AvgxTransaction[]>;
+  queryTransactions(query: TransactionQuery): Promise<AvgxTransaction[]>;
+  getTransactionByHash(txHash: string): Promise<AvgxTransaction | undefined>;
+  // Records a transaction and the reserves it results in together, or neither; no other entry lands between the reads and the write
+  createTransactionWithReserves(walletAddress: string, build: LedgerEntryBuilder): Promise<{ transaction: AvgxTransaction; reserves: AvgxReserves }>;
   
   // AVGX reserves operations
   updateReserves(reserves: InsertReserves): Promise<AvgxReserves>;
+  // Appends reserves built on the latest snapshot, under the same lock as ledger entries
+  appendReserves(build: (current: AvgxReserves | undefined) => InsertReserves): Promise<AvgxReserves>;
   getLatestReserves(): Promise<AvgxReserves | undefined>;
+
+  // AMM pool operations
+  getPools(): Promise<AmmPool[]>;
+  getPool(id: string): Promise<AmmPool | undefined>;
+  // Creates a pool with its initial positions, or nothing when the pool already exists
+  createPool(pool: InsertAmmPool, positions?: InsertAmmLpPosition[]): Promise<AmmPool | undefined>;
+  getLpPosition(poolId: string, walletAddress: string): Promise<AmmLpPosition | undefined>;
+  getLpPositions(walletAddress: string): Promise<AmmLpPosition[]>;
+  // Changes a pool's reserves and shares together with the wallet's position; no other change lands between the reads and the write
+  updatePool(poolId: string, walletAddress: string, change: PoolChangeBuilder): Promise<AmmPool | undefined>;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<string, User>;
+  private userRoles: Map<string, UserRole>;
   private contacts: Map<string, Contact>;
   private avgxIndices: Map<string, AvgxIndex>;
   private fiatRates: Map<string, FiatRate>;
   private cryptoPrices: Map<string, CryptoPrice>;
   private transactions: Map<string, AvgxTransaction>;
   private reserves: Map<string, AvgxReserves>;
+  private pools: Map<string, AmmPool>;
+  private lpPositions: Map<string, AmmLpPosition>;
 
   constructor() {
     this.users = new Map();
+    this.userRoles = new Map();
     this.contacts = new Map();
     this.avgxIndices = new Map();
     this.fiatRates = new Map();
     this.cryptoPrices = new Map();
     this.transactions = new Map();
     this.reserves = new Map();
+    this.pools = new Map();
+    this.lpPositions = new Map();
   }
 
   // User operations
@@ -72,6 +138,40 @@ export class MemStorage implements IStorage {
     return user;
   }
 
+  // Admin role operations
+  async getUserRole(userId: string): Promise<UserRole | undefined> {
+    return this.userRoles.get(userId);
+  }
+
+  async getUserRoles(): Promise<UserRole[]> {
+    return Array.from(this.userRoles.values());
+  }
+
+  async createUserWithRole(
+    insertUser: InsertUser,
+    insertRole: Omit<InsertUserRole, 'userId'>
+  ): Promise<{ user: User; role: UserRole }> {
+    const user = await this.createUser(insertUser);
+    const role: UserRole = { ...insertRole, userId: user.id, createdAt: new Date() };
+    this.userRoles.set(user.id, role);
+    return { user, role };
+  }
+
+  async updateUserRole(
+    userId: string,
+    role: UserRole['role'],
+    check?: (roles: UserRole[]) => void
+  ): Promise<UserRole | undefined> {
+    // Nothing awaits between the check and the write, so no other change can come between them
+    const existing = this.userRoles.get(userId);
+    if (!existing) return undefined;
+    check?.(Array.from(this.userRoles.values()));
+
+    const updated: UserRole = { ...existing, role };
+    this.userRoles.set(userId, updated);
+    return updated;
+  }
+
   // Contact operations
   async createContact(insertContact: InsertContact): Promise<Contact> {
     const id = randomUUID();
@@ -196,6 +296,50 @@ export class MemStorage implements IStorage {
       .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
   }
 
+  async queryTransactions(query: TransactionQuery): Promise<AvgxTransaction[]> {
+    const keyOf = (tx: AvgxTransaction) => (query.sort === 'amount'
+      ? parseFloat(tx.amount)
+      : new Date(tx.timestamp).getTime());
+    const direction = query.order === 'asc' ? 1 : -1;
+    const compare = (aKey: number, aId: string, bKey: number, bId: string) =>
+      direction * (aKey !== bKey ? aKey - bKey : aId < bId ? -1 : aId > bId ? 1 : 0);
+
+    const after = query.after && {
+      key: query.sort === 'amount' ? parseFloat(query.after.key) : new Date(query.after.key).getTime(),
+      id: query.after.id,
+    };
+
+    return Array.from(this.transactions.values())
+      .filter(tx => tx.walletAddress === query.walletAddress)
+      .filter(tx => !query.types || query.types.includes(tx.type))
+      .filter(tx => !query.chainIds || query.chainIds.includes(tx.chainId))
+      .filter(tx => !query.from || new Date(tx.timestamp) >= query.from)
+      .filter(tx => !query.to || new Date(tx.timestamp) < query.to)
+      .filter(tx => !after || compare(keyOf(tx), tx.id, after.key, after.id) > 0)
+      .sort((a, b) => compare(keyOf(a), a.id, keyOf(b), b.id))
+      .slice(0, query.limit);
+  }
+
+  async getTransactionByHash(txHash: string): Promise<AvgxTransaction | undefined> {
+    return Array.from(this.transactions.values()).find(tx => tx.txHash === txHash);
+  }
+
+  async createTransactionWithReserves(
+    walletAddress: string,
+    build: LedgerEntryBuilder
+  ): Promise<{ transaction: AvgxTransaction; reserves: AvgxReserves }> {
+    // Nothing awaits between the reads and the writes, so no other entry can come between them
+    const walletTransactions = Array.from(this.transactions.values()).filter(tx => tx.walletAddress === walletAddress);
+    const entry = build(this.latestReserves(), walletTransactions);
+
+    const timestamp = new Date();
+    const transaction: AvgxTransaction = { txHash: null, status: 'pending', ...entry.transaction, id: randomUUID(), timestamp };
+    const reserves: AvgxReserves = { ...entry.reserves, id: randomUUID(), timestamp };
+    this.transactions.set(transaction.id, transaction);
+    this.reserves.set(reserves.id, reserves);
+    return { transaction, reserves };
+  }
+
   // AVGX reserves operations
   async updateReserves(insertReserves: InsertReserves): Promise<AvgxReserves> {
     const id = randomUUID();
@@ -208,11 +352,84 @@ export class MemStorage implements IStorage {
     return reserves;
   }
 
+  async appendReserves(build: (current: AvgxReserves | undefined) => InsertReserves): Promise<AvgxReserves> {
+    const reserves: AvgxReserves = { ...build(this.latestReserves()), id: randomUUID(), timestamp: new Date() };
+    this.reserves.set(reserves.id, reserves);
+    return reserves;
+  }
+
   async getLatestReserves(): Promise<AvgxReserves | undefined> {
-    const reservesList = Array.from(this.reserves.values())
-      .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
-    return reservesList.length > 0 ? reservesList[0] : undefined;
+    return this.latestReserves();
+  }
+
+  // Of snapshots written in the same millisecond, the last one written is the latest
+  private latestReserves(): AvgxReserves | undefined {
+    let latest: AvgxReserves | undefined;
+    for (const reserves of Array.from(this.reserves.values())) {
+      if (!latest || new Date(reserves.timestamp) >= new Date(latest.timestamp)) latest = reserves;
+    }
+    return latest;
+  }
+
+  // AMM pool operations
+  async getPools(): Promise<AmmPool[]> {
+    return Array.from(this.pools.values());
+  }
+
+  async getPool(id: string): Promise<AmmPool | undefined> {
+    return this.pools.get(id);
+  }
+
+  async createPool(insertPool: InsertAmmPool, positions: InsertAmmLpPosition[] = []): Promise<AmmPool | undefined> {
+    if (this.pools.has(insertPool.id)) return undefined;
+
+    const now = new Date();
+    const pool: AmmPool = { baseFees: '0', quoteFees: '0', ...insertPool, createdAt: now, updatedAt: now };
+    this.pools.set(pool.id, pool);
+    for (const position of positions) {
+      this.lpPositions.set(`${position.poolId}:${position.walletAddress}`, { ...position, updatedAt: now });
+    }
+    return pool;
   }
+
+  async getLpPosition(poolId: string, walletAddress: string): Promise<AmmLpPosition | undefined> {
+    return this.lpPositions.get(`${poolId}:${walletAddress}`);
+  }
+
+  async getLpPositions(walletAddress: string): Promise<AmmLpPosition[]> {
+    return Array.from(this.lpPositions.values()).filter(p => p.walletAddress === walletAddress);
+  }
+
+  async updatePool(poolId: string, walletAddress: string, change: PoolChangeBuilder): Promise<AmmPool | undefined> {
+    // Nothing awaits between the reads and the writes, so no other change can come between them
+    const existing = this.pools.get(poolId);
+    if (!existing) return undefined;
+    const key = `${poolId}:${walletAddress}`;
+    const result = change(existing, this.lpPositions.get(key));
+
+    const now = new Date();
+    const pool: AmmPool = { ...existing, ...result.pool, updatedAt: now };
+    this.pools.set(poolId, pool);
+    if (result.shares !== undefined) {
+      this.lpPositions.set(key, { poolId, walletAddress, shares: result.shares, updatedAt: now });
+    }
+    return pool;
+  }
+}
+
+// STORAGE_DRIVER=database persists to Postgres (requires DATABASE_URL), anything else keeps data in memory
+async function createStorage(): Promise<IStorage> {
+  const driver = process.env.STORAGE_DRIVER || 'memory';
+
+  if (driver === 'database') {
+    const { DbStorage } = await import("./db-storage");
+    const { db } = await import("./db");
+    console.log('Using database storage');
+    return new DbStorage(db);
+  }
+
+  console.log('Using in-memory storage');
+  return new MemStorage();
 }
 
-export const storage = new MemStorage();
+export const storage = await createStorage();
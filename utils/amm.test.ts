@@ -0,0 +1,140 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { depositFor, fromUnits, initialShares, sqrt, swapOut, toUnits, withdrawalFor, type PoolUnits } from './amm';
+
+const ONE = toUnits('1');
+
+function pool(base: string, quote: string, shares: string): PoolUnits {
+  return { baseReserve: toUnits(base), quoteReserve: toUnits(quote), totalShares: toUnits(shares) };
+}
+
+test('decimals convert to units and back exactly', () => {
+  assert.equal(toUnits('1.5'), 1500000000000000000n);
+  assert.equal(toUnits('0.000000000000000001'), 1n);
+  assert.equal(toUnits('-2'), -2n * ONE);
+  assert.equal(toUnits(0.1), toUnits('0.1'));
+  assert.equal(toUnits(1e-7), toUnits('0.0000001'));
+  assert.equal(toUnits('1.1234567890123456789'), toUnits('1.123456789012345678'));
+  assert.equal(fromUnits(toUnits('12.5')), '12.500000000000000000');
+  assert.equal(fromUnits(-1n), '-0.000000000000000001');
+  assert.throws(() => toUnits('1e5'), /Invalid decimal amount/);
+  assert.throws(() => toUnits('abc'), /Invalid decimal amount/);
+
+  // Float sums drift where unit sums do not
+  assert.notEqual(0.1 + 0.2, 0.3);
+  assert.equal(fromUnits(toUnits('0.1') + toUnits('0.2')), fromUnits(toUnits('0.3')));
+});
+
+test('square roots round down', () => {
+  assert.equal(sqrt(0n), 0n);
+  assert.equal(sqrt(15n), 3n);
+  assert.equal(sqrt(16n), 4n);
+  assert.equal(sqrt(10n ** 36n), 10n ** 18n);
+  assert.equal(initialShares(toUnits('100'), toUnits('400')), toUnits('200'));
+});
+
+test('a swap prices on the constant product after the fee', () => {
+  // 10 in at 30 bps: 9.97 reaches the curve, 1000 * 9.97 / 1009.97 comes out
+  const { amountOut, lpFee } = swapOut(toUnits('1000'), toUnits('1000'), toUnits('10'), 30);
+  assert.equal(fromUnits(lpFee), '0.030000000000000000');
+  assert.equal(amountOut, toUnits('1000') * toUnits('9.97') / toUnits('1009.97'));
+
+  // Without a fee the whole input reaches the curve
+  const free = swapOut(toUnits('1000'), toUnits('1000'), toUnits('10'), 0);
+  assert.equal(free.lpFee, 0n);
+  assert.ok(free.amountOut > amountOut);
+
+  // Larger trades get a worse rate
+  const large = swapOut(toUnits('1000'), toUnits('1000'), toUnits('100'), 30);
+  assert.ok(large.amountOut * toUnits('10') < amountOut * toUnits('100'));
+});
+
+test('fees round up and outputs round down, so k never falls', () => {
+  const { lpFee } = swapOut(toUnits('1000'), toUnits('1000'), 1n, 30);
+  assert.equal(lpFee, 1n);
+
+  let reserveIn = toUnits('1000');
+  let reserveOut = toUnits('2000');
+  let k = reserveIn * reserveOut;
+  for (const amount of ['0.000000000000000007', '3.3333', '250', '0.1', '999.999999999999999999']) {
+    const amountIn = toUnits(amount);
+    const { amountOut } = swapOut(reserveIn, reserveOut, amountIn, 30);
+    [reserveIn, reserveOut] = [reserveOut - amountOut, reserveIn + amountIn];
+    const next = reserveIn * reserveOut;
+    assert.ok(next >= k, `k fell after swapping ${amount}`);
+    k = next;
+  }
+});
+
+test('deposits mint shares in proportion without diluting existing ones', () => {
+  const current = pool('1000', '2000', '1000');
+
+  const byBase = depositFor(current, { baseAmount: toUnits('10') });
+  assert.equal(fromUnits(byBase.quoteAmount), '20.000000000000000000');
+  assert.equal(fromUnits(byBase.shares), '10.000000000000000000');
+
+  const byQuote = depositFor(current, { quoteAmount: toUnits('20') });
+  assert.deepEqual(byQuote, byBase);
+
+  // The matching side rounds up and the shares down
+  const odd = depositFor(pool('3', '7', '3'), { baseAmount: 1n });
+  assert.equal(odd.quoteAmount, 3n);
+  assert.equal(odd.shares, 1n);
+  const tiny = depositFor(pool('3', '1', '3'), { quoteAmount: 1n });
+  assert.equal(tiny.baseAmount, 3n);
+  assert.equal(tiny.shares, 3n);
+});
+
+test('withdrawals pay out the burned share of each reserve', () => {
+  const current = pool('1000', '2000', '1000');
+  const { baseAmount, quoteAmount } = withdrawalFor(current, toUnits('250'));
+  assert.equal(fromUnits(baseAmount), '250.000000000000000000');
+  assert.equal(fromUnits(quoteAmount), '500.000000000000000000');
+
+  assert.deepEqual(withdrawalFor(pool('10', '10', '3'), 1n), { baseAmount: 3n, quoteAmount: 3n });
+});
+
+test('shares stay conserved and never lose value across deposits and withdrawals', () => {
+  let current = pool('1000', '3000', '1732.050807568877293527');
+  const holders = new Map([['seed', current.totalShares]]);
+  const valuePerShare = (p: PoolUnits) => p.baseReserve * ONE / p.totalShares;
+  let value = valuePerShare(current);
+
+  const steps: Array<[string, 'add' | 'remove', string]> = [
+    ['a', 'add', '0.000000000000000013'],
+    ['b', 'add', '123.456789'],
+    ['a', 'add', '7'],
+    ['b', 'remove', '50.5'],
+    ['a', 'remove', '0.000000000000000001'],
+    ['b', 'remove', 'all'],
+    ['a', 'remove', 'all'],
+  ];
+  for (const [holder, action, amount] of steps) {
+    const held = holders.get(holder) ?? 0n;
+    if (action === 'add') {
+      const deposit = depositFor(current, { baseAmount: toUnits(amount) });
+      current = {
+        baseReserve: current.baseReserve + deposit.baseAmount,
+        quoteReserve: current.quoteReserve + deposit.quoteAmount,
+        totalShares: current.totalShares + deposit.shares,
+      };
+      holders.set(holder, held + deposit.shares);
+    } else {
+      const shares = amount === 'all' ? held : toUnits(amount);
+      const withdrawal = withdrawalFor(current, shares);
+      current = {
+        baseReserve: current.baseReserve - withdrawal.baseAmount,
+        quoteReserve: current.quoteReserve - withdrawal.quoteAmount,
+        totalShares: current.totalShares - shares,
+      };
+      holders.set(holder, held - shares);
+    }
+
+    const total = Array.from(holders.values()).reduce((sum, shares) => sum + shares, 0n);
+    assert.equal(total, current.totalShares, `shares diverge after ${holder} ${action} ${amount}`);
+    assert.ok(valuePerShare(current) >= value, `shares lost value after ${holder} ${action} ${amount}`);
+    value = valuePerShare(current);
+  }
+  assert.equal(holders.get('a'), 0n);
+  assert.equal(holders.get('b'), 0n);
+});
@@ -0,0 +1,92 @@
+// Pool reserves and LP shares are fixed-point integers at the 18 decimals the pool columns
+// store, so every deposit, withdrawal and swap adds up exactly instead of drifting as floats do
+export const AMM_DECIMALS = 18;
+
+const SCALE = 10n ** BigInt(AMM_DECIMALS);
+const BPS = 10000n;
+
+export interface PoolUnits {
+  baseReserve: bigint;
+  quoteReserve: bigint;
+  totalShares: bigint;
+}
+
+/**
+ * Parses a decimal string, or a number by its shortest representation,
+ * into units; digits beyond 18 decimals are truncated
+ */
+export function toUnits(value: string | number): bigint {
+  const text = typeof value === 'number' && /e/i.test(String(value)) ? value.toFixed(AMM_DECIMALS) : String(value).trim();
+  const match = /^(-?)(\d+)(?:\.(\d*))?$/.exec(text);
+  if (!match) {
+    throw new Error(`Invalid decimal amount: ${value}`);
+  }
+  const units = BigInt(match[2]) * SCALE + BigInt((match[3] || '').slice(0, AMM_DECIMALS).padEnd(AMM_DECIMALS, '0'));
+  return match[1] ? -units : units;
+}
+
+// Decimal string with all 18 places, as Postgres returns the pool columns
+export function fromUnits(units: bigint): string {
+  const magnitude = units < 0n ? -units : units;
+  const fraction = (magnitude % SCALE).toString().padStart(AMM_DECIMALS, '0');
+  return `${units < 0n ? '-' : ''}${magnitude / SCALE}.${fraction}`;
+}
+
+export function unitsToNumber(units: bigint): number {
+  return Number(fromUnits(units));
+}
+
+function ceilDiv(numerator: bigint, denominator: bigint): bigint {
+  return (numerator + denominator - 1n) / denominator;
+}
+
+// Largest integer whose square does not exceed n
+export function sqrt(n: bigint): bigint {
+  if (n < 0n) throw new Error('Square root of a negative number');
+  if (n < 2n) return n;
+
+  let x = n;
+  let y = (x + 1n) / 2n;
+  while (y < x) {
+    x = y;
+    y = (x + n / x) / 2n;
+  }
+  return x;
+}
+
+// Shares minted for a pool's first deposit: the geometric mean of the reserves
+export function initialShares(baseReserve: bigint, quoteReserve: bigint): bigint {
+  return sqrt(baseReserve * quoteReserve);
+}
+
+/**
+ * Output of a constant-product trade. The fee is rounded up and the output
+ * down, so the pool's k never falls.
+ */
+export function swapOut(reserveIn: bigint, reserveOut: bigint, amountIn: bigint, feeBps: number): { amountOut: bigint; lpFee: bigint } {
+  const lpFee = ceilDiv(amountIn * BigInt(feeBps), BPS);
+  const amountInAfterFee = amountIn - lpFee;
+  const amountOut = reserveOut * amountInAfterFee / (reserveIn + amountInAfterFee);
+  return { amountOut, lpFee };
+}
+
+/**
+ * Deposit of one side and the matching amount of the other at the pool's
+ * ratio. The matching side is rounded up and the shares down, so existing
+ * shares are never diluted.
+ */
+export function depositFor(pool: PoolUnits, amounts: { baseAmount?: bigint; quoteAmount?: bigint }): { baseAmount: bigint; quoteAmount: bigint; shares: bigint } {
+  const baseAmount = amounts.baseAmount ?? ceilDiv(amounts.quoteAmount! * pool.baseReserve, pool.quoteReserve);
+  const quoteAmount = amounts.quoteAmount ?? ceilDiv(amounts.baseAmount! * pool.quoteReserve, pool.baseReserve);
+  const byBase = baseAmount * pool.totalShares / pool.baseReserve;
+  const byQuote = quoteAmount * pool.totalShares / pool.quoteReserve;
+  return { baseAmount, quoteAmount, shares: byBase < byQuote ? byBase : byQuote };
+}
+
+// Reserves paid out for burning shares, rounded down so the remaining shares keep their value
+export function withdrawalFor(pool: PoolUnits, shares: bigint): { baseAmount: bigint; quoteAmount: bigint } {
+  return {
+    baseAmount: pool.baseReserve * shares / pool.totalShares,
+    quoteAmount: pool.quoteReserve * shares / pool.totalShares,
+  };
+}
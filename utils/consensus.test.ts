@@ -0,0 +1,36 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { consensus, median, trimmedMean } from './consensus';
+
+test('median of odd and even sample counts', () => {
+  assert.equal(median([3, 1, 2]), 2);
+  assert.equal(median([4, 1, 3, 2]), 2.5);
+  assert.throws(() => median([]), /empty set/);
+});
+
+test('trimmedMean drops the extremes', () => {
+  assert.equal(trimmedMean([1, 10, 10, 10, 100], 0.2), 10);
+  // Nothing is trimmed from two samples
+  assert.equal(trimmedMean([1, 3], 0.2), 2);
+});
+
+test('consensus requires a quorum of valid samples', () => {
+  assert.equal(consensus([100], { minQuorum: 2 }), null);
+  assert.equal(consensus([100, NaN, -5, 0], { minQuorum: 2 }), null);
+  assert.equal(consensus([], { minQuorum: 0 }), null);
+
+  const result = consensus([100, NaN, 102], { minQuorum: 2 });
+  assert.deepEqual(result, { value: 101, method: 'median', sampleCount: 2, spread: 2 / 101 });
+});
+
+test('consensus ignores a single outlier with the median', () => {
+  const result = consensus([100, 101, 99, 5000]);
+  assert.equal(result?.value, 100.5);
+  assert.equal(result?.sampleCount, 4);
+});
+
+test('consensus with trimmed_mean', () => {
+  const result = consensus([1, 10, 10, 10, 100], { method: 'trimmed_mean' });
+  assert.equal(result?.value, 10);
+  assert.equal(result?.method, 'trimmed_mean');
+});
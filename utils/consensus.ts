@@ -0,0 +1,71 @@
+export type AggregationMethod = 'median' | 'trimmed_mean';
+
+export interface ConsensusOptions {
+  method: AggregationMethod;
+  minQuorum: number;
+  trimFraction: number; // Fraction dropped from each end for trimmed_mean (default: 0.2)
+}
+
+export interface ConsensusResult {
+  value: number;
+  method: AggregationMethod;
+  sampleCount: number;
+  spread: number; // (max - min) / value across the contributing samples
+}
+
+const DEFAULT_CONSENSUS_OPTIONS: ConsensusOptions = {
+  method: 'median',
+  minQuorum: 2,
+  trimFraction: 0.2,
+};
+
+export function median(values: number[]): number {
+  if (values.length === 0) {
+    throw new Error('Cannot take the median of an empty set');
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? (sorted[mid - 1] + sorted[mid]) / 2
+    : sorted[mid];
+}
+
+export function trimmedMean(values: number[], trimFraction: number = 0.2): number {
+  if (values.length === 0) {
+    throw new Error('Cannot take the mean of an empty set');
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const trim = Math.floor(sorted.length * trimFraction);
+  const kept = sorted.slice(trim, sorted.length - trim);
+
+  // Too few samples to trim anything meaningful
+  if (kept.length === 0) return median(sorted);
+
+  return kept.reduce((sum, val) => sum + val, 0) / kept.length;
+}
+
+/**
+ * Reduces independent samples of the same quantity to a single consensus value.
+ * Returns null when fewer than `minQuorum` valid samples are available.
+ */
+export function consensus(values: number[], options: Partial<ConsensusOptions> = {}): ConsensusResult | null {
+  const opts = { ...DEFAULT_CONSENSUS_OPTIONS, ...options };
+  const valid = values.filter(v => Number.isFinite(v) && v > 0);
+
+  if (valid.length === 0 || valid.length < opts.minQuorum) {
+    return null;
+  }
+
+  const value = opts.method === 'trimmed_mean'
+    ? trimmedMean(valid, opts.trimFraction)
+    : median(valid);
+
+  return {
+    value,
+    method: opts.method,
+    sampleCount: valid.length,
+    spread: (Math.max(...valid) - Math.min(...valid)) / value,
+  };
+}
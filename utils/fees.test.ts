@@ -0,0 +1,115 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  DEFAULT_FEE_SCHEDULE,
+  addCollectedFee,
+  chainRuleFor,
+  computeFee,
+  validateFeeSchedule,
+  type FeePromotion,
+  type FeeRequest,
+} from './fees';
+
+const NOW = new Date('2024-06-01T00:00:00Z');
+
+function promotion(overrides: Partial<FeePromotion>): FeePromotion {
+  return {
+    id: 'promo',
+    name: 'Launch',
+    actions: ['mint'],
+    chains: null,
+    bps: 5,
+    starts_at: '2024-05-01T00:00:00Z',
+    ends_at: '2024-07-01T00:00:00Z',
+    created_by: 'admin',
+    created_at: '2024-05-01T00:00:00Z',
+    ended_at: null,
+    ended_by: null,
+    ...overrides,
+  };
+}
+
+function quote(request: Partial<FeeRequest>, promotions: FeePromotion[] = []) {
+  return computeFee(
+    DEFAULT_FEE_SCHEDULE,
+    promotions,
+    { action: 'mint', chain: 'ethereum', amountUsd: 10000, volumeUsd: 0, ...request },
+    NOW
+  );
+}
+
+test('the default schedule is valid and broken rules are reported', () => {
+  assert.deepEqual(validateFeeSchedule(DEFAULT_FEE_SCHEDULE), []);
+
+  const issues = validateFeeSchedule({
+    actions: {
+      ...DEFAULT_FEE_SCHEDULE.actions,
+      mint: { tiers: [{ min_volume_usd: 100, bps: 2000 }], min_fee_usd: 5, max_fee_usd: 1 },
+    },
+    chains: { ethereum: { bps_adjustment: 0, network_fee_usd: -1 } },
+  });
+  assert.deepEqual(issues, [
+    'actions.mint.tiers must start at min_volume_usd 0',
+    'actions.mint.tiers[0].bps must be between 0 and 1000, got 2000',
+    'actions.mint.max_fee_usd must be at least min_fee_usd',
+    'chains.ethereum.network_fee_usd must not be negative',
+  ]);
+});
+
+test('the wallet volume picks the tier and the chain adjusts its rate', () => {
+  assert.equal(quote({}).scheduleBps, 30);
+  assert.equal(quote({ volumeUsd: 100000 }).tier.bps, 20);
+  assert.equal(quote({ volumeUsd: 5000000 }).tier.bps, 10);
+
+  const polygon = quote({ chain: 'polygon' });
+  assert.equal(polygon.chainAdjustmentBps, -5);
+  assert.equal(polygon.scheduleBps, 25);
+  assert.equal(polygon.protocolFeeUsd, 25);
+  assert.equal(polygon.totalFeeUsd, 25.02);
+});
+
+test('the protocol fee is held between the minimum and the cap', () => {
+  const small = quote({ amountUsd: 10 });
+  assert.equal(small.limit, 'minimum');
+  assert.equal(small.protocolFeeUsd, 0.5);
+
+  const large = quote({ amountUsd: 1e7 });
+  assert.equal(large.limit, 'cap');
+  assert.equal(large.protocolFeeUsd, 1000);
+});
+
+test('the cheapest running promotion applies and waives the minimum', () => {
+  const promotions = [
+    promotion({ id: 'a', bps: 10 }),
+    promotion({ id: 'b', bps: 5 }),
+    promotion({ id: 'ended', bps: 0, ended_at: '2024-05-15T00:00:00Z' }),
+    promotion({ id: 'upcoming', bps: 0, starts_at: '2024-06-15T00:00:00Z' }),
+    promotion({ id: 'polygon', bps: 0, chains: ['polygon'] }),
+    promotion({ id: 'swap', bps: 0, actions: ['swap'] }),
+  ];
+
+  const fee = quote({ amountUsd: 100 }, promotions);
+  assert.equal(fee.promotion?.id, 'b');
+  assert.equal(fee.effectiveBps, 5);
+  assert.equal(fee.protocolFeeUsd, 0.05);
+  assert.equal(fee.limit, null);
+
+  // A promotion never raises the fee above the schedule
+  assert.equal(quote({ volumeUsd: 5000000 }, [promotion({ bps: 20 })]).promotion, null);
+});
+
+test('chains are looked up by own keys only', () => {
+  assert.equal(chainRuleFor(DEFAULT_FEE_SCHEDULE, 'constructor'), undefined);
+  assert.equal(chainRuleFor(DEFAULT_FEE_SCHEDULE, '__proto__'), undefined);
+  assert.throws(() => quote({ chain: 'toString' }), /No fee rules for chain toString/);
+});
+
+test('addCollectedFee totals by action and chain', () => {
+  let collected = addCollectedFee(undefined, quote({}));
+  collected = addCollectedFee(collected, quote({ action: 'redeem', chain: 'polygon' }));
+  assert.deepEqual(collected, {
+    totalUsd: 55,
+    byAction: { mint: 30, redeem: 25 },
+    byChain: { ethereum: 30, polygon: 25 },
+  });
+});
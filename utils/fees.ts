@@ -0,0 +1,240 @@
+export type FeeAction = 'mint' | 'redeem' | 'swap';
+
+export const FEE_ACTIONS: FeeAction[] = ['mint', 'redeem', 'swap'];
+
+// Highest rate any tier, chain or promotion may charge
+export const MAX_FEE_BPS = 1000;
+
+// Applies once a wallet's trailing volume reaches min_volume_usd
+export interface FeeTier {
+  min_volume_usd: number;
+  bps: number;
+}
+
+export interface ActionFeeRule {
+  tiers: FeeTier[];           // Ascending by min_volume_usd, the first starting at 0
+  min_fee_usd: number;
+  max_fee_usd: number | null; // No cap when null
+}
+
+export interface ChainFeeRule {
+  bps_adjustment: number;  // Added to the tier rate on this chain; may be negative
+  network_fee_usd: number; // Estimated gas, paid to the network rather than collected
+}
+
+export interface FeeSchedule {
+  actions: Record<FeeAction, ActionFeeRule>;
+  chains: Record<string, ChainFeeRule>;
+}
+
+// A reduced rate for a limited time; it never raises a fee above the schedule
+export interface FeePromotion {
+  id: string;
+  name: string;
+  actions: FeeAction[];
+  chains: string[] | null; // Every chain when null
+  bps: number;
+  starts_at: string;
+  ends_at: string;
+  created_by: string;
+  created_at: string;
+  ended_at: string | null; // Set when withdrawn before ends_at
+  ended_by: string | null;
+}
+
+export const DEFAULT_FEE_SCHEDULE: FeeSchedule = {
+  actions: {
+    mint: {
+      tiers: [
+        { min_volume_usd: 0, bps: 30 },
+        { min_volume_usd: 100000, bps: 20 },
+        { min_volume_usd: 1000000, bps: 10 },
+      ],
+      min_fee_usd: 0.5,
+      max_fee_usd: 1000,
+    },
+    redeem: {
+      tiers: [
+        { min_volume_usd: 0, bps: 30 },
+        { min_volume_usd: 100000, bps: 20 },
+        { min_volume_usd: 1000000, bps: 10 },
+      ],
+      min_fee_usd: 0.5,
+      max_fee_usd: 1000,
+    },
+    swap: {
+      tiers: [
+        { min_volume_usd: 0, bps: 30 },
+        { min_volume_usd: 100000, bps: 25 },
+        { min_volume_usd: 1000000, bps: 15 },
+      ],
+      min_fee_usd: 0.1,
+      max_fee_usd: 500,
+    },
+  },
+  chains: {
+    ethereum: { bps_adjustment: 0, network_fee_usd: 5 },
+    sepolia: { bps_adjustment: 0, network_fee_usd: 0.01 },
+    polygon: { bps_adjustment: -5, network_fee_usd: 0.02 },
+    amoy: { bps_adjustment: 0, network_fee_usd: 0.01 },
+  },
+};
+
+/**
+ * Rules that cannot be applied consistently; empty when the schedule is valid
+ */
+export function validateFeeSchedule(schedule: FeeSchedule): string[] {
+  const issues: string[] = [];
+
+  for (const action of FEE_ACTIONS) {
+    const rule = schedule.actions[action];
+    if (!rule) {
+      issues.push(`actions.${action} is required`);
+      continue;
+    }
+
+    if (rule.tiers.length === 0 || rule.tiers[0].min_volume_usd !== 0) {
+      issues.push(`actions.${action}.tiers must start at min_volume_usd 0`);
+    }
+    rule.tiers.forEach((tier, i) => {
+      if (tier.bps < 0 || tier.bps > MAX_FEE_BPS) {
+        issues.push(`actions.${action}.tiers[${i}].bps must be between 0 and ${MAX_FEE_BPS}, got ${tier.bps}`);
+      }
+      if (i > 0 && tier.min_volume_usd <= rule.tiers[i - 1].min_volume_usd) {
+        issues.push(`actions.${action}.tiers must be in ascending order of min_volume_usd`);
+      }
+    });
+
+    if (rule.max_fee_usd !== null && rule.max_fee_usd < rule.min_fee_usd) {
+      issues.push(`actions.${action}.max_fee_usd must be at least min_fee_usd`);
+    }
+  }
+
+  if (Object.keys(schedule.chains).length === 0) {
+    issues.push('At least one chain is required');
+  }
+  for (const [chain, rule] of Object.entries(schedule.chains)) {
+    if (Math.abs(rule.bps_adjustment) > MAX_FEE_BPS) {
+      issues.push(`chains.${chain}.bps_adjustment must be between -${MAX_FEE_BPS} and ${MAX_FEE_BPS}`);
+    }
+    if (rule.network_fee_usd < 0) {
+      issues.push(`chains.${chain}.network_fee_usd must not be negative`);
+    }
+  }
+
+  return issues;
+}
+
+// Own keys only, so names like "constructor" or "__proto__" are never chains
+export function chainRuleFor(schedule: FeeSchedule, chain: string): ChainFeeRule | undefined {
+  return Object.hasOwn(schedule.chains, chain) ? schedule.chains[chain] : undefined;
+}
+
+export function isPromotionActive(promotion: FeePromotion, now: Date): boolean {
+  const time = now.getTime();
+  return promotion.ended_at === null &&
+    new Date(promotion.starts_at).getTime() <= time &&
+    time < new Date(promotion.ends_at).getTime();
+}
+
+export interface FeeRequest {
+  action: FeeAction;
+  chain: string;
+  amountUsd: number;
+  volumeUsd: number; // The wallet's trailing volume, 0 when unknown
+}
+
+// How a fee was arrived at; carried in every quote
+export interface FeeBreakdown {
+  action: FeeAction;
+  chain: string;
+  amountUsd: number;
+  volumeUsd: number;
+  tier: { minVolumeUsd: number; bps: number };
+  chainAdjustmentBps: number;
+  scheduleBps: number;   // Tier rate plus the chain adjustment
+  promotion: { id: string; name: string; bps: number; endsAt: string } | null;
+  effectiveBps: number;
+  percentageFeeUsd: number;
+  minimumFeeUsd: number;
+  maximumFeeUsd: number | null;
+  limit: 'minimum' | 'cap' | null; // Which bound the protocol fee was held to, if any
+  protocolFeeUsd: number;  // Charged on the trade and collected in reserves
+  networkFeeUsd: number;   // Gas estimate, paid separately
+  totalFeeUsd: number;
+}
+
+/**
+ * Prices one trade against the schedule. The wallet's volume picks the
+ * tier, the chain adjusts its rate, and the cheapest applicable promotion
+ * replaces the rate when lower. The minimum fee is waived while a promotion
+ * applies; the cap always holds.
+ */
+export function computeFee(schedule: FeeSchedule, promotions: FeePromotion[], request: FeeRequest, now: Date): FeeBreakdown {
+  const rule = schedule.actions[request.action];
+  const chainRule = chainRuleFor(schedule, request.chain);
+  if (!chainRule) {
+    throw new Error(`No fee rules for chain ${request.chain}`);
+  }
+  const tier = [...rule.tiers].reverse().find(t => request.volumeUsd >= t.min_volume_usd) ?? rule.tiers[0];
+
+  const scheduleBps = Math.min(MAX_FEE_BPS, Math.max(0, tier.bps + chainRule.bps_adjustment));
+  const promotion = promotions
+    .filter(p => isPromotionActive(p, now) && p.actions.includes(request.action) && (p.chains === null || p.chains.includes(request.chain)))
+    .filter(p => p.bps < scheduleBps)
+    .sort((a, b) => a.bps - b.bps)[0];
+
+  const effectiveBps = promotion ? promotion.bps : scheduleBps;
+  const percentageFeeUsd = request.amountUsd * effectiveBps / 10000;
+
+  let protocolFeeUsd = percentageFeeUsd;
+  let limit: FeeBreakdown['limit'] = null;
+  if (!promotion && protocolFeeUsd < rule.min_fee_usd) {
+    protocolFeeUsd = rule.min_fee_usd;
+    limit = 'minimum';
+  }
+  if (rule.max_fee_usd !== null && protocolFeeUsd > rule.max_fee_usd) {
+    protocolFeeUsd = rule.max_fee_usd;
+    limit = 'cap';
+  }
+
+  return {
+    action: request.action,
+    chain: request.chain,
+    amountUsd: request.amountUsd,
+    volumeUsd: request.volumeUsd,
+    tier: { minVolumeUsd: tier.min_volume_usd, bps: tier.bps },
+    chainAdjustmentBps: chainRule.bps_adjustment,
+    scheduleBps,
+    promotion: promotion
+      ? { id: promotion.id, name: promotion.name, bps: promotion.bps, endsAt: promotion.ends_at }
+      : null,
+    effectiveBps,
+    percentageFeeUsd,
+    minimumFeeUsd: rule.min_fee_usd,
+    maximumFeeUsd: rule.max_fee_usd,
+    limit,
+    protocolFeeUsd,
+    networkFeeUsd: chainRule.network_fee_usd,
+    totalFeeUsd: protocolFeeUsd + chainRule.network_fee_usd,
+  };
+}
+
+// Protocol fees collected so far, carried in every reserves snapshot
+export interface CollectedFees {
+  totalUsd: number;
+  byAction: Partial<Record<FeeAction, number>>;
+  byChain: Record<string, number>;
+}
+
+export function addCollectedFee(collected: CollectedFees | undefined, fee: FeeBreakdown): CollectedFees {
+  const current = collected ?? { totalUsd: 0, byAction: {}, byChain: {} };
+  return {
+    totalUsd: current.totalUsd + fee.protocolFeeUsd,
+    byAction: { ...current.byAction, [fee.action]: (current.byAction[fee.action] ?? 0) + fee.protocolFeeUsd },
+    byChain: {
+      ...current.byChain,
+      [fee.chain]: (Object.hasOwn(current.byChain, fee.chain) ? current.byChain[fee.chain] : 0) + fee.protocolFeeUsd,
+    },
+  };
+}
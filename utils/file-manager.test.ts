@@ -0,0 +1,42 @@
+import { test, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileManager } from './file-manager';
+
+// FileManager resolves ./data against the working directory
+before(async () => {
+  process.chdir(await fs.mkdtemp(join(tmpdir(), 'file-manager-')));
+});
+
+test('writes keep the previous version as a backup', async () => {
+  await FileManager.writeJson('a.json', { v: 1 });
+  await FileManager.writeJson('a.json', { v: 2 });
+
+  assert.deepEqual(JSON.parse(await fs.readFile('data/a.json.bak', 'utf-8')), { v: 1 });
+  assert.deepEqual(await FileManager.readJson('a.json'), { v: 2 });
+});
+
+test('a corrupt file is recovered from the backup and never rotated over it', async () => {
+  await FileManager.writeJson('b.json', { v: 1 });
+  await FileManager.writeJson('b.json', { v: 2 });
+  await fs.writeFile('data/b.json', '{"v": 3');
+
+  // Writing over the corrupt file keeps the last-good backup
+  await FileManager.writeJson('b.json', { v: 4 });
+  assert.deepEqual(JSON.parse(await fs.readFile('data/b.json.bak', 'utf-8')), { v: 1 });
+
+  await fs.writeFile('data/b.json', 'corrupt');
+  assert.deepEqual(await FileManager.readJson('b.json'), { v: 1 });
+  assert.deepEqual(JSON.parse(await fs.readFile('data/b.json', 'utf-8')), { v: 1 });
+});
+
+test('concurrent updates of a corrupt file recover once and apply every update', async () => {
+  await FileManager.writeJson('c.json', [1]);
+  await FileManager.writeJson('c.json', [1, 2]);
+  await fs.writeFile('data/c.json', '[');
+
+  await Promise.all([3, 4, 5].map(n => FileManager.updateJson<number[]>('c.json', current => [...(current ?? []), n])));
+  assert.deepEqual(await FileManager.readJson('c.json'), [1, 3, 4, 5]);
+});
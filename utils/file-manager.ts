@@ -1,9 +1,13 @@
 import { promises as fs } from 'fs';
 import { join } from 'path';
+import { randomUUID } from 'crypto';
 
 const DATA_DIR = './data';
 
 export class FileManager {
+  // Tail of the pending-operation queue for each file; operations on one file run one at a time
+  private static queues = new Map<string, Promise<void>>();
+
   static async ensureDataDir() {
     try {
       await fs.access(DATA_DIR);
@@ -12,45 +16,156 @@ export class FileManager {
     }
   }
 
+  /**
+   * Runs `fn` once every earlier queued operation on `filename` has settled
+   */
+  private static async withLock<T>(filename: string, fn: () => Promise<T>): Promise<T> {
+    const previous = this.queues.get(filename) ?? Promise.resolve();
+    let release!: () => void;
+    const gate = new Promise<void>(resolve => (release = resolve));
+    const current = previous.then(() => gate);
+    this.queues.set(filename, current);
+
+    await previous;
+    try {
+      return await fn();
+    } finally {
+      release();
+      if (this.queues.get(filename) === current) {
+        this.queues.delete(filename);
+      }
+    }
+  }
+
   static async readJson<T>(filename: string): Promise<T | null> {
+    return this.read<T>(filename, () => this.withLock(filename, () => this.recoverFromBackup<T>(filename)));
+  }
+
+  /**
+   * Reads and parses `filename`, handing over to `recover` when the file is
+   * missing or corrupt
+   */
+  private static async read<T>(filename: string, recover: () => Promise<T | null>): Promise<T | null> {
+    const filePath = join(DATA_DIR, filename);
+    let data: string;
+
     try {
-      const filePath = join(DATA_DIR, filename);
-      const data = await fs.readFile(filePath, 'utf-8');
-      return JSON.parse(data);
-    } catch (error) {
+      data = await fs.readFile(filePath, 'utf-8');
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        // A crash between backup and rename can leave only the backup behind
+        return recover();
+      }
       console.warn(`Failed to read ${filename}:`, error);
       return null;
     }
+
+    try {
+      return JSON.parse(data);
+    } catch (error) {
+      console.error(`Corrupt JSON in ${filename}, attempting recovery from backup:`, error);
+      return recover();
+    }
+  }
+
+  /**
+   * Restores `filename` from its last-good backup, returning the recovered data.
+   * Callers hold the file's lock. The file is read again first since an earlier
+   * holder may already have restored or rewritten it; the backup is left
+   * untouched so a corrupt file never replaces it.
+   */
+  private static async recoverFromBackup<T>(filename: string): Promise<T | null> {
+    const current = await this.parseFile<T>(join(DATA_DIR, filename));
+    if (current !== undefined) return current;
+
+    const data = await this.parseFile<T>(join(DATA_DIR, `${filename}.bak`));
+    if (data === undefined) return null;
+
+    try {
+      await this.writeAtomic(filename, data, { backup: false });
+      console.warn(`Recovered ${filename} from last-good backup`);
+    } catch (error) {
+      console.error(`Failed to restore ${filename} from backup:`, error);
+    }
+    return data;
+  }
+
+  // Parsed contents, or undefined when the file is missing or not valid JSON
+  private static async parseFile<T>(filePath: string): Promise<T | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(filePath, 'utf-8')) as T;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Writes via a temp file in the same directory, fsyncs it, keeps the previous
+   * version as `<file>.bak` when it parses and renames the temp file into place.
+   * Readers see either the old or the new content, never a partial file.
+   */
+  private static async writeAtomic(filename: string, data: any, options: { backup: boolean } = { backup: true }): Promise<void> {
+    await this.ensureDataDir();
+    const filePath = join(DATA_DIR, filename);
+    const tempPath = join(DATA_DIR, `.${filename}.${process.pid}.${randomUUID()}.tmp`);
+
+    const handle = await fs.open(tempPath, 'w');
+    try {
+      await handle.writeFile(JSON.stringify(data, null, 2));
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+
+    try {
+      // A corrupt current file must not rotate over the last-good backup
+      if (options.backup && (await this.parseFile(filePath)) !== undefined) {
+        await fs.copyFile(filePath, join(DATA_DIR, `${filename}.bak`));
+      }
+      await fs.rename(tempPath, filePath);
+    } catch (error) {
+      await fs.unlink(tempPath).catch(() => undefined);
+      throw error;
+    }
   }
 
   static async writeJson(filename: string, data: any): Promise<void> {
     try {
-      await this.ensureDataDir();
-      const filePath = join(DATA_DIR, filename);
-      
-      // Simple write for now - atomic writes can cause issues in Replit environment
-      await fs.writeFile(filePath, JSON.stringify(data, null, 2));
-      
-      console.log(`Successfully wrote ${filename}`);
+      await this.withLock(filename, () => this.writeAtomic(filename, data));
     } catch (error) {
       console.error(`Failed to write ${filename}:`, error);
       throw error;
     }
   }
 
+  /**
+   * Read-modify-write under the file's lock, so concurrent updates are applied
+   * one after another instead of overwriting each other. Returning null or
+   * undefined from `updater` skips the write.
+   */
+  static async updateJson<T>(filename: string, updater: (current: T | null) => T | null | undefined): Promise<T | null> {
+    try {
+      return await this.withLock(filename, async () => {
+        // The lock is already held, so recovery runs directly
+        const current = await this.read<T>(filename, () => this.recoverFromBackup<T>(filename));
+        const next = updater(current);
+        if (next === null || next === undefined) return current;
+
+        await this.writeAtomic(filename, next);
+        return next;
+      });
+    } catch (error) {
+      console.error(`Failed to update ${filename}:`, error);
+      throw error;
+    }
+  }
+
   static async appendToHistory(entry: any): Promise<void> {
     try {
-      const history = (await this.readJson<any[]>('history.json')) || [];
-      history.push(entry);
-      
-      // Keep only last 720 entries (30 days of hourly data)
-      if (history.length > 720) {
-        history.splice(0, history.length - 720);
-      }
-      
-      await this.writeJson('history.json', history);
+      // Expired entries are rolled up and pruned by the history retention service
+      await this.updateJson<any[]>('history.json', history => [...(history || []), entry]);
     } catch (error) {
       console.error('Failed to append to history:', error);
     }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,17 @@
+/**
+ * Base for errors raised by services for requests they cannot carry out.
+ * The routes report `status` as the HTTP status, with `issues` and any
+ * `details` as extra response fields.
+ */
+export class HttpError extends Error {
+  name = 'HttpError';
+
+  constructor(
+    message: string,
+    readonly status: number = 400,
+    readonly issues: string[] = [],
+    readonly details?: Record<string, unknown>
+  ) {
+    super(message);
+  }
+}
@@ -0,0 +1,13 @@
+/**
+ * Runs the tasks handed to it one at a time, in the order they were handed
+ * over. A task that fails does not hold up the ones queued behind it.
+ */
+export class SerialQueue {
+  private tail: Promise<unknown> = Promise.resolve();
+
+  run<T>(fn: () => Promise<T>): Promise<T> {
+    const run = this.tail.then(fn, fn);
+    this.tail = run.catch(() => undefined);
+    return run;
+  }
+}
@@ -0,0 +1,68 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildCandles, evenGroups, lttbIndices, mergeSeries, toSeries, valueAtOrBefore } from './series';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+test('toSeries sorts rows and drops invalid timestamps and values', () => {
+  const series = toSeries([
+    { timestamp: '2024-01-01T02:00:00Z', value: 2 },
+    { timestamp: 'not a date', value: 3 },
+    { timestamp: '2024-01-01T01:00:00Z', value: 1 },
+    { timestamp: '2024-01-01T03:00:00Z', value: NaN },
+  ], row => row.value);
+  assert.deepEqual(series.map(p => p.value), [1, 2]);
+});
+
+test('valueAtOrBefore finds the last point at or before the target', () => {
+  const series = [10, 20, 30].map(time => ({ time, value: time / 10 }));
+  assert.equal(valueAtOrBefore(series, 5), undefined);
+  assert.equal(valueAtOrBefore(series, 20)?.value, 2);
+  assert.equal(valueAtOrBefore(series, 29)?.value, 2);
+  assert.equal(valueAtOrBefore(series, 100)?.value, 3);
+});
+
+test('mergeSeries lets the later series win on identical timestamps', () => {
+  const merged = mergeSeries([{ time: 1, value: 1 }, { time: 3, value: 3 }], [{ time: 2, value: 2 }, { time: 3, value: 30 }]);
+  assert.deepEqual(merged, [{ time: 1, value: 1 }, { time: 2, value: 2 }, { time: 3, value: 30 }]);
+});
+
+test('buildCandles aggregates buckets and fills gaps with the previous close', () => {
+  const rows = [
+    { time: -HOUR_MS, value: 5 },
+    { time: 0, value: 10 },
+    { time: 10 * 60000, value: 12 },
+    { time: 20 * 60000, value: 9 },
+    { time: 2 * HOUR_MS + 5 * 60000, value: 11 },
+  ];
+  const fields = { value: (row: { value: number }) => row.value };
+
+  const filled = buildCandles(rows, fields, HOUR_MS, 0, 3 * HOUR_MS, true);
+  assert.deepEqual(filled.map(b => [b.time, b.sample_count, b.candles.value]), [
+    [0, 3, { open: 10, high: 12, low: 9, close: 9 }],
+    [HOUR_MS, 0, { open: 9, high: 9, low: 9, close: 9 }],
+    [2 * HOUR_MS, 1, { open: 11, high: 11, low: 11, close: 11 }],
+  ]);
+
+  const sparse = buildCandles(rows, fields, HOUR_MS, 0, 3 * HOUR_MS, false);
+  assert.deepEqual(sparse.map(b => b.time), [0, 2 * HOUR_MS]);
+
+  // The range start is seeded from the last sample before it
+  const seeded = buildCandles(rows, fields, HOUR_MS, HOUR_MS, 2 * HOUR_MS, true);
+  assert.deepEqual(seeded[0].candles.value, { open: 9, high: 9, low: 9, close: 9 });
+});
+
+test('lttbIndices keeps the endpoints and the extremes of the shape', () => {
+  const series = [0, 1, 0, 0, 9, 0, 0, 1, 0, 0].map((value, time) => ({ time, value }));
+  const indices = lttbIndices(series, 4);
+  assert.equal(indices.length, 4);
+  assert.equal(indices[0], 0);
+  assert.equal(indices[3], 9);
+  assert.ok(indices.includes(4));
+  assert.deepEqual(lttbIndices(series, 20), series.map((_, i) => i));
+});
+
+test('evenGroups splits into contiguous near-equal groups', () => {
+  assert.deepEqual(evenGroups(10, 3), [[0, 3], [3, 6], [6, 10]]);
+  assert.deepEqual(evenGroups(2, 5), [[0, 1], [1, 2]]);
+});
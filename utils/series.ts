@@ -0,0 +1,213 @@
+export interface SeriesPoint {
+  time: number; // Epoch milliseconds
+  value: number;
+}
+
+/**
+ * Builds a time-sorted series from timestamped rows, dropping rows with
+ * unparseable timestamps or non-finite values
+ */
+export function toSeries<T extends { timestamp: string }>(rows: T[], pick: (row: T) => number): SeriesPoint[] {
+  return rows
+    .map(row => ({ time: new Date(row.timestamp).getTime(), value: pick(row) }))
+    .filter(p => Number.isFinite(p.time) && Number.isFinite(p.value))
+    .sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Last point with time <= target in a time-sorted series (binary search)
+ */
+export function valueAtOrBefore(series: SeriesPoint[], target: number): SeriesPoint | undefined {
+  let lo = 0;
+  let hi = series.length - 1;
+  let found: SeriesPoint | undefined;
+
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (series[mid].time <= target) {
+      found = series[mid];
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+
+  return found;
+}
+
+/**
+ * Merges several time-sorted series; on identical timestamps the later series wins
+ */
+export function mergeSeries(...series: SeriesPoint[][]): SeriesPoint[] {
+  const byTime = new Map<number, SeriesPoint>();
+  for (const s of series) {
+    for (const point of s) byTime.set(point.time, point);
+  }
+  return Array.from(byTime.values()).sort((a, b) => a.time - b.time);
+}
+
+export interface Candle {
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+export interface CandleBucket<K extends string> {
+  time: number; // Bucket start, epoch milliseconds
+  sample_count: number;
+  candles: Record<K, Candle | null>;
+}
+
+function asCandle(value: number | Candle | null): Candle | null {
+  if (value === null) return null;
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? { open: value, high: value, low: value, close: value } : null;
+  }
+  return Number.isFinite(value.close) ? value : null;
+}
+
+/**
+ * Start of the UTC-aligned bucket containing `time`
+ */
+export function bucketStart(time: number, intervalMs: number): number {
+  return Math.floor(time / intervalMs) * intervalMs;
+}
+
+/**
+ * Aggregates time-sorted rows into OHLC buckets covering [from, to), with
+ * `from` rounded down to its bucket start. Field accessors may return a single
+ * value or a pre-aggregated candle (e.g. a rollup row); `countOf` gives the
+ * number of samples a row represents.
+ * Every bucket in the range is emitted; an empty bucket gets a flat candle at
+ * the previous close (or null before the first sample) when `fillEmpty` is set,
+ * otherwise it is dropped.
+ */
+export function buildCandles<T extends { time: number }, K extends string>(
+  rows: T[],
+  fields: Record<K, (row: T) => number | Candle | null>,
+  intervalMs: number,
+  from: number,
+  to: number,
+  fillEmpty: boolean,
+  countOf: (row: T) => number = () => 1
+): CandleBucket<K>[] {
+  const keys = Object.keys(fields) as K[];
+  const buckets: CandleBucket<K>[] = [];
+  const lastClose = {} as Record<K, number | undefined>;
+  const alignedFrom = bucketStart(from, intervalMs);
+
+  // Seed previous closes from the last sample before the range
+  const before = rows.filter(row => row.time < alignedFrom);
+  if (before.length > 0) {
+    const seed = before[before.length - 1];
+    for (const key of keys) lastClose[key] = asCandle(fields[key](seed))?.close;
+  }
+
+  let i = rows.findIndex(row => row.time >= alignedFrom);
+  if (i === -1) i = rows.length;
+
+  for (let start = alignedFrom; start < to; start += intervalMs) {
+    const end = start + intervalMs;
+    const candles = {} as Record<K, Candle | null>;
+    let count = 0;
+
+    for (; i < rows.length && rows[i].time < end && rows[i].time < to; i++) {
+      const row = rows[i];
+      count += countOf(row);
+      for (const key of keys) {
+        const value = asCandle(fields[key](row));
+        if (!value) continue;
+        const candle = candles[key];
+        if (!candle) {
+          candles[key] = { ...value };
+        } else {
+          candle.high = Math.max(candle.high, value.high);
+          candle.low = Math.min(candle.low, value.low);
+          candle.close = value.close;
+        }
+      }
+    }
+
+    if (count === 0 && !fillEmpty) continue;
+
+    for (const key of keys) {
+      if (!candles[key]) {
+        const prev = lastClose[key];
+        candles[key] = prev === undefined ? null : { open: prev, high: prev, low: prev, close: prev };
+      }
+      lastClose[key] = candles[key]?.close;
+    }
+
+    buckets.push({ time: start, sample_count: count, candles });
+  }
+
+  return buckets;
+}
+
+/**
+ * Largest-Triangle-Three-Buckets: picks `threshold` indices that preserve the
+ * visual shape of the series. Always keeps the first and last point.
+ */
+export function lttbIndices(series: SeriesPoint[], threshold: number): number[] {
+  const n = series.length;
+  if (threshold >= n || threshold < 3) {
+    return series.map((_, i) => i);
+  }
+
+  const indices: number[] = [0];
+  const bucketSize = (n - 2) / (threshold - 2);
+  let a = 0;
+
+  for (let b = 0; b < threshold - 2; b++) {
+    // Average of the next bucket is the third triangle vertex
+    const nextStart = Math.floor((b + 1) * bucketSize) + 1;
+    const nextEnd = Math.min(Math.floor((b + 2) * bucketSize) + 1, n);
+    let avgTime = 0;
+    let avgValue = 0;
+    for (let j = nextStart; j < nextEnd; j++) {
+      avgTime += series[j].time;
+      avgValue += series[j].value;
+    }
+    const nextCount = Math.max(nextEnd - nextStart, 1);
+    avgTime /= nextCount;
+    avgValue /= nextCount;
+
+    const start = Math.floor(b * bucketSize) + 1;
+    const end = Math.floor((b + 1) * bucketSize) + 1;
+    let maxArea = -1;
+    let picked = start;
+    for (let j = start; j < end; j++) {
+      const area = Math.abs(
+        (series[a].time - avgTime) * (series[j].value - series[a].value) -
+        (series[a].time - series[j].time) * (avgValue - series[a].value)
+      );
+      if (area > maxArea) {
+        maxArea = area;
+        picked = j;
+      }
+    }
+
+    indices.push(picked);
+    a = picked;
+  }
+
+  indices.push(n - 1);
+  return indices;
+}
+
+/**
+ * Splits `length` items into `threshold` contiguous groups of near-equal size,
+ * returned as [start, end) index pairs
+ */
+export function evenGroups(length: number, threshold: number): Array<[number, number]> {
+  if (threshold >= length) {
+    return Array.from({ length }, (_, i) => [i, i + 1] as [number, number]);
+  }
+
+  const groups: Array<[number, number]> = [];
+  for (let g = 0; g < threshold; g++) {
+    groups.push([Math.floor((g * length) / threshold), Math.floor(((g + 1) * length) / threshold)]);
+  }
+  return groups;
+}
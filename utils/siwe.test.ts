@@ -0,0 +1,85 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { secp256k1 } from '@noble/curves/secp256k1';
+import { bytesToHex } from '@noble/hashes/utils';
+import { hashPersonalMessage, parseSiweMessage, recoverMessageAddress, toChecksumAddress } from './siwe';
+
+// Address of private key 1
+const ADDRESS = '0x7E5F4552091A69125d5DfCb7b8C2659029395Bdf';
+const PRIVATE_KEY = '0000000000000000000000000000000000000000000000000000000000000001';
+
+const MESSAGE = [
+  'avgx.example wants you to sign in with your Ethereum account:',
+  ADDRESS,
+  '',
+  'Sign in to AVGX',
+  '',
+  'URI: https://avgx.example/login',
+  'Version: 1',
+  'Chain ID: 11155111',
+  'Nonce: abcdef1234567890',
+  'Issued At: 2024-01-01T00:00:00.000Z',
+  'Expiration Time: 2024-01-01T01:00:00Z',
+  'Resources:',
+  '- https://avgx.example/terms',
+].join('\n');
+
+function sign(message: string): string {
+  const signature = secp256k1.sign(hashPersonalMessage(message), PRIVATE_KEY);
+  return `0x${signature.toCompactHex()}${(27 + signature.recovery).toString(16)}`;
+}
+
+test('toChecksumAddress applies the EIP-55 casing', () => {
+  assert.equal(toChecksumAddress('0x5aaeb6053f3e94c9b9a09f33669435e7ef1beaed'), '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed');
+  assert.throws(() => toChecksumAddress('0x1234'), /Invalid address/);
+});
+
+test('parseSiweMessage reads every field', () => {
+  const message = parseSiweMessage(MESSAGE);
+  assert.equal(message.domain, 'avgx.example');
+  assert.equal(message.scheme, null);
+  assert.equal(message.address, ADDRESS);
+  assert.equal(message.statement, 'Sign in to AVGX');
+  assert.equal(message.chain_id, 11155111);
+  assert.equal(message.nonce, 'abcdef1234567890');
+  assert.equal(message.expiration_time, '2024-01-01T01:00:00Z');
+  assert.equal(message.not_before, null);
+  assert.deepEqual(message.resources, ['https://avgx.example/terms']);
+});
+
+test('parseSiweMessage accepts a scheme and a message without a statement', () => {
+  const text = MESSAGE.replace('avgx.example wants', 'https://avgx.example wants').replace('Sign in to AVGX\n\n', '');
+  const message = parseSiweMessage(text);
+  assert.equal(message.scheme, 'https');
+  assert.equal(message.domain, 'avgx.example');
+  assert.equal(message.statement, null);
+});
+
+test('parseSiweMessage rejects malformed messages', () => {
+  assert.throws(() => parseSiweMessage('hello'), /Not a Sign-In with Ethereum message/);
+  assert.throws(() => parseSiweMessage(MESSAGE.replace(ADDRESS, ADDRESS.toLowerCase())), /EIP-55/);
+  assert.throws(() => parseSiweMessage(MESSAGE.replace('Version: 1', 'Version: 2')), /Unsupported version/);
+  assert.throws(() => parseSiweMessage(MESSAGE.replace('Nonce: abcdef1234567890', 'Nonce: short')), /Nonce/);
+  assert.throws(() => parseSiweMessage(MESSAGE.replace('2024-01-01T00:00:00.000Z', 'yesterday')), /RFC 3339/);
+  assert.throws(() => parseSiweMessage(`${MESSAGE}\nextra`), /Unexpected line/);
+});
+
+test('recoverMessageAddress returns the signer', () => {
+  const signature = sign(MESSAGE);
+  assert.equal(recoverMessageAddress(MESSAGE, signature), ADDRESS);
+  // Recovery ids 0/1 are accepted as well as 27/28
+  const raw = signature.slice(0, -2) + (parseInt(signature.slice(-2), 16) - 27).toString(16).padStart(2, '0');
+  assert.equal(recoverMessageAddress(MESSAGE, raw), ADDRESS);
+  // A different message recovers a different address
+  assert.notEqual(recoverMessageAddress(`${MESSAGE}\n`, signature), ADDRESS);
+});
+
+test('recoverMessageAddress rejects malformed and high-s signatures', () => {
+  assert.throws(() => recoverMessageAddress(MESSAGE, '0x1234'), /65 bytes/);
+  assert.throws(() => recoverMessageAddress(MESSAGE, `${sign(MESSAGE).slice(0, -2)}1d`), /recovery id/);
+
+  const signature = secp256k1.sign(hashPersonalMessage(MESSAGE), PRIVATE_KEY);
+  const highS = secp256k1.CURVE.n - signature.s;
+  const malleable = `0x${signature.r.toString(16).padStart(64, '0')}${highS.toString(16).padStart(64, '0')}${bytesToHex(Uint8Array.of(28 - signature.recovery))}`;
+  assert.throws(() => recoverMessageAddress(MESSAGE, malleable), /too high/);
+});
@@ -0,0 +1,198 @@
+import { secp256k1 } from '@noble/curves/secp256k1';
+import { keccak_256 } from '@noble/hashes/sha3';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+
+// Fields of an EIP-4361 Sign-In with Ethereum message
+export interface SiweMessage {
+  scheme: string | null;
+  domain: string;
+  address: string;
+  statement: string | null;
+  uri: string;
+  version: string;
+  chain_id: number;
+  nonce: string;
+  issued_at: string;
+  expiration_time: string | null;
+  not_before: string | null;
+  request_id: string | null;
+  resources: string[];
+}
+
+// Raised for messages or signatures that do not verify
+export class SiweError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SiweError';
+  }
+}
+
+const HEADER_SUFFIX = ' wants you to sign in with your Ethereum account:';
+
+const OPTIONAL_FIELDS: Array<[string, 'expiration_time' | 'not_before' | 'request_id']> = [
+  ['Expiration Time', 'expiration_time'],
+  ['Not Before', 'not_before'],
+  ['Request ID', 'request_id'],
+];
+
+function isTimestamp(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/.test(value)
+    && Number.isFinite(new Date(value).getTime());
+}
+
+export function isAddress(value: string): boolean {
+  return /^0x[0-9a-fA-F]{40}$/.test(value);
+}
+
+/**
+ * EIP-55 mixed-case checksum form of an address
+ */
+export function toChecksumAddress(address: string): string {
+  if (!isAddress(address)) {
+    throw new SiweError(`Invalid address: ${address}`);
+  }
+  const lower = address.slice(2).toLowerCase();
+  const hash = bytesToHex(keccak_256(utf8ToBytes(lower)));
+  let checksummed = '0x';
+  for (let i = 0; i < lower.length; i++) {
+    checksummed += parseInt(hash[i], 16) >= 8 ? lower[i].toUpperCase() : lower[i];
+  }
+  return checksummed;
+}
+
+/**
+ * Parses the EIP-4361 text form. The address must carry a valid EIP-55
+ * checksum, as the standard requires.
+ */
+export function parseSiweMessage(text: string): SiweMessage {
+  const lines = text.split('\n');
+  let cursor = 0;
+  const next = () => lines[cursor++];
+
+  const header = next() ?? '';
+  if (!header.endsWith(HEADER_SUFFIX)) {
+    throw new SiweError('Not a Sign-In with Ethereum message');
+  }
+  const origin = header.slice(0, -HEADER_SUFFIX.length);
+  const schemeEnd = origin.indexOf('://');
+  const scheme = schemeEnd >= 0 ? origin.slice(0, schemeEnd) : null;
+  const domain = schemeEnd >= 0 ? origin.slice(schemeEnd + 3) : origin;
+  if (!domain || /\s/.test(domain)) {
+    throw new SiweError('Invalid domain');
+  }
+
+  const address = next() ?? '';
+  if (!isAddress(address) || toChecksumAddress(address) !== address) {
+    throw new SiweError('Address must be an EIP-55 checksummed Ethereum address');
+  }
+
+  if (next() !== '') throw new SiweError('Expected a blank line after the address');
+
+  // Either "statement, blank line" or a blank line when there is no statement.
+  // Common client libraries drop that second blank line, so it is optional.
+  let statement: string | null = null;
+  if (!lines[cursor]?.startsWith('URI: ')) {
+    if (lines[cursor] !== '') statement = next();
+    if (next() !== '') throw new SiweError('Expected a blank line before the fields');
+  }
+
+  const field = (name: string, required: boolean): string | null => {
+    const line = lines[cursor];
+    if (line?.startsWith(`${name}: `)) {
+      cursor++;
+      return line.slice(name.length + 2);
+    }
+    if (required) throw new SiweError(`Missing ${name}`);
+    return null;
+  };
+
+  const uri = field('URI', true)!;
+  const version = field('Version', true)!;
+  const chainId = field('Chain ID', true)!;
+  const nonce = field('Nonce', true)!;
+  const issuedAt = field('Issued At', true)!;
+  const optional: Partial<Record<'expiration_time' | 'not_before' | 'request_id', string>> = {};
+  for (const [name, key] of OPTIONAL_FIELDS) {
+    const value = field(name, false);
+    if (value !== null) optional[key] = value;
+  }
+
+  const resources: string[] = [];
+  if (lines[cursor] === 'Resources:') {
+    cursor++;
+    while (lines[cursor]?.startsWith('- ')) {
+      resources.push(next().slice(2));
+    }
+  }
+
+  if (cursor < lines.length && !(cursor === lines.length - 1 && lines[cursor] === '')) {
+    throw new SiweError(`Unexpected line: ${lines[cursor]}`);
+  }
+
+  if (version !== '1') throw new SiweError(`Unsupported version: ${version}`);
+  if (!/^[1-9]\d*$/.test(chainId)) throw new SiweError(`Invalid chain ID: ${chainId}`);
+  if (!/^[A-Za-z0-9]{8,}$/.test(nonce)) throw new SiweError('Nonce must be at least 8 alphanumeric characters');
+  for (const [name, value] of [['Issued At', issuedAt], ['Expiration Time', optional.expiration_time], ['Not Before', optional.not_before]]) {
+    if (value !== undefined && !isTimestamp(value!)) throw new SiweError(`${name} must be an RFC 3339 timestamp`);
+  }
+
+  return {
+    scheme,
+    domain,
+    address,
+    statement,
+    uri,
+    version,
+    chain_id: parseInt(chainId, 10),
+    nonce,
+    issued_at: issuedAt,
+    expiration_time: optional.expiration_time ?? null,
+    not_before: optional.not_before ?? null,
+    request_id: optional.request_id ?? null,
+    resources,
+  };
+}
+
+/**
+ * EIP-191 personal_sign digest of `message`
+ */
+export function hashPersonalMessage(message: string): Uint8Array {
+  const body = utf8ToBytes(message);
+  const prefix = utf8ToBytes(`\x19Ethereum Signed Message:\n${body.length}`);
+  const data = new Uint8Array(prefix.length + body.length);
+  data.set(prefix);
+  data.set(body, prefix.length);
+  return keccak_256(data);
+}
+
+/**
+ * Checksummed address whose key produced `signature` (65-byte r‖s‖v hex)
+ * over `message` with personal_sign
+ */
+export function recoverMessageAddress(message: string, signature: string): string {
+  const hex = signature.startsWith('0x') ? signature.slice(2) : signature;
+  if (!/^[0-9a-fA-F]{130}$/.test(hex)) {
+    throw new SiweError('Signature must be 65 bytes of hex');
+  }
+
+  const v = parseInt(hex.slice(128), 16);
+  const recovery = v >= 27 ? v - 27 : v;
+  if (recovery !== 0 && recovery !== 1) {
+    throw new SiweError(`Invalid signature recovery id: ${v}`);
+  }
+
+  let publicKey: Uint8Array;
+  try {
+    const sig = secp256k1.Signature.fromCompact(hex.slice(0, 128)).addRecoveryBit(recovery);
+    // Malleable high-s signatures are rejected, as Ethereum does since EIP-2
+    if (sig.hasHighS()) throw new SiweError('Signature s value is too high');
+    publicKey = sig.recoverPublicKey(hashPersonalMessage(message)).toRawBytes(false);
+  } catch (error) {
+    if (error instanceof SiweError) throw error;
+    throw new SiweError('Signature could not be recovered');
+  }
+
+  // Address = last 20 bytes of keccak256 of the uncompressed key without its 0x04 prefix
+  const address = `0x${bytesToHex(keccak_256(publicKey.slice(1)).slice(-20))}`;
+  return toChecksumAddress(address);
+}
@@ -0,0 +1,68 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  DEFAULT_STABILITY_CONFIG,
+  applyDailyClamp,
+  calculateSmoothedValues,
+  calculateVolatilityIndex,
+  periodsPerYear,
+  validateStabilityConfig,
+} from './stability';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+test('validateStabilityConfig reports out-of-range and non-integer parameters', () => {
+  assert.deepEqual(validateStabilityConfig(DEFAULT_STABILITY_CONFIG), []);
+
+  const issues = validateStabilityConfig({ ...DEFAULT_STABILITY_CONFIG, alpha_f: 2, volatility_window: 2.5 });
+  assert.equal(issues.length, 2);
+  assert.match(issues[0], /alpha_f must be between/);
+  assert.match(issues[1], /volatility_window must be an integer/);
+});
+
+test('periodsPerYear uses the median spacing and falls back without two times', () => {
+  const minutes = [0, 60000, 120000, 180000, 10 * 60000];
+  assert.equal(periodsPerYear(minutes), 365 * 1440);
+  assert.equal(periodsPerYear([0, DAY_MS, 2 * DAY_MS]), 365);
+  assert.equal(periodsPerYear([5]), 365);
+  assert.equal(periodsPerYear([], HOUR_MS), 365 * 24);
+});
+
+test('calculateSmoothedValues applies the EWMA to the previous row', () => {
+  const first = calculateSmoothedValues(1, 100, [], DEFAULT_STABILITY_CONFIG);
+  assert.deepEqual(first, { wf_smoothed: 1, wc_smoothed: 100, volatility_index: 0, wc_adjusted: 100 });
+
+  const next = calculateSmoothedValues(2, 200, [{ wf_smoothed: 1, wc_smoothed: 100 }], DEFAULT_STABILITY_CONFIG);
+  assert.ok(Math.abs(next.wf_smoothed - 1.2) < 1e-12);
+  assert.ok(Math.abs(next.wc_smoothed - 110) < 1e-12);
+});
+
+test('volatility is measured on daily closes over a window of days', () => {
+  const config = { ...DEFAULT_STABILITY_CONFIG, v_target: 5, volatility_window: 4 };
+  const closes = [100, 101, 100, 101, 100];
+
+  const sigma = calculateVolatilityIndex(101, closes, config);
+  // The last four closes and the current value
+  const values = [101, 100, 101, 100, 101];
+  const returns = values.slice(1).map((v, i) => Math.log(v / values[i]));
+  const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  const stdDev = Math.sqrt(returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / returns.length);
+  assert.ok(Math.abs(sigma - stdDev * Math.sqrt(365) / 5) < 1e-12);
+
+  // Only the last volatility_window closes count
+  assert.equal(calculateVolatilityIndex(101, [1, 2, 3, ...closes], config), sigma);
+  // Without a completed day there is no return to measure
+  assert.equal(calculateVolatilityIndex(101, [], config), 0);
+  assert.equal(calculateSmoothedValues(1, 101, [], config, closes).volatility_index, sigma);
+});
+
+test('applyDailyClamp scales the allowed move by the time since the last row', () => {
+  const config = { ...DEFAULT_STABILITY_CONFIG, clamp_percent: 0.024 };
+
+  assert.equal(applyDailyClamp(110, undefined, config), 110);
+  assert.ok(Math.abs(applyDailyClamp(110, 100, config) - 102.4) < 1e-9);
+  assert.ok(Math.abs(applyDailyClamp(110, 100, config, 2 * DAY_MS) - 102.4) < 1e-9);
+  assert.ok(Math.abs(applyDailyClamp(90, 100, config, HOUR_MS) - 99.9) < 1e-9);
+  assert.equal(applyDailyClamp(100.05, 100, config, HOUR_MS), 100.05);
+});
@@ -0,0 +1,164 @@
+// Configuration parameters for the stability formula
+export interface StabilityConfig {
+  alpha_f: number;      // Smoothing factor for fiat (default: 0.2)
+  alpha_c: number;      // Smoothing factor for crypto (default: 0.1)
+  v_target: number;     // Target volatility percentage (default: 10%)
+  clamp_percent: number; // Daily movement clamp percentage (default: 1.5%)
+  volatility_window: number; // Rolling window for volatility calculation, in days (default: 30)
+}
+
+export const DEFAULT_STABILITY_CONFIG: StabilityConfig = {
+  alpha_f: 0.2,
+  alpha_c: 0.1,
+  v_target: 0.10,
+  clamp_percent: 0.015,
+  volatility_window: 30
+};
+
+// Accepted range of each parameter for the live index
+export const STABILITY_CONFIG_BOUNDS: Record<keyof StabilityConfig, { min: number; max: number; integer?: boolean }> = {
+  alpha_f: { min: 0.001, max: 1 },
+  alpha_c: { min: 0.001, max: 1 },
+  v_target: { min: 0.01, max: 5 },
+  clamp_percent: { min: 0.001, max: 0.2 },
+  volatility_window: { min: 2, max: 365, integer: true },
+};
+
+/**
+ * Parameters outside STABILITY_CONFIG_BOUNDS; empty when the config is valid
+ */
+export function validateStabilityConfig(config: StabilityConfig): string[] {
+  const issues: string[] = [];
+  for (const [key, bounds] of Object.entries(STABILITY_CONFIG_BOUNDS) as Array<[keyof StabilityConfig, typeof STABILITY_CONFIG_BOUNDS[keyof StabilityConfig]]>) {
+    const value = config[key];
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      issues.push(`${key} must be a number`);
+    } else if (value < bounds.min || value > bounds.max) {
+      issues.push(`${key} must be between ${bounds.min} and ${bounds.max}, got ${value}`);
+    } else if (bounds.integer && !Number.isInteger(value)) {
+      issues.push(`${key} must be an integer, got ${value}`);
+    }
+  }
+  return issues;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const YEAR_MS = 365 * DAY_MS;
+
+/**
+ * Annualization factor from the median spacing of sample times, so
+ * volatility is scaled by how often samples are actually taken. Falls back to
+ * `fallbackIntervalMs` without at least two distinct times.
+ */
+export function periodsPerYear(times: number[], fallbackIntervalMs: number = DAY_MS): number {
+  const gaps = times
+    .slice(1)
+    .map((time, i) => time - times[i])
+    .filter(gap => gap > 0)
+    .sort((a, b) => a - b);
+  if (gaps.length === 0) return YEAR_MS / fallbackIntervalMs;
+  return YEAR_MS / gaps[Math.floor(gaps.length / 2)];
+}
+
+export interface SmoothedValues {
+  wf_smoothed: number;
+  wc_smoothed: number;
+  volatility_index: number;
+  wc_adjusted: number;
+}
+
+// A previously stored smoothed sample, oldest first in a history array
+export interface SmoothedSample {
+  wf_smoothed: number;
+  wc_smoothed: number;
+}
+
+/**
+ * EWMA-smooths both baskets against the last stored sample and applies the
+ * volatility adjustment to the crypto component. `dailyCloses` are the
+ * smoothed crypto basket at the close of each completed UTC day, oldest first.
+ */
+export function calculateSmoothedValues(
+  wfRaw: number,
+  wcRaw: number,
+  history: SmoothedSample[],
+  config: StabilityConfig,
+  dailyCloses: number[] = []
+): SmoothedValues {
+  const lastSmoothed = history.length > 0 ? history[history.length - 1] : null;
+
+  // Apply EWMA smoothing
+  const wfSmoothed = lastSmoothed
+    ? config.alpha_f * wfRaw + (1 - config.alpha_f) * lastSmoothed.wf_smoothed
+    : wfRaw;
+
+  const wcSmoothed = lastSmoothed
+    ? config.alpha_c * wcRaw + (1 - config.alpha_c) * lastSmoothed.wc_smoothed
+    : wcRaw;
+
+  // Calculate volatility index σ_t
+  const volatilityIndex = calculateVolatilityIndex(wcSmoothed, dailyCloses, config);
+
+  // Apply volatility adjustment to crypto component
+  const wcAdjusted = wcSmoothed * (1 - volatilityIndex);
+
+  return {
+    wf_smoothed: wfSmoothed,
+    wc_smoothed: wcSmoothed,
+    volatility_index: volatilityIndex,
+    wc_adjusted: wcAdjusted
+  };
+}
+
+/**
+ * Volatility index σ_t = min(1, σ_annualized / V_target) over a rolling
+ * window of volatility_window days: the daily closes, then the current value
+ * as today's close so far
+ */
+export function calculateVolatilityIndex(
+  wcSmoothed: number,
+  dailyCloses: number[],
+  config: StabilityConfig
+): number {
+  const recentValues = dailyCloses
+    .slice(-config.volatility_window)
+    .concat([wcSmoothed]);
+
+  if (recentValues.length < 2) return 0;
+
+  // Calculate log returns
+  const logReturns = [];
+  for (let i = 1; i < recentValues.length; i++) {
+    logReturns.push(Math.log(recentValues[i] / recentValues[i - 1]));
+  }
+
+  // Calculate standard deviation of log returns
+  const mean = logReturns.reduce((sum, val) => sum + val, 0) / logReturns.length;
+  const variance = logReturns.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / logReturns.length;
+  const stdDev = Math.sqrt(variance);
+
+  // Annualize from daily returns
+  const annualizedVol = stdDev * Math.sqrt(365);
+
+  return Math.min(1, annualizedVol / config.v_target);
+}
+
+/**
+ * Limits the move from the last recorded AVGX value, taken `elapsedMs`
+ * earlier, to clamp_percent per day: a row an hour old allows 1/24 of the
+ * daily move, one a day or more old the full clamp_percent
+ */
+export function applyDailyClamp(
+  avgxValue: number,
+  lastAvgx: number | undefined,
+  config: StabilityConfig,
+  elapsedMs: number = DAY_MS
+): number {
+  if (lastAvgx === undefined) return avgxValue;
+
+  const maxChange = lastAvgx * config.clamp_percent * Math.min(1, Math.max(0, elapsedMs) / DAY_MS);
+  const change = avgxValue - lastAvgx;
+  const clampedChange = Math.max(-maxChange, Math.min(maxChange, change));
+
+  return lastAvgx + clampedChange;
+}
@@ -0,0 +1,28 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { keccak_256 } from '@noble/hashes/sha3';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+import { transactionHash } from './tx-hash';
+
+const keccak = (text: string) => `0x${bytesToHex(keccak_256(utf8ToBytes(text)))}`;
+
+test('transactionHash is a 32-byte hex keccak256 of the canonical JSON', () => {
+  const hash = transactionHash({ b: 1, a: { d: [1, { y: 2, x: 1 }], c: undefined } });
+  assert.match(hash, /^0x[0-9a-f]{64}$/);
+  assert.equal(hash, keccak('{"a":{"d":[1,{"x":1,"y":2}]},"b":1}'));
+});
+
+test('key order does not change the hash, contents do', () => {
+  const contents = { wallet: '0xabc', amount: '1.5', type: 'mint', nonce: 7 };
+  const reordered = { nonce: 7, type: 'mint', amount: '1.5', wallet: '0xabc' };
+  assert.equal(transactionHash(contents), transactionHash(reordered));
+  assert.notEqual(transactionHash(contents), transactionHash({ ...contents, amount: '1.50' }));
+  assert.notEqual(transactionHash(contents), transactionHash({ ...contents, nonce: 8 }));
+});
+
+test('dates hash as their ISO form and undefined fields are omitted', () => {
+  const at = new Date('2024-01-01T00:00:00.000Z');
+  assert.equal(transactionHash({ at }), transactionHash({ at: at.toISOString() }));
+  assert.equal(transactionHash({ a: 1, b: undefined }), transactionHash({ a: 1 }));
+  assert.notEqual(transactionHash({ a: 1, b: null }), transactionHash({ a: 1 }));
+});
@@ -0,0 +1,24 @@
+import { keccak_256 } from '@noble/hashes/sha3';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+
+// JSON with object keys sorted at every level, so equal contents serialize identically
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object' && !(value instanceof Date)) {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * 32-byte keccak256 hash of a transaction's contents. The same contents
+ * always give the same hash, so anyone holding them can recompute it.
+ */
+export function transactionHash(contents: Record<string, unknown>): string {
+  return `0x${bytesToHex(keccak_256(utf8ToBytes(canonicalJson(contents))))}`;
+}